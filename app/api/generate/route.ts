@@ -1,5 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { mastra } from '../../../src/mastra/index';
+import { isHttpSource, indexBaseName } from '../../../src/mastra/sources';
+import { outputFormatSchema, renderContextIndex, renderWithinBudget } from '../../../src/mastra/renderers';
+import { parseTokenBudget } from '../../../src/mastra/utils/tokens';
+import { createZip } from '../../../src/mastra/utils/zip';
+import { unverifiedModeSchema } from '../../../src/mastra/validation';
+import { projectConfigSchema, projectTokenBudget } from '../../../src/mastra/config/project';
+
+// Reading the server's filesystem is only allowed outside production unless opted in
+const localSourcesAllowed = () =>
+  process.env.NODE_ENV !== 'production' || process.env.ALLOW_LOCAL_SOURCES === 'true';
 
 // Configure route segment config for timeout
 export const maxDuration = 600; // 600 seconds (10 minutes) for reasoning model processing
@@ -7,16 +17,58 @@ export const dynamic = 'force-dynamic';
 
 export async function POST(request: NextRequest) {
   try {
-    const { repoUrl } = await request.json();
+    // Options left out defer to the config, then the repository's docsgen.config, then the defaults
+    const { repoUrl, ref, format, tokenBudget: budget, shard, unverifiedApis, deterministic, config } = await request.json();
     
-    if (!repoUrl) {
+    if (!repoUrl || typeof repoUrl !== 'string') {
       return NextResponse.json(
         { error: 'Repository URL is required' },
         { status: 400 }
       );
     }
+    
+    const outputFormat = outputFormatSchema.optional().safeParse(format);
+    if (!outputFormat.success) {
+      return NextResponse.json(
+        { error: 'Unknown format', message: `Supported formats: ${outputFormatSchema.options.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    
+    // Accepts 8000 as well as "8k"
+    const tokenBudget = budget === undefined || budget === null ? undefined : parseTokenBudget(String(budget));
+    if (budget !== undefined && budget !== null && !tokenBudget) {
+      return NextResponse.json(
+        { error: 'Invalid token budget', message: 'Use a number of tokens such as 8000 or "8k"' },
+        { status: 400 }
+      );
+    }
+    
+    const unverifiedMode = unverifiedModeSchema.optional().safeParse(unverifiedApis);
+    if (!unverifiedMode.success) {
+      return NextResponse.json(
+        { error: 'Invalid unverifiedApis', message: 'Use "remove" or "flag"' },
+        { status: 400 }
+      );
+    }
+    
+    const projectConfig = projectConfigSchema.optional().safeParse(config);
+    if (!projectConfig.success) {
+      return NextResponse.json(
+        { error: 'Invalid config', message: projectConfig.error.issues.map(issue => `${issue.path.join('.') || 'config'}: ${issue.message}`).join('; ') },
+        { status: 400 }
+      );
+    }
+    
+    // Anything that is not an http(s) remote would be cloned or read on this machine
+    if (!isHttpSource(repoUrl) && !localSourcesAllowed()) {
+      return NextResponse.json(
+        { error: 'Local sources are disabled', message: 'Only http(s) repository URLs are accepted; set ALLOW_LOCAL_SOURCES=true to read local paths and other git remotes' },
+        { status: 403 }
+      );
+    }
 
-    console.log(`Starting workflow for repository: ${repoUrl}`);
+    console.log(`Starting workflow for repository: ${repoUrl}${ref ? ` at ${ref}` : ''}`);
     console.log(`Using reasoning model - this may take several minutes for large repositories`);
     const startTime = Date.now();
 
@@ -28,6 +80,12 @@ export async function POST(request: NextRequest) {
     const result = await run.start({
       inputData: {
         repoUrl,
+        ref,
+        config: projectConfig.data,
+        tokenBudget,
+        shard: shard === undefined ? undefined : Boolean(shard),
+        unverifiedApis: unverifiedMode.data,
+        deterministic: deterministic === undefined ? undefined : Boolean(deterministic),
       }
     });
     
@@ -35,10 +93,42 @@ export async function POST(request: NextRequest) {
     console.log(`Workflow completed in ${duration}s`);
     
     if (result.status === 'success') {
+      const { index } = result.result;
+      const baseName = indexBaseName(repoUrl, result.result.ref);
+      // Settings in effect once the configs were applied
+      const settings = result.result.config?.output;
+      const effectiveFormat = outputFormat.data || settings?.formats?.[0] || 'markdown';
+      const effectiveBudget = projectTokenBudget(result.result.config);
+      
+      // Sharded indexes are a file set, served as one archive
+      if (settings?.shard) {
+        return new NextResponse(Buffer.from(createZip(result.result.files)), {
+          headers: {
+            'Content-Type': 'application/zip',
+            'Content-Disposition': `attachment; filename="${baseName}.zip"`,
+          },
+        });
+      }
+      
+      // Markdown comes from the workflow, already fitted; other formats are fitted here
+      const budgeted = effectiveBudget && effectiveFormat !== 'markdown'
+        ? renderWithinBudget(index, effectiveFormat, effectiveBudget, baseName)
+        : undefined;
+      const output = budgeted?.output || renderContextIndex(index, effectiveFormat, baseName);
+      
       return NextResponse.json({
         success: true,
         markdown: result.result.markdown,
+        // Structured index, so clients can render any other format themselves
+        index,
+        output: effectiveFormat === 'markdown' ? { ...output, content: result.result.markdown } : output,
+        appendices: budgeted ? budgeted.appendices : result.result.appendices,
+        budget: budgeted ? budgeted.report : result.result.budget,
+        validation: result.result.validation,
+        signatures: result.result.signatures,
         repoUrl,
+        ref: result.result.ref,
+        commitSha: result.result.commitSha,
         processingTime: duration,
       });
     } else {
@@ -4,6 +4,7 @@ import { useState } from "react"
 import { GitHubAnalyzer } from "@/components/github-analyzer"
 import { OutputViewer } from "@/components/output-viewer"
 import { WorkflowProgress } from "@/components/workflow-progress"
+import type { ContextIndex } from "@/src/mastra/renderers"
 
 export default function Home() {
   type WorkflowStep = {
@@ -14,6 +15,7 @@ export default function Home() {
 
   const [isLoading, setIsLoading] = useState(false)
   const [output, setOutput] = useState<string | null>(null)
+  const [index, setIndex] = useState<ContextIndex | null>(null)
   const [repoUrl, setRepoUrl] = useState<string>("")
   const [workflowSteps, setWorkflowSteps] = useState<WorkflowStep[]>([
     { id: "1", name: "Analyzing Documentation", status: "pending" },
@@ -25,6 +27,7 @@ export default function Home() {
   const handleAnalyze = async (url: string) => {
     setIsLoading(true)
     setOutput(null)
+    setIndex(null)
     setRepoUrl(url)
     
     const updateStep = (stepId: string, status: "pending" | "active" | "completed") => {
@@ -64,6 +67,7 @@ export default function Home() {
       const data = await response.json()
       updateStep("4", "completed")
       setOutput(data.markdown)
+      setIndex(data.index ?? null)
       
     } catch (error) {
       console.error("Error:", error)
@@ -99,6 +103,7 @@ export default function Home() {
             content={output} 
             isLoading={false} 
             repoUrl={repoUrl}
+            index={index}
           />
         </div>
       </div>
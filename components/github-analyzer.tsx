@@ -38,9 +38,11 @@ export function GitHubAnalyzer({ onAnalyze, isLoading }: GitHubAnalyzerProps) {
   }
 
   const validateGitHubUrl = (value: string) => {
-    const githubUrlPattern = /^https?:\/\/(www\.)?github\.com\/[\w-]+\/[\w.-]+$/
-    if (!githubUrlPattern.test(value)) {
-      return "Please enter a valid GitHub repository URL"
+    const repoUrlPattern = /^https?:\/\/[\w.-]+(:\d+)?(\/[\w.-]+){2,}\/?(@[\w.-]+)?$/
+    const gitUrlPattern = /^(ssh:\/\/|git:\/\/|[\w.-]+@[\w.-]+:)\S+$/
+    const localPathPattern = /^(file:\/\/|\/|\.{1,2}\/|~\/|[a-zA-Z]:[\\/])/
+    if (![repoUrlPattern, gitUrlPattern, localPathPattern].some(pattern => pattern.test(value))) {
+      return "Please enter a valid repository URL or local path"
     }
     return true
   }
@@ -69,8 +71,8 @@ export function GitHubAnalyzer({ onAnalyze, isLoading }: GitHubAnalyzerProps) {
                   required: "Repository URL is required",
                   validate: validateGitHubUrl,
                 })}
-                type="url"
-                placeholder="https://github.com/owner/repository"
+                type="text"
+                placeholder="https://github.com/owner/repository or /path/to/repo"
                 className={cn(
                   "pr-4 pl-10",
                   errors.repoUrl && "border-red-500 focus-visible:ring-red-500"
@@ -113,7 +115,7 @@ export function GitHubAnalyzer({ onAnalyze, isLoading }: GitHubAnalyzerProps) {
         
         <div className="mt-6 p-4 bg-blue-50 rounded-lg border border-blue-200">
           <p className="text-sm text-blue-700">
-            <span className="font-semibold">Tip:</span> Enter a GitHub repository URL to generate a comprehensive context index including documentation analysis, API patterns, and best practices.
+            <span className="font-semibold">Tip:</span> Enter a repository URL to generate a comprehensive context index including documentation analysis, API patterns, and best practices. Append <code>@v1.2.3</code> or paste a <code>/tree/&lt;ref&gt;</code> URL to document a specific tag, release or commit.
           </p>
         </div>
       </CardContent>
@@ -3,19 +3,24 @@
 import { useState } from "react"
 import ReactMarkdown from "react-markdown"
 import remarkGfm from "remark-gfm"
-import { Copy, Check, Download, FileText } from "lucide-react"
+import { Archive, Copy, Check, Download, FileText } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Skeleton } from "@/components/ui/skeleton"
+import { OUTPUT_FORMATS, renderContextIndex, renderShards, type ContextIndex, type OutputFormat } from "@/src/mastra/renderers"
+import { createZip } from "@/src/mastra/utils/zip"
 
 interface OutputViewerProps {
   content: string | null
   isLoading: boolean
   repoUrl?: string
+  // Structured index behind the markdown, needed for the other download formats
+  index?: ContextIndex | null
 }
 
-export function OutputViewer({ content, isLoading, repoUrl }: OutputViewerProps) {
+export function OutputViewer({ content, isLoading, repoUrl, index }: OutputViewerProps) {
   const [copied, setCopied] = useState(false)
+  const [format, setFormat] = useState<OutputFormat>("markdown")
 
   const handleCopy = async () => {
     if (content) {
@@ -25,18 +30,35 @@ export function OutputViewer({ content, isLoading, repoUrl }: OutputViewerProps)
     }
   }
 
+  const repoName = repoUrl ? repoUrl.split("/").pop() || "repository" : "repository"
+
+  const save = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement("a")
+    a.href = url
+    // Browsers save into one folder, so .cursor/rules/x.mdc becomes x.mdc
+    a.download = fileName.split("/").pop() || fileName
+    document.body.appendChild(a)
+    a.click()
+    document.body.removeChild(a)
+    URL.revokeObjectURL(url)
+  }
+
   const handleDownload = () => {
     if (content) {
-      const blob = new Blob([content], { type: "text/markdown" })
-      const url = URL.createObjectURL(blob)
-      const a = document.createElement("a")
-      const repoName = repoUrl ? repoUrl.split("/").pop() : "repository"
-      a.href = url
-      a.download = `${repoName}-context-index.md`
-      document.body.appendChild(a)
-      a.click()
-      document.body.removeChild(a)
-      URL.revokeObjectURL(url)
+      // Markdown is downloaded as generated; other formats are rendered from the index
+      const output = index && format !== "markdown"
+        ? renderContextIndex(index, format, repoName)
+        : { content, mediaType: "text/markdown", fileName: OUTPUT_FORMATS.markdown.fileName(repoName) }
+      save(new Blob([output.content], { type: output.mediaType }), output.fileName)
+    }
+  }
+
+  // One markdown file per module plus index.md, zipped under a {repo}/ folder
+  const handleShardDownload = () => {
+    if (index) {
+      const archive = createZip(renderShards(index, repoName).files)
+      save(new Blob([archive], { type: "application/zip" }), `${repoName}.zip`)
     }
   }
 
@@ -91,6 +113,20 @@ export function OutputViewer({ content, isLoading, repoUrl }: OutputViewerProps)
                 </>
               )}
             </Button>
+            {index && (
+              <select
+                value={format}
+                onChange={(event) => setFormat(event.target.value as OutputFormat)}
+                aria-label="Download format"
+                className="h-9 rounded-md border border-input bg-background px-2 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+              >
+                {(Object.keys(OUTPUT_FORMATS) as OutputFormat[]).map((value) => (
+                  <option key={value} value={value}>
+                    {OUTPUT_FORMATS[value].label}
+                  </option>
+                ))}
+              </select>
+            )}
             <Button
               variant="outline"
               size="sm"
@@ -100,6 +136,18 @@ export function OutputViewer({ content, isLoading, repoUrl }: OutputViewerProps)
               <Download className="mr-2 h-4 w-4" />
               Download
             </Button>
+            {index && index.apis.length > 0 && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleShardDownload}
+                className="transition-all"
+                title="One file per module plus a table of contents"
+              >
+                <Archive className="mr-2 h-4 w-4" />
+                Shards
+              </Button>
+            )}
           </div>
         </div>
       </CardHeader>
@@ -0,0 +1,138 @@
+/*
+ * Licensed to the Apache Software Foundation (ASF) under one or more
+ * contributor license agreements.  See the NOTICE file distributed with
+ * this work for additional information regarding copyright ownership.
+ * The ASF licenses this file to You under the Apache License, Version 2.0
+ * (the "License"); you may not use this file except in compliance with
+ * the License.  You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ */
+package org.apache.commons.lang3;
+
+import java.util.Iterator;
+
+/**
+ * Operations on {@link java.lang.String} that are
+ * {@code null} safe.
+ */
+public class StringUtils {
+
+    /**
+     * The empty String {@code ""}.
+     */
+    public static final String EMPTY = "";
+
+    /**
+     * Represents a failed index search.
+     */
+    public static final int INDEX_NOT_FOUND = -1;
+
+    private static final int PAD_LIMIT = 8192;
+
+    /**
+     * Checks if a CharSequence is empty ("") or null.
+     *
+     * @param cs  the CharSequence to check, may be null
+     * @return {@code true} if the CharSequence is empty or null
+     */
+    public static boolean isEmpty(final CharSequence cs) {
+        return cs == null || cs.length() == 0;
+    }
+
+    /**
+     * Checks if a CharSequence is empty (""), null or whitespace only.
+     *
+     * @param cs  the CharSequence to check, may be null
+     * @return {@code true} if the CharSequence is null, empty or whitespace only
+     */
+    public static boolean isBlank(final CharSequence cs) {
+        final int strLen = length(cs);
+        if (strLen == 0) {
+            return true;
+        }
+        for (int i = 0; i < strLen; i++) {
+            if (!Character.isWhitespace(cs.charAt(i))) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    /**
+     * Capitalizes a String changing the first character to title case as
+     * per {@link Character#toTitleCase(int)}. No other characters are changed.
+     *
+     * @param str the String to capitalize, may be null
+     * @return the capitalized String, {@code null} if null String input
+     */
+    public static String capitalize(final String str) {
+        if (isEmpty(str)) {
+            return str;
+        }
+        return Character.toTitleCase(str.charAt(0)) + str.substring(1);
+    }
+
+    /**
+     * Abbreviates a String using ellipses.
+     *
+     * @param str  the String to check, may be null
+     * @param maxWidth  maximum length of result String, must be at least 4
+     * @return abbreviated String, {@code null} if null String input
+     */
+    public static String abbreviate(final String str, final int maxWidth) {
+        return abbreviate(str, "...", 0, maxWidth);
+    }
+
+    /**
+     * Abbreviates a String using a given replacement marker.
+     */
+    public static String abbreviate(final String str, final String abbrevMarker, final int offset, final int maxWidth) {
+        if (isEmpty(str) || str.length() <= maxWidth) {
+            return str;
+        }
+        return str.substring(0, maxWidth - abbrevMarker.length()) + abbrevMarker;
+    }
+
+    /**
+     * Joins the elements of the provided {@link Iterator} into
+     * a single String containing the provided elements.
+     *
+     * @param iterator  the {@link Iterator} of values to join together, may be null
+     * @param separator  the separator character to use
+     * @return the joined String, {@code null} if null iterator input
+     */
+    public static String join(final Iterator<?> iterator, final String separator) {
+        final StringBuilder buf = new StringBuilder();
+        while (iterator.hasNext()) {
+            buf.append(iterator.next());
+            if (iterator.hasNext() && separator != null) {
+                buf.append(separator);
+            }
+        }
+        return buf.toString();
+    }
+
+    /**
+     * Gets a CharSequence length or {@code 0} if the CharSequence is
+     * {@code null}.
+     */
+    public static int length(final CharSequence cs) {
+        return cs == null ? 0 : cs.length();
+    }
+
+    private static String padding(final int repeat, final char padChar) {
+        return String.valueOf(padChar).repeat(Math.max(0, repeat));
+    }
+
+    /**
+     * {@link StringUtils} instances should NOT be constructed in
+     * standard programming.
+     *
+     * @deprecated TODO Make private in 4.0.
+     */
+    @Deprecated
+    public StringUtils() {
+        // empty
+    }
+}
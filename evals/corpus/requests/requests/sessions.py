@@ -0,0 +1,111 @@
+"""
+requests.sessions
+~~~~~~~~~~~~~~~~~
+
+This module provides a Session object to manage and persist settings across
+requests (cookies, auth, proxies).
+"""
+from collections import OrderedDict
+
+from .adapters import HTTPAdapter
+from .structures import CaseInsensitiveDict
+
+
+def merge_setting(request_setting, session_setting, dict_class=OrderedDict):
+    """Determines appropriate setting for a given request, taking into account
+    the explicit setting on that request, and the setting in the session. If a
+    setting is a dictionary, they will be merged together using `dict_class`
+    """
+
+    if session_setting is None:
+        return request_setting
+
+    if request_setting is None:
+        return session_setting
+
+    merged_setting = dict_class(to_key_val_list(session_setting))
+    merged_setting.update(to_key_val_list(request_setting))
+    return merged_setting
+
+
+def _merge_hooks(request_hooks, session_hooks, dict_class=OrderedDict):
+    # Internal: hooks are merged like settings, but only when both are set
+    if session_hooks is None or session_hooks.get("response") == []:
+        return request_hooks
+    return merge_setting(request_hooks, session_hooks, dict_class)
+
+
+class Session:
+    """A Requests session.
+
+    Provides cookie persistence, connection-pooling, and configuration.
+    """
+
+    def __init__(self):
+        #: A case-insensitive dictionary of headers to be sent on each
+        #: :class:`Request <Request>` sent from this
+        #: :class:`Session <Session>`.
+        self.headers = CaseInsensitiveDict()
+        self.adapters = OrderedDict()
+        self.mount("https://", HTTPAdapter())
+        self.mount("http://", HTTPAdapter())
+
+    def __enter__(self):
+        return self
+
+    def __exit__(self, *args):
+        self.close()
+
+    def request(self, method, url, params=None, data=None, headers=None, cookies=None, timeout=None, allow_redirects=True, json=None):
+        """Constructs a :class:`Request <Request>`, prepares it and sends it.
+        Returns :class:`Response <Response>` object.
+        """
+        req = Request(method=method.upper(), url=url, headers=headers, data=data or {}, json=json, params=params or {}, cookies=cookies)
+        prep = self.prepare_request(req)
+        return self.send(prep, timeout=timeout, allow_redirects=allow_redirects)
+
+    def get(self, url, **kwargs):
+        r"""Sends a GET request. Returns :class:`Response` object."""
+        kwargs.setdefault("allow_redirects", True)
+        return self.request("GET", url, **kwargs)
+
+    def post(self, url, data=None, json=None, **kwargs):
+        r"""Sends a POST request. Returns :class:`Response` object."""
+        return self.request("POST", url, data=data, json=json, **kwargs)
+
+    def close(self):
+        """Closes all adapters and as such the session"""
+        for v in self.adapters.values():
+            v.close()
+
+    def mount(self, prefix, adapter):
+        """Registers a connection adapter to a prefix.
+
+        Adapters are sorted in descending order by prefix length.
+        """
+        self.adapters[prefix] = adapter
+        keys_to_move = [k for k in self.adapters if len(k) < len(prefix)]
+
+        for key in keys_to_move:
+            self.adapters[key] = self.adapters.pop(key)
+
+    def _get_adapter(self, url):
+        # Internal lookup used by send()
+        for prefix, adapter in self.adapters.items():
+            if url.lower().startswith(prefix.lower()):
+                return adapter
+
+
+def session():
+    """
+    Returns a :class:`Session` for context-management.
+
+    .. deprecated:: 1.0.0
+
+        This method has been deprecated since version 1.0.0 and is only kept for
+        backwards compatibility. New code should use :class:`~requests.sessions.Session`
+        to create a session. This may be removed at a future date.
+
+    :rtype: Session
+    """
+    return Session()
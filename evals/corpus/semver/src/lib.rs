@@ -0,0 +1,108 @@
+//! A parser and evaluator for Cargo's flavor of Semantic Versioning.
+
+use std::fmt;
+
+/// **SemVer version** as defined by <https://semver.org>.
+#[derive(Clone, Eq, PartialEq, Ord, PartialOrd, Hash, Debug)]
+pub struct Version {
+    pub major: u64,
+    pub minor: u64,
+    pub patch: u64,
+}
+
+/// **SemVer version requirement** describing the intersection of some version
+/// comparators, such as `>=1.2.3, <1.8`.
+#[derive(Clone, Eq, PartialEq, Hash, Debug)]
+pub struct VersionReq {
+    pub comparators: Vec<Comparator>,
+}
+
+/// A pair of comparison operator and partial version, such as `>=1.2`. Forms
+/// one piece of a VersionReq.
+#[derive(Clone, Eq, PartialEq, Hash, Debug)]
+pub struct Comparator {
+    pub op: Op,
+    pub major: u64,
+    pub minor: Option<u64>,
+    pub patch: Option<u64>,
+}
+
+/// SemVer comparison operator: `=`, `>`, `>=`, `<`, `<=`, `~`, `^`, `*`.
+#[derive(Copy, Clone, Eq, PartialEq, Hash, Debug)]
+pub enum Op {
+    Exact,
+    Greater,
+    GreaterEq,
+    Less,
+    LessEq,
+    Tilde,
+    Caret,
+    Wildcard,
+}
+
+/// Error parsing a SemVer version or version requirement.
+pub struct Error {
+    kind: ErrorKind,
+}
+
+enum ErrorKind {
+    Empty,
+    UnexpectedEnd,
+}
+
+impl Version {
+    /// Create `Version` with an empty pre-release and build metadata.
+    pub const fn new(major: u64, minor: u64, patch: u64) -> Self {
+        Version { major, minor, patch }
+    }
+
+    /// Create `Version` by parsing from string representation.
+    ///
+    /// # Errors
+    ///
+    /// Possible reasons for the parse to fail include:
+    ///
+    /// - `1.0` &mdash; too few numeric components.
+    pub fn parse(text: &str) -> Result<Self, Error> {
+        parse_version(text)
+    }
+}
+
+impl VersionReq {
+    /// A `VersionReq` with no constraint on the version numbers it matches.
+    pub const STAR: Self = VersionReq { comparators: Vec::new() };
+
+    /// Create `VersionReq` by parsing from string representation.
+    pub fn parse(text: &str) -> Result<Self, Error> {
+        parse_req(text)
+    }
+
+    /// Evaluate whether the given `Version` satisfies the version requirement
+    /// described by `self`.
+    pub fn matches(&self, version: &Version) -> bool {
+        self.comparators.iter().all(|cmp| cmp.matches(version))
+    }
+}
+
+impl Comparator {
+    pub fn parse(text: &str) -> Result<Self, Error> {
+        parse_comparator(text)
+    }
+
+    pub fn matches(&self, ver: &Version) -> bool {
+        cmp(self, ver)
+    }
+}
+
+impl fmt::Display for Version {
+    fn fmt(&self, formatter: &mut fmt::Formatter) -> fmt::Result {
+        write!(formatter, "{}.{}.{}", self.major, self.minor, self.patch)
+    }
+}
+
+fn cmp(cmp: &Comparator, ver: &Version) -> bool {
+    match cmp.op {
+        Op::Exact | Op::Wildcard => ver.major == cmp.major,
+        _ => false,
+    }
+}
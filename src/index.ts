@@ -4,29 +4,398 @@
 import { mastra } from './mastra/index.js';
 import { generateRepoIndex } from './example.js';
 import { logWorkflowStart, logWorkflowEnd, logError, logger } from './mastra/config/logger.js';
+import { indexBaseName, splitRepoRef } from './mastra/sources/index.js';
+import { describeBudgetReport, outputFormatSchema, renderContextIndex, renderWithinBudget, OUTPUT_FORMATS, type OutputFormat, type RenderedOutput } from './mastra/renderers/index.js';
+import { parseTokenBudget } from './mastra/utils/tokens.js';
+import { modelSpecFor, type ModelOverrides } from './mastra/config/models.js';
+import { configureFixtures, fixtureModeSchema } from './mastra/config/fixtures.js';
+import { loadProjectConfigFile, projectTokenBudget, type ProjectConfig } from './mastra/config/project.js';
+import { configureHttpCache, httpCacheStats } from './mastra/utils/http-cache.js';
+import { rateLimitStatus } from './mastra/utils/http-retry.js';
+import { describeSignatureReport, unverifiedModeSchema } from './mastra/validation/index.js';
+import { aggregateResults, compareWithBaseline, describeEvalReport, readBaseline, runEvaluation, toBaseline, writeBaseline, DEFAULT_BASELINE_PATH, DEFAULT_CORPUS_DIR } from './mastra/evals/index.js';
+import { parseArgs } from 'util';
+import * as fs from 'fs';
+import * as path from 'path';
 import * as dotenv from 'dotenv';
 
 // Load environment variables
 dotenv.config();
 
+// Generate one index per direct dependency of a project (--deps mode)
+async function generateDependencies(projectPath: string, options: { outputDir?: string; concurrency?: number; includeDev: boolean; deterministic: boolean; models: ModelOverrides }) {
+  console.log(`📦 Generating context indexes for the dependencies of: ${projectPath}\n`);
+  
+  const startTime = Date.now();
+  logWorkflowStart('generate-dependency-indexes', { projectPath, ...options });
+  
+  try {
+    const workflow = mastra.getWorkflows()['generate-dependency-indexes'];
+    const run = await workflow.createRunAsync();
+    const result = await run.start({
+      inputData: {
+        projectPath,
+        ...options,
+      }
+    });
+    
+    if (result.status !== 'success') {
+      console.error('\n❌ Workflow failed:', result);
+      logError('workflow-execution', new Error('Workflow failed'), result);
+      process.exitCode = 1;
+      return;
+    }
+    
+    logWorkflowEnd('generate-dependency-indexes', result.result, Date.now() - startTime);
+    
+    const { generated, failed, skipped, manifestPath, packages } = result.result;
+    for (const entry of packages) {
+      if (entry.status === 'generated') continue;
+      console.log(`⚠️  ${entry.packageName}@${entry.version || entry.range} ${entry.status}: ${entry.error || 'unknown reason'}`);
+    }
+    console.log(`\n✅ ${generated} generated, ${failed} failed, ${skipped} skipped`);
+    console.log(`💾 Manifest: ${manifestPath}`);
+    
+    if (failed > 0) {
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error('❌ Error:', error);
+    logError('main', error, { projectPath });
+    process.exitCode = 1;
+  }
+}
+
+// Generate an index per package of a monorepo, one file each or combined (--workspaces mode)
+async function generateWorkspaces(repoUrl: string, options: { ref?: string; mode: 'each' | 'combined'; packages?: string[]; outputDir?: string; concurrency?: number; config?: ProjectConfig; tokenBudget?: number; deterministic: boolean; models: ModelOverrides }) {
+  console.log(`🗃️  Generating ${options.mode === 'combined' ? 'a combined context index' : 'one context index per package'} for the workspaces of: ${repoUrl}${options.ref ? ` at ${options.ref}` : ''}\n`);
+  
+  const startTime = Date.now();
+  logWorkflowStart('generate-workspace-indexes', { repoUrl, ...options });
+  
+  try {
+    const workflow = mastra.getWorkflows()['generate-workspace-indexes'];
+    const run = await workflow.createRunAsync();
+    const result = await run.start({
+      inputData: {
+        repoUrl,
+        ...options,
+        deterministic: options.deterministic || undefined,
+      }
+    });
+    
+    if (result.status !== 'success') {
+      console.error('\n❌ Workflow failed:', result);
+      logError('workflow-execution', new Error('Workflow failed'), result);
+      process.exitCode = 1;
+      return;
+    }
+    
+    logWorkflowEnd('generate-workspace-indexes', result.result, Date.now() - startTime);
+    
+    const { generated, failed, manifestPath, combinedPath, packages } = result.result;
+    for (const entry of packages) {
+      if (entry.status === 'generated') continue;
+      console.log(`⚠️  ${entry.name} (${entry.path || '.'}) ${entry.status}: ${entry.error || 'unknown reason'}`);
+    }
+    console.log(`\n✅ ${generated} generated, ${failed} failed`);
+    if (combinedPath) {
+      console.log(`💾 Combined index: ${combinedPath}`);
+    }
+    console.log(`💾 Manifest: ${manifestPath}`);
+    
+    if (failed > 0) {
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error('❌ Error:', error);
+    logError('main', error, { repoUrl });
+    process.exitCode = 1;
+  }
+}
+
+// Diff the API of two refs or two generated indexes (--from/--to mode)
+async function compareVersions(repoUrl: string | undefined, from: string, to: string) {
+  // Existing .md/.json files are indexes, anything else is a ref of the repository
+  const isIndex = (value: string) => /\.(md|json)$/i.test(value) && fs.existsSync(value);
+  const inputData = {
+    repoUrl,
+    fromRef: isIndex(from) ? undefined : from,
+    toRef: isIndex(to) ? undefined : to,
+    fromIndex: isIndex(from) ? from : undefined,
+    toIndex: isIndex(to) ? to : undefined,
+  };
+  
+  console.log(`🔍 Comparing the API of ${repoUrl || 'two indexes'}: ${from} → ${to}\n`);
+  
+  const startTime = Date.now();
+  logWorkflowStart('compare-api-versions', inputData);
+  
+  try {
+    const workflow = mastra.getWorkflows()['compare-api-versions'];
+    const run = await workflow.createRunAsync();
+    const result = await run.start({ inputData });
+    
+    if (result.status !== 'success') {
+      console.error('\n❌ Workflow failed:', result);
+      logError('workflow-execution', new Error('Workflow failed'), result);
+      process.exitCode = 1;
+      return;
+    }
+    
+    logWorkflowEnd('compare-api-versions', result.result.diff.summary, Date.now() - startTime);
+    console.log(result.result.markdown);
+    
+    // One file pair per compared range, next to the context indexes
+    const slug = (value: string) => value.replace(/[^\w.-]+/g, '_');
+    const baseName = `./${slug(result.result.name)}-${slug(result.result.from)}..${slug(result.result.to)}-migration-notes`;
+    await fs.promises.writeFile(`${baseName}.md`, result.result.markdown);
+    await fs.promises.writeFile(`${baseName}.json`, `${JSON.stringify(result.result.diff, null, 2)}\n`);
+    console.log(`\n💾 Saved to: ${baseName}.md and ${baseName}.json`);
+  } catch (error) {
+    console.error('❌ Error:', error);
+    logError('main', error, inputData);
+    process.exitCode = 1;
+  }
+}
+
+// Score extraction, scraping and the no-LLM pipeline over the eval corpus (--eval mode)
+async function evaluate(options: { corpusDir: string; baselinePath: string; updateBaseline: boolean }) {
+  console.log(`🧪 Evaluating API extraction over: ${options.corpusDir}\n`);
+  
+  const startTime = Date.now();
+  logWorkflowStart('eval', options);
+  
+  try {
+    const results = await runEvaluation({ corpusDir: options.corpusDir });
+    const baseline = await readBaseline(options.baselinePath);
+    const comparisons = compareWithBaseline(aggregateResults(results), baseline);
+    logWorkflowEnd('eval', { metrics: comparisons.length }, Date.now() - startTime);
+    
+    for (const result of results.filter(result => result.error)) {
+      console.log(`⚠️  ${result.case} ${result.stage} failed: ${result.error}`);
+    }
+    console.log(describeEvalReport(comparisons));
+    
+    if (options.updateBaseline) {
+      // A case that finds none of its symbols is a bug to fix, not a score to keep
+      const broken = results.filter(result => result.error || (result.score.expected > 0 && result.score.recalled === 0));
+      if (broken.length > 0) {
+        console.log(`\n❌ Baseline not updated; these cases failed or found none of their expected symbols: ${broken.map(result => `${result.case} ${result.stage}`).join(', ')}`);
+        process.exitCode = 1;
+        return;
+      }
+      await writeBaseline(toBaseline(results), options.baselinePath);
+      console.log(`\n💾 Baseline updated: ${options.baselinePath}`);
+      return;
+    }
+    
+    const regressed = comparisons.filter(row => row.regressed);
+    if (!baseline) {
+      console.log(`\nNo baseline at ${options.baselinePath}; run with --update-baseline to record one`);
+    } else if (regressed.length > 0) {
+      console.log(`\n❌ Regressed against the baseline: ${regressed.map(row => `${row.language} ${row.stage}`).join(', ')}`);
+      process.exitCode = 1;
+    } else {
+      console.log('\n✅ No regressions against the baseline');
+    }
+  } catch (error) {
+    console.error('❌ Error:', error);
+    logError('main', error, options);
+    process.exitCode = 1;
+  }
+}
+
 async function main() {
-  // Get repository URL from command line arguments
-  const args = process.argv.slice(2);
-  const repoUrl = args[0];
+  // Get repository URL (or local path) and options from command line arguments
+  const { values, positionals } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      ref: { type: 'string' },
+      deps: { type: 'string' },
+      workspaces: { type: 'string' },
+      packages: { type: 'string' },
+      out: { type: 'string' },
+      concurrency: { type: 'string' },
+      dev: { type: 'boolean', default: false },
+      from: { type: 'string' },
+      to: { type: 'string' },
+      format: { type: 'string' },
+      budget: { type: 'string' },
+      shard: { type: 'boolean', default: false },
+      unverified: { type: 'string' },
+      'no-llm': { type: 'boolean', default: false },
+      model: { type: 'string' },
+      'cheap-model': { type: 'string' },
+      fixtures: { type: 'string' },
+      'fixtures-dir': { type: 'string' },
+      offline: { type: 'boolean', default: false },
+      'no-cache': { type: 'boolean', default: false },
+      'cache-dir': { type: 'string' },
+      eval: { type: 'boolean', default: false },
+      'update-baseline': { type: 'boolean', default: false },
+      corpus: { type: 'string' },
+      baseline: { type: 'string' },
+      config: { type: 'string' },
+    },
+    allowPositionals: true,
+  });
+  
+  // --model gemini:gemini-2.5-pro writes the index, --cheap-model handles retries and --deps batches
+  const models: ModelOverrides = { strong: values.model, cheap: values['cheap-model'] };
+  
+  // --fixtures record saves every model exchange; --fixtures replay answers from them with no network
+  if (values.fixtures || values['fixtures-dir']) {
+    const mode = values.fixtures ? fixtureModeSchema.safeParse(values.fixtures) : undefined;
+    if (mode && !mode.success) {
+      console.log(`Invalid --fixtures value "${values.fixtures}". Use off, record or replay`);
+      process.exit(1);
+    }
+    configureFixtures({ mode: mode?.data, dir: values['fixtures-dir'] });
+  }
+  
+  // --offline reads GitHub, npm and docs sites from the HTTP cache only; --no-cache always fetches
+  if (values.offline && values['no-cache']) {
+    console.log('--offline and --no-cache cannot be combined');
+    process.exit(1);
+  }
+  if (values.offline || values['no-cache'] || values['cache-dir']) {
+    configureHttpCache({ mode: values.offline ? 'offline' : values['no-cache'] ? 'off' : undefined, dir: values['cache-dir'] });
+  }
+  
+  if (values.deps) {
+    await generateDependencies(values.deps, {
+      outputDir: values.out,
+      concurrency: values.concurrency ? Number(values.concurrency) : undefined,
+      includeDev: values.dev ?? false,
+      deterministic: values['no-llm'] ?? false,
+      models,
+    });
+    return;
+  }
+  
+  if (values.eval) {
+    await evaluate({
+      corpusDir: values.corpus || DEFAULT_CORPUS_DIR,
+      baselinePath: values.baseline || DEFAULT_BASELINE_PATH,
+      updateBaseline: values['update-baseline'] ?? false,
+    });
+    return;
+  }
+  
+  if (values.from || values.to) {
+    if (!values.from || !values.to) {
+      console.log('Both --from and --to are required to compare two versions');
+      process.exit(1);
+    }
+    await compareVersions(positionals[0], values.from, values.to);
+    return;
+  }
   
-  if (!repoUrl) {
-    console.log('Usage: npm start <repository-url>');
+  if (!positionals[0]) {
+    console.log('Usage: npm start <repository-url | path | file://url>[@ref] [--ref <branch|tag|sha>] [--format <formats>] [--budget <tokens>] [--shard] [--unverified remove|flag] [--no-llm] [--model <spec>] [--cheap-model <spec>] [--fixtures record|replay] [--fixtures-dir <dir>] [--offline | --no-cache] [--cache-dir <dir>] [--config <file>]');
+    console.log('       npm start --deps <project-dir> [--out <dir>] [--concurrency <n>] [--dev] [--no-llm] [--cheap-model <spec>]');
+    console.log('       npm start <repository> --workspaces each|combined [--packages <names>] [--out <dir>] [--concurrency <n>] [--budget <tokens>] [--no-llm] [--config <file>]');
+    console.log('       npm start [repository] --from <ref | index> --to <ref | index>');
+    console.log('       npm start --eval [--update-baseline] [--corpus <dir>] [--baseline <file>]');
+    console.log(`Formats: ${Object.keys(OUTPUT_FORMATS).join(', ')} (comma-separated, default markdown)`);
+    console.log('Models: <provider>:<model> with provider openai, gemini, vertex or openai-compatible; a bare name is an OpenAI model');
+    console.log('        Defaults come from DOCSGEN_MODEL, DOCSGEN_MODEL_STRONG, DOCSGEN_MODEL_CHEAP and DOCSGEN_MODEL_<AGENT|STEP> (see .env.example)');
+    console.log('Config: docsgen.config.json or docsgen.config.ts at the repository root is read automatically; --config settings win over it, and flags over both');
+    console.log('Cache: HTTP responses are cached under ~/.cache/docsgen/http (DOCSGEN_HTTP_CACHE_DIR); --offline serves only from it');
     console.log('Example: npm start https://github.com/exceljs/exceljs');
+    console.log('Example: npm start https://github.com/lodash/lodash@4.17.21');
+    console.log('Example: npm start https://github.com/lodash/lodash --ref 4.17.21');
+    console.log('Example: npm start https://gitlab.com/gitlab-org/gitlab-ui');
+    console.log('Example: npm start ./vendor/my-lib');
+    console.log('Example: npm start ./node_modules/zod');
+    console.log('Example: npm start ./lodash-4.17.21.tgz');
+    console.log('Example: npm start file:///srv/git/my-lib.git');
+    console.log('Example: npm start https://github.com/colinhacks/zod --format llms-txt,cursor-rules');
+    console.log('Example: npm start https://github.com/lodash/lodash --budget 8k');
+    console.log('Example: npm start ./node_modules/zod --shard');
+    console.log('Example: npm start ./node_modules/zod --no-llm');
+    console.log('Example: npm start https://github.com/colinhacks/zod --model gemini:gemini-2.5-pro --cheap-model openai-compatible:llama3.1');
+    console.log('Example: npm start ./node_modules/zod --fixtures replay --fixtures-dir ./fixtures/llm');
+    console.log('Example: npm start https://github.com/lodash/lodash@4.17.21 --no-llm --offline');
+    console.log('Example: npm start https://github.com/lodash/lodash --config ./lodash.docsgen.config.json');
+    console.log('Example: npm start --deps . --out ./context-indexes --concurrency 3');
+    console.log('Example: npm start https://github.com/vitejs/vite --workspaces each --packages vite,create-vite');
+    console.log('Example: npm start ./my-monorepo --workspaces combined --no-llm');
+    console.log('Example: npm start https://github.com/colinhacks/zod --from v3.23.8 --to v3.24.0');
+    console.log('Example: npm start --from ./zod-v3-context-index.md --to ./zod-v4-context-index.md');
+    console.log('Example: npm run eval -- --update-baseline');
     process.exit(1);
   }
   
+  const { repoUrl, ref } = splitRepoRef(positionals[0], values.ref);
+  
+  // --format json,llms-txt writes one file per format; without it the config's formats, else markdown
+  const formats: OutputFormat[] = [];
+  for (const name of values.format ? values.format.split(',') : []) {
+    const format = outputFormatSchema.safeParse(name.trim());
+    if (!format.success) {
+      console.log(`Unknown format "${name.trim()}". Available: ${Object.keys(OUTPUT_FORMATS).join(', ')}`);
+      process.exit(1);
+    }
+    formats.push(format.data);
+  }
+  
+  // --budget 8k fits every written file into that many tokens
+  const tokenBudget = values.budget ? parseTokenBudget(values.budget) : undefined;
+  if (values.budget && !tokenBudget) {
+    console.log(`Invalid token budget "${values.budget}". Use a number of tokens such as 8000, 8k or 128k`);
+    process.exit(1);
+  }
+  
+  // --unverified flag keeps listed APIs the extractors did not find, marked as unverified
+  const unverifiedApis = unverifiedModeSchema.optional().safeParse(values.unverified);
+  if (!unverifiedApis.success) {
+    console.log(`Invalid --unverified value "${values.unverified}". Use remove or flag`);
+    process.exit(1);
+  }
+  
+  // --config tunes this run like a docsgen.config in the repository, and wins over one
+  let config: ProjectConfig | undefined;
+  if (values.config) {
+    try {
+      config = await loadProjectConfigFile(values.config);
+    } catch (error) {
+      console.log(error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  }
+  
+  // --workspaces each writes an index per publishable package, --workspaces combined one index with a section each
+  if (values.workspaces !== undefined) {
+    if (values.workspaces !== 'each' && values.workspaces !== 'combined') {
+      console.log(`Invalid --workspaces value "${values.workspaces}". Use each or combined`);
+      process.exit(1);
+    }
+    await generateWorkspaces(repoUrl, {
+      ref,
+      mode: values.workspaces,
+      packages: values.packages?.split(',').map(name => name.trim()).filter(Boolean),
+      outputDir: values.out,
+      concurrency: values.concurrency ? Number(values.concurrency) : undefined,
+      config,
+      tokenBudget,
+      deterministic: values['no-llm'] ?? false,
+      models,
+    });
+    return;
+  }
+  
   try {
-    console.log(`🚀 Generating context index for: ${repoUrl}\n`);
+    console.log(`🚀 Generating context index for: ${repoUrl}${ref ? ` at ${ref}` : ''}${values['no-llm'] ? ' (no LLM)' : ''}\n`);
+    if (!values['no-llm']) {
+      console.log(`🧠 Model: ${modelSpecFor({ agent: 'comprehensive-doc-generator', step: 'generate-final-docs', tier: 'strong' }, { strong: models.strong || config?.models?.strong })}`);
+    }
     console.log('📊 Progress will be logged to: logs/workflow.log\n');
     
     // Log workflow start
     const startTime = Date.now();
-    logWorkflowStart('generate-context-index', { repoUrl });
+    logWorkflowStart('generate-context-index', { repoUrl, ref, tokenBudget, deterministic: values['no-llm'] });
     
     // Initialize system components
     console.log('✅ System components loaded successfully:');
@@ -50,6 +419,14 @@ async function main() {
     const result = await run.start({
       inputData: {
         repoUrl,
+        ref,
+        config,
+        // Flags left off defer to the project config
+        tokenBudget,
+        shard: values.shard || undefined,
+        unverifiedApis: unverifiedApis.data,
+        deterministic: values['no-llm'] || undefined,
+        models,
       }
     });
     
@@ -63,25 +440,81 @@ async function main() {
       console.log('\n📝 Generated Context Index:\n');
       console.log(result.result.markdown);
       
-      // Optionally save to file
-      const outputFile = `./${repoUrl.split('/').pop()}-context-index.md`;
-      const fs = await import('fs/promises');
-      await fs.writeFile(outputFile, result.result.markdown);
-      console.log(`\n💾 Saved to: ${outputFile}`);
+      if (result.result.commitSha) {
+        console.log(`\n📌 Pinned to commit ${result.result.commitSha}`);
+      }
+      
+      const cache = httpCacheStats();
+      if (cache.hits + cache.revalidated > 0) {
+        console.log(`\n🗄️  HTTP cache: ${cache.hits} served from cache, ${cache.revalidated} revalidated, ${cache.fetched} fetched`);
+      }
+      
+      for (const [host, limit] of rateLimitStatus()) {
+        console.log(`🔑 ${host}: ${limit.remaining} of ${limit.limit} requests left${limit.resetAt ? ` until ${limit.resetAt.toLocaleTimeString()}` : ''}`);
+      }
+      
+      if (result.result.signatures) {
+        console.log(`\n🔎 API check: ${describeSignatureReport(result.result.signatures)}`);
+        for (const check of result.result.signatures.unverified) {
+          console.log(`   ${result.result.signatures.mode === 'flag' ? 'flagged' : 'removed'} \`${check.signature}\`: ${check.reason}`);
+        }
+      }
+      
+      const validation = result.result.validation;
+      if (validation?.fallback) {
+        console.log(`\n⚠️  The generated index failed validation${validation.retried ? ' after a retry' : ''}; saved the fallback index instead`);
+      } else if (validation && (validation.repaired || validation.retried)) {
+        const fixed = validation.initial.findings.length - validation.final.findings.length;
+        console.log(`\n🩹 Repaired the generated index (${fixed} of ${validation.initial.findings.length} findings fixed${validation.retried ? ', one retry' : ''})`);
+      }
+      
+      // Save one file per format (plus budget appendices), one set per pinned ref
+      const baseName = indexBaseName(repoUrl, ref);
+      const settings = result.result.config?.output;
+      const effectiveBudget = projectTokenBudget(result.result.config);
+      for (const format of formats.length > 0 ? formats : settings?.formats || ['markdown']) {
+        const outputs: Array<Pick<RenderedOutput, 'fileName' | 'content'>> = [];
+        
+        if (format === 'markdown' && settings?.shard) {
+          // {name}/index.md and one file per module, each fitted to the budget on its own
+          outputs.push(...result.result.files);
+          console.log(`\n🗂️  Split into ${result.result.files.length} files under ./${baseName}/`);
+        } else if (format === 'markdown') {
+          // The workflow already fitted the generator's text to the budget
+          outputs.push({ ...renderContextIndex(result.result.index, format, baseName), content: result.result.markdown });
+          outputs.push(...(result.result.appendices || []));
+          if (result.result.budget) {
+            console.log(`\n✂️  ${format}: ${describeBudgetReport(result.result.budget)}`);
+          }
+        } else if (effectiveBudget) {
+          const budgeted = renderWithinBudget(result.result.index, format, effectiveBudget, baseName);
+          outputs.push(budgeted.output, ...budgeted.appendices);
+          console.log(`\n✂️  ${format}: ${describeBudgetReport(budgeted.report)}`);
+        } else {
+          outputs.push(renderContextIndex(result.result.index, format, baseName));
+        }
+        
+        for (const output of outputs) {
+          const outputFile = `./${output.fileName}`;
+          await fs.promises.mkdir(path.dirname(outputFile), { recursive: true });
+          await fs.promises.writeFile(outputFile, output.content);
+          console.log(`💾 Saved to: ${outputFile}`);
+        }
+      }
     } else {
       console.error('\n❌ Workflow failed:', result);
       logError('workflow-execution', new Error('Workflow failed'), result);
     }
     
     console.log('\n💡 To use this system with real data:');
-    console.log('1. Ensure you have set OPENAI_API_KEY environment variable');
+    console.log('1. Ensure you have set OPENAI_API_KEY environment variable (or pass --no-llm)');
     console.log('2. Run: npm start <repository-url>');
     console.log('3. Monitor progress in logs/workflow.log');
     console.log('4. Output will be generated as markdown');
     
   } catch (error) {
     console.error('❌ Error:', error);
-    logError('main', error, { repoUrl });
+    logError('main', error, { repoUrl, ref });
   }
 }
 
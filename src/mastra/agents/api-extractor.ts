@@ -1,16 +1,15 @@
 
 import { Agent } from '@mastra/core';
-import { createGemini25Provider } from '../config/googleProvider';
 import { fetchRepoContent } from '../tools/fetch-repo-content';
 import { parseMarkdown } from '../tools/parse-markdown';
 import { extractCodePatterns } from '../tools/extract-code-patterns';
 import { logAgentActivity } from '../config/logger';
-import { openAIModel } from '../config/openai';
+import { agentModel } from '../config/models';
 
 export const apiExtractor = new Agent({
   id: 'api-extractor',
   name: 'api-extractor',
-  model: openAIModel,
+  model: agentModel('api-extractor'),
   instructions: `
     You are an expert at extracting technical APIs and code patterns from documentation. Your role is to:
     1. Analyze code examples in documentation
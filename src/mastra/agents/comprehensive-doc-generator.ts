@@ -1,5 +1,5 @@
 import { Agent } from '@mastra/core';
-import { openAIModel } from '../config/openai';
+import { agentModel } from '../config/models';
 import { fetchRepoContent } from '../tools/fetch-repo-content';
 import { fetchAllDocs } from '../tools/fetch-all-docs';
 import { extractAllApis } from '../tools/extract-all-apis';
@@ -13,7 +13,7 @@ import { logAgentActivity } from '../config/logger';
 export const comprehensiveDocGenerator = new Agent({
   id: 'comprehensive-doc-generator',
   name: 'comprehensive-doc-generator',
-  model: openAIModel,
+  model: agentModel('comprehensive-doc-generator'),
   instructions: `
     You are an expert technical documentation analyst. Your task is to generate a comprehensive, condensed context index for a GitHub repository that will serve as a complete API reference for code agents.
 
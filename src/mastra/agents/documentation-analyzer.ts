@@ -1,6 +1,6 @@
 
 import { Agent } from '@mastra/core';
-import { openAIModel } from '../config/openai';
+import { agentModel } from '../config/models';
 import { fetchRepoContent } from '../tools/fetch-repo-content';
 import { parseMarkdown } from '../tools/parse-markdown';
 import { logAgentActivity } from '../config/logger';
@@ -8,7 +8,7 @@ import { logAgentActivity } from '../config/logger';
 export const documentationAnalyzer = new Agent({
   id: 'documentation-analyzer',
   name: 'documentation-analyzer',
-  model: openAIModel,
+  model: agentModel('documentation-analyzer'),
   instructions: `
     You are an expert at analyzing technical documentation. Your role is to:
     1. Fetch and parse the main README.md file from a GitHub repository
@@ -1,6 +1,6 @@
 
 import { Agent } from '@mastra/core';
-import { openAIModel } from '../config/openai';
+import { agentModel } from '../config/models';
 import { fetchRepoContent } from '../tools/fetch-repo-content';
 import { parseMarkdown } from '../tools/parse-markdown';
 import { logAgentActivity } from '../config/logger';
@@ -8,7 +8,7 @@ import { logAgentActivity } from '../config/logger';
 export const patternIdentifier = new Agent({
   id: 'pattern-identifier',
   name: 'pattern-identifier',
-  model: openAIModel,
+  model: agentModel('pattern-identifier'),
   instructions: `
     You are an expert at identifying patterns, best practices, and common pitfalls in technical documentation. Your role is to:
     1. Search for sections with headings like "Usage," "Examples," "Best Practices," "Performance," "Gotchas," or "Known Issues"
@@ -0,0 +1,341 @@
+import { z } from 'zod';
+import { apiKindSchema, type ApiEntry, type ApiKind } from './entry';
+
+// Compact reference to an entry; diffs are read by people and agents, not re-parsed
+export const apiRefSchema = z.object({
+  kind: apiKindSchema,
+  qualifiedName: z.string(),
+  signature: z.string(),
+});
+
+export const apiChangeSchema = z.object({
+  qualifiedName: z.string(),
+  kind: apiKindSchema,
+  before: z.string(),
+  after: z.string(),
+  // One line per difference, e.g. "Parameter `options` was removed"
+  details: z.array(z.string()),
+  breaking: z.boolean(),
+});
+
+export const apiRenameSchema = z.object({
+  from: apiRefSchema,
+  to: apiRefSchema,
+});
+
+export const apiDeprecationSchema = apiRefSchema.extend({
+  message: z.string().optional(),
+});
+
+/**
+ * Differences between the API surfaces of two versions. Entries are matched
+ * by qualified name; unmatched entries that only differ in their name are
+ * reported as renames instead of a removal plus an addition.
+ */
+export const apiDiffSchema = z.object({
+  added: z.array(apiRefSchema),
+  removed: z.array(apiRefSchema),
+  renamed: z.array(apiRenameSchema),
+  changed: z.array(apiChangeSchema),
+  deprecated: z.array(apiDeprecationSchema),
+  summary: z.object({
+    added: z.number(),
+    removed: z.number(),
+    renamed: z.number(),
+    changed: z.number(),
+    deprecated: z.number(),
+    breaking: z.number(),
+  }),
+});
+
+export type ApiRef = z.infer<typeof apiRefSchema>;
+export type ApiChange = z.infer<typeof apiChangeSchema>;
+export type ApiRename = z.infer<typeof apiRenameSchema>;
+export type ApiDiff = z.infer<typeof apiDiffSchema>;
+
+// Kinds that may replace each other without the symbol being a different one,
+// e.g. a function that became a const arrow function or a class an interface
+const KIND_FAMILIES: Record<ApiKind, string> = {
+  function: 'value',
+  method: 'value',
+  property: 'value',
+  variable: 'value',
+  decorator: 'value',
+  export: 'value',
+  unknown: 'value',
+  constructor: 'constructor',
+  class: 'type',
+  interface: 'type',
+  type: 'type',
+  enum: 'type',
+  struct: 'type',
+  trait: 'type',
+  template: 'type',
+  namespace: 'namespace',
+  module: 'namespace',
+};
+
+const keyOf = (entry: ApiEntry): string => `${KIND_FAMILIES[entry.kind]}:${entry.qualifiedName}`;
+
+const refOf = (entry: ApiEntry): ApiRef => ({
+  kind: entry.kind,
+  qualifiedName: entry.qualifiedName,
+  signature: entry.signature,
+});
+
+const isDeprecated = (entry: ApiEntry): boolean => entry.tags.includes('deprecated') || entry.deprecated !== undefined;
+
+const groupByKey = (entries: ApiEntry[]): Map<string, ApiEntry[]> => {
+  const groups = new Map<string, ApiEntry[]>();
+  for (const entry of entries) {
+    const key = keyOf(entry);
+    groups.set(key, [...(groups.get(key) || []), entry]);
+  }
+  return groups;
+};
+
+// Signature with the symbol's own name and owner blanked out, to recognise renames.
+// Only the first whole-word occurrence is the declared one; a parameter or type sharing the name stays
+const shapeOf = (entry: ApiEntry): string => {
+  const names = entry.kind === 'constructor' ? [entry.owner || entry.name] : [entry.owner, entry.name];
+  return names.reduce<string>((signature, name) => {
+    if (!name) return signature;
+    const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return signature.replace(new RegExp(`(?<![\\w$])${escaped}(?![\\w$])`), '\u0000');
+  }, entry.signature);
+};
+
+const parameterList = (entry: ApiEntry): string => {
+  return entry.parameters.map(parameter => `${parameter.rest ? '...' : ''}${parameter.type || '?'}${parameter.optional ? '?' : ''}`).join(', ');
+};
+
+// Same kind and owner, and the same shape apart from the name
+const looksRenamed = (before: ApiEntry, after: ApiEntry): boolean => {
+  if (before.kind !== after.kind || before.owner !== after.owner) return false;
+  if (before.kind === 'unknown' || before.kind === 'export') return false;
+  if (shapeOf(before) === shapeOf(after)) return true;
+  return (before.kind === 'function' || before.kind === 'method')
+    && before.parameters.length > 0
+    && parameterList(before) === parameterList(after)
+    && before.returnType === after.returnType;
+};
+
+// Describe how one entry changed between versions and whether callers break
+const compareEntries = (before: ApiEntry, after: ApiEntry): ApiChange => {
+  const details: string[] = [];
+  let breaking = false;
+
+  if (before.kind !== after.kind) {
+    details.push(`Changed from ${before.kind} to ${after.kind}`);
+    // Anything other than a class can no longer be instantiated or extended
+    breaking ||= before.kind === 'class' || KIND_FAMILIES[before.kind] !== 'value';
+  }
+
+  const length = Math.max(before.parameters.length, after.parameters.length);
+  for (let i = 0; i < length; i++) {
+    const old = before.parameters[i];
+    const next = after.parameters[i];
+
+    if (!next) {
+      details.push(`Parameter \`${old.name}\` was removed`);
+      breaking = true;
+    } else if (!old) {
+      details.push(`Parameter \`${next.name}\` was added${next.optional || next.rest ? ' (optional)' : ''}`);
+      breaking ||= !next.optional && !next.rest;
+    } else {
+      if (old.name !== next.name) {
+        details.push(`Parameter \`${old.name}\` was renamed to \`${next.name}\``);
+      }
+      if ((old.type || '') !== (next.type || '')) {
+        details.push(`Parameter \`${next.name}\` type changed from \`${old.type || 'untyped'}\` to \`${next.type || 'untyped'}\``);
+        breaking = true;
+      }
+      if (old.optional && !next.optional) {
+        details.push(`Parameter \`${next.name}\` is now required`);
+        breaking = true;
+      } else if (!old.optional && next.optional) {
+        details.push(`Parameter \`${next.name}\` is now optional`);
+      }
+    }
+  }
+
+  if ((before.returnType || '') !== (after.returnType || '')) {
+    const label = KIND_FAMILIES[after.kind] === 'value' && after.kind !== 'function' && after.kind !== 'method' ? 'Type' : 'Return type';
+    details.push(`${label} changed from \`${before.returnType || 'unknown'}\` to \`${after.returnType || 'unknown'}\``);
+    breaking = true;
+  }
+
+  if (before.typeParameters.join(', ') !== after.typeParameters.join(', ')) {
+    details.push(`Type parameters changed from \`<${before.typeParameters.join(', ')}>\` to \`<${after.typeParameters.join(', ')}>\``);
+    breaking ||= before.typeParameters.length !== after.typeParameters.length;
+  }
+
+  // Type aliases, enums and headers only differ in their printed form
+  if (details.length === 0) {
+    details.push('Declaration changed');
+    breaking = after.kind === 'type' || after.kind === 'enum';
+  }
+
+  return {
+    qualifiedName: after.qualifiedName,
+    kind: after.kind,
+    before: before.signature,
+    after: after.signature,
+    details,
+    breaking,
+  };
+};
+
+// Pair the renamed entries among the removed and added ones; both sides must match uniquely
+const findRenames = (removed: ApiEntry[], added: ApiEntry[]): Array<[ApiEntry, ApiEntry]> => {
+  const pairs: Array<[ApiEntry, ApiEntry]> = [];
+
+  for (const before of removed) {
+    const candidates = added.filter(after => looksRenamed(before, after));
+    if (candidates.length !== 1) continue;
+    if (removed.filter(other => looksRenamed(other, candidates[0])).length !== 1) continue;
+    pairs.push([before, candidates[0]]);
+  }
+
+  // Members follow their renamed owner: Old.member -> New.member
+  const owners = new Map(pairs.map(([before, after]) => [before.qualifiedName, after.qualifiedName]));
+  for (const before of removed) {
+    const owner = before.owner && owners.get(before.owner);
+    if (!owner || pairs.some(([paired]) => paired === before)) continue;
+    const after = added.find(candidate => candidate.owner === owner
+      && candidate.name === before.name
+      && KIND_FAMILIES[candidate.kind] === KIND_FAMILIES[before.kind]
+      && !pairs.some(([, paired]) => paired === candidate));
+    if (after) pairs.push([before, after]);
+  }
+
+  return pairs;
+};
+
+/**
+ * Compare the entries extracted from two versions. Overloads are matched by
+ * exact signature first; the remaining ones are compared in order.
+ */
+export const diffApis = (before: ApiEntry[], after: ApiEntry[]): ApiDiff => {
+  const oldGroups = groupByKey(before);
+  const newGroups = groupByKey(after);
+  const removed: ApiEntry[] = [];
+  const added: ApiEntry[] = [];
+  const changed: ApiChange[] = [];
+  const deprecated: ApiDiff['deprecated'] = [];
+
+  for (const [key, oldEntries] of oldGroups) {
+    const newEntries = newGroups.get(key);
+    if (!newEntries) {
+      removed.push(...oldEntries);
+      continue;
+    }
+
+    if (!oldEntries.some(isDeprecated)) {
+      const entry = newEntries.find(isDeprecated);
+      if (entry) deprecated.push({ ...refOf(entry), message: entry.deprecated || undefined });
+    }
+
+    const oldSignatures = new Set(oldEntries.map(entry => entry.signature));
+    const newSignatures = new Set(newEntries.map(entry => entry.signature));
+    const oldRest = oldEntries.filter(entry => !newSignatures.has(entry.signature));
+    const newRest = newEntries.filter(entry => !oldSignatures.has(entry.signature));
+
+    const paired = Math.min(oldRest.length, newRest.length);
+    for (let i = 0; i < paired; i++) {
+      changed.push(compareEntries(oldRest[i], newRest[i]));
+    }
+    // Overloads that were dropped or introduced
+    removed.push(...oldRest.slice(paired));
+    added.push(...newRest.slice(paired));
+  }
+
+  for (const [key, newEntries] of newGroups) {
+    if (!oldGroups.has(key)) added.push(...newEntries);
+  }
+
+  const renames = findRenames(removed, added);
+  const renamedBefore = new Set(renames.map(([entry]) => entry));
+  const renamedAfter = new Set(renames.map(([, entry]) => entry));
+
+  for (const [old, next] of renames) {
+    // A renamed symbol may have changed its signature as well
+    if (shapeOf(old) !== shapeOf(next)) {
+      changed.push(compareEntries(old, next));
+    }
+    if (isDeprecated(next) && !isDeprecated(old)) {
+      deprecated.push({ ...refOf(next), message: next.deprecated || undefined });
+    }
+  }
+
+  const renamed = renames.map(([old, next]) => ({ from: refOf(old), to: refOf(next) }));
+  const stillRemoved = removed.filter(entry => !renamedBefore.has(entry)).map(refOf);
+  const stillAdded = added.filter(entry => !renamedAfter.has(entry)).map(refOf);
+
+  return {
+    added: stillAdded,
+    removed: stillRemoved,
+    renamed,
+    changed,
+    deprecated,
+    summary: {
+      added: stillAdded.length,
+      removed: stillRemoved.length,
+      renamed: renamed.length,
+      changed: changed.length,
+      deprecated: deprecated.length,
+      // Removals and renames break every caller of the old name
+      breaking: stillRemoved.length + renamed.length + changed.filter(change => change.breaking).length,
+    },
+  };
+};
+
+/**
+ * Render a diff as a "Migration notes" markdown section: breaking changes
+ * first, then deprecations, then everything that can be adopted at leisure.
+ */
+export const renderMigrationNotes = (diff: ApiDiff, versions: { name: string; from: string; to: string }): string => {
+  const { summary } = diff;
+  let markdown = `## Migration notes: ${versions.name} ${versions.from} → ${versions.to}\n\n`;
+
+  markdown += `> ${summary.added} added, ${summary.removed} removed, ${summary.renamed} renamed, `
+    + `${summary.changed} changed (${summary.breaking} breaking), ${summary.deprecated} newly deprecated\n\n`;
+
+  if (summary.added + summary.removed + summary.renamed + summary.changed + summary.deprecated === 0) {
+    return `${markdown}No changes to the public API were found.\n`;
+  }
+
+  const breakingChanges = diff.changed.filter(change => change.breaking);
+  const otherChanges = diff.changed.filter(change => !change.breaking);
+  const changeLines = (changes: ApiChange[]): string => changes
+    .map(change => `* \`${change.qualifiedName}\`\n${change.details.map(detail => `  * ${detail}\n`).join('')}`
+      + `  * Before: \`${change.before}\`\n  * After: \`${change.after}\`\n`)
+    .join('');
+
+  if (summary.breaking > 0) {
+    markdown += `### Breaking Changes\n\n`;
+    if (diff.removed.length > 0) {
+      markdown += `#### Removed\n\n${diff.removed.map(ref => `* \`${ref.signature}\`\n`).join('')}\n`;
+    }
+    if (diff.renamed.length > 0) {
+      markdown += `#### Renamed\n\n${diff.renamed.map(({ from, to }) => `* \`${from.qualifiedName}\` → \`${to.qualifiedName}\` - \`${to.signature}\`\n`).join('')}\n`;
+    }
+    if (breakingChanges.length > 0) {
+      markdown += `#### Changed\n\n${changeLines(breakingChanges)}\n`;
+    }
+  }
+
+  if (diff.deprecated.length > 0) {
+    markdown += `### Deprecated\n\n${diff.deprecated.map(ref => `* \`${ref.qualifiedName}\`${ref.message ? ` - ${ref.message}` : ''}\n`).join('')}\n`;
+  }
+
+  if (diff.added.length > 0) {
+    markdown += `### Added\n\n${diff.added.map(ref => `* \`${ref.signature}\`\n`).join('')}\n`;
+  }
+
+  if (otherChanges.length > 0) {
+    markdown += `### Other Changes\n\n${changeLines(otherChanges)}\n`;
+  }
+
+  return markdown.trimEnd() + '\n';
+};
@@ -0,0 +1,92 @@
+import { z } from 'zod';
+
+// What kind of symbol an entry describes
+export const apiKindSchema = z.enum([
+  'function',
+  'method',
+  'constructor',
+  'property',
+  'class',
+  'interface',
+  'type',
+  'enum',
+  'variable',
+  'namespace',
+  'module',
+  'struct',
+  'trait',
+  'decorator',
+  'template',
+  'export',
+  'unknown',
+]);
+
+// Which extractor produced an entry
+export const apiOriginSchema = z.enum([
+  // TypeScript compiler walk of .d.ts/.ts files
+  'typescript',
+  // Regex extraction from source files of other languages
+  'source',
+  // Code blocks, lists, tables and headings in markdown docs
+  'docs',
+  // package.json entry points
+  'manifest',
+  // Package registry metadata (npm, PyPI, crates.io, ...)
+  'registry',
+  // Scraped documentation websites
+  'scrape',
+]);
+
+export const apiParameterSchema = z.object({
+  name: z.string(),
+  type: z.string().optional(),
+  optional: z.boolean(),
+  default: z.string().optional(),
+  rest: z.boolean().optional(),
+  doc: z.string().optional(),
+});
+
+// File (or page URL) an entry was read from
+export const apiLocationSchema = z.object({
+  path: z.string(),
+  line: z.number().optional(),
+});
+
+/**
+ * One public API symbol. `signature` is the printed form used in indexes;
+ * the other fields carry the same information in structured form so that
+ * deduplication, grouping, diffing and renderers never re-parse it.
+ */
+export const apiEntrySchema = z.object({
+  kind: apiKindSchema,
+  name: z.string(),
+  // Name including its owner, e.g. Router.use or z.object
+  qualifiedName: z.string(),
+  signature: z.string(),
+  parameters: z.array(apiParameterSchema),
+  // Return type of callables; the value type of variables and properties
+  returnType: z.string().optional(),
+  typeParameters: z.array(z.string()),
+  // Class, interface or namespace the symbol belongs to
+  owner: z.string().optional(),
+  // Module specifier consumers import the symbol from
+  importPath: z.string().optional(),
+  location: apiLocationSchema.optional(),
+  // Doc comment text without tags; its first paragraph is the summary
+  doc: z.string().optional(),
+  returnDoc: z.string().optional(),
+  examples: z.array(z.string()),
+  // Exceptions, errors and panics, each "Type: when"
+  throws: z.array(z.string()),
+  // Deprecation notice; entries with one are also tagged "deprecated"
+  deprecated: z.string().optional(),
+  // Modifiers and markers such as static, readonly, abstract, deprecated
+  tags: z.array(z.string()),
+  origin: apiOriginSchema,
+});
+
+export type ApiKind = z.infer<typeof apiKindSchema>;
+export type ApiOrigin = z.infer<typeof apiOriginSchema>;
+export type ApiParameter = z.infer<typeof apiParameterSchema>;
+export type ApiLocation = z.infer<typeof apiLocationSchema>;
+export type ApiEntry = z.infer<typeof apiEntrySchema>;
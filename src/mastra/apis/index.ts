@@ -0,0 +1,355 @@
+import { apiEntrySchema, type ApiEntry, type ApiKind, type ApiParameter } from './entry';
+
+export * from './entry';
+export * from './diff';
+
+// Fields every extractor knows; the rest default to empty
+export type ApiEntryInit = Pick<ApiEntry, 'kind' | 'name' | 'signature' | 'origin'> & Partial<ApiEntry>;
+
+const KIND_LABELS: Record<ApiKind, string> = {
+  function: 'Function',
+  method: 'Method',
+  constructor: 'Constructor',
+  property: 'Property',
+  class: 'Class',
+  interface: 'Interface',
+  type: 'Type alias',
+  enum: 'Enum',
+  variable: 'Value',
+  namespace: 'Namespace',
+  module: 'Module',
+  struct: 'Struct',
+  trait: 'Trait',
+  decorator: 'Decorator',
+  template: 'Template',
+  export: 'Exported entity',
+  unknown: 'API',
+};
+
+export const createApiEntry = (init: ApiEntryInit): ApiEntry => ({
+  ...init,
+  qualifiedName: init.qualifiedName || (init.owner ? `${init.owner}.${init.name}` : init.name),
+  parameters: init.parameters || [],
+  typeParameters: init.typeParameters || [],
+  examples: init.examples || [],
+  throws: init.throws || [],
+  tags: init.tags || [],
+});
+
+// Split on a separator outside brackets, generics and string literals
+export const splitTopLevel = (text: string, separator = ','): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote = '';
+  let start = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\\') i++;
+      else if (char === quote) quote = '';
+    } else if (char === '"' || char === "'" || char === '`') {
+      quote = char;
+    } else if ('([{<'.includes(char)) {
+      depth++;
+    } else if (')]}'.includes(char) || (char === '>' && text[i - 1] !== '=')) {
+      depth = Math.max(0, depth - 1);
+    } else if (depth === 0 && text.startsWith(separator, i)) {
+      parts.push(text.substring(start, i));
+      start = i + separator.length;
+    }
+  }
+  parts.push(text.substring(start));
+
+  return parts.map(part => part.trim()).filter(Boolean);
+};
+
+// Index of a default-value "=" at the top level (not => or ==)
+const defaultIndex = (text: string): number => {
+  let depth = 0;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if ('([{<'.includes(char)) depth++;
+    else if (')]}'.includes(char) || (char === '>' && text[i - 1] !== '=')) depth = Math.max(0, depth - 1);
+    else if (depth === 0 && char === '=' && !'=>'.includes(text[i + 1] || '') && !'=!<>'.includes(text[i - 1] || '')) return i;
+  }
+  return -1;
+};
+
+/**
+ * Parse a parameter list as written in a signature ("a: string, b = 1,
+ * ...rest: T[]"). TypeScript, Python and Rust annotations are understood.
+ * Languages that write "Type name" (Java, C#) or "name Type" (Go) say so
+ * with `order`; anything else keeps the whole parameter text as its name.
+ */
+export const parseParameters = (text: string, order?: 'type-first' | 'name-first'): ApiParameter[] => {
+  return splitTopLevel(text).map(part => {
+    const equals = defaultIndex(part);
+    const declaration = equals === -1 ? part : part.substring(0, equals).trim();
+    const defaultValue = equals === -1 ? undefined : part.substring(equals + 1).trim();
+    const optional = defaultValue !== undefined;
+
+    const match = declaration.match(/^(\.\.\.|\*{1,2})?\s*([A-Za-z_$][\w$]*)\s*(\?)?\s*(?::\s*([\s\S]+))?$/);
+    if (match) {
+      const [, rest, name, question, type] = match;
+      return {
+        name,
+        type: type?.trim(),
+        optional: Boolean(question) || optional,
+        default: defaultValue,
+        rest: rest ? true : undefined,
+      };
+    }
+
+    const typed = order === 'type-first'
+      ? declaration.match(/^([\s\S]+?)\s+(?:\.\.\.\s*)?([A-Za-z_$][\w$]*)$/)
+      : order === 'name-first' ? declaration.match(/^([A-Za-z_$][\w$]*)\s+([\s\S]+)$/) : null;
+    if (typed) {
+      const [name, type] = order === 'type-first' ? [typed[2], typed[1]] : [typed[1], typed[2]];
+      return { name, type: type.trim(), optional, default: defaultValue, rest: /\.\.\./.test(declaration) ? true : undefined };
+    }
+
+    return { name: declaration, optional, default: defaultValue };
+  });
+};
+
+// One-line description: the doc summary, or a fallback derived from the kind
+export const describeApi = (entry: ApiEntry): string => {
+  const summary = entry.doc?.split(/\n\s*\n/)[0].replace(/\s+/g, ' ').trim();
+  if (summary) return summary;
+
+  if ((entry.kind === 'function' || entry.kind === 'method') && entry.returnType) {
+    return `Returns ${entry.returnType}`;
+  }
+  if (entry.kind === 'constructor' && entry.owner) {
+    return `Creates a ${entry.owner}`;
+  }
+  if (entry.kind === 'property' && entry.owner) {
+    return `Property of ${entry.owner}`;
+  }
+  if (entry.kind === 'variable' && entry.returnType) {
+    return `Value of type ${entry.returnType}`;
+  }
+  return KIND_LABELS[entry.kind];
+};
+
+// Drop repeated signatures, keeping the first entry but filling in missing docs
+export const dedupeApiEntries = (entries: ApiEntry[]): ApiEntry[] => {
+  const bySignature = new Map<string, ApiEntry>();
+
+  for (const entry of entries) {
+    const existing = bySignature.get(entry.signature);
+    if (!existing) {
+      bySignature.set(entry.signature, entry);
+    } else if (!existing.doc && entry.doc) {
+      bySignature.set(entry.signature, { ...existing, doc: entry.doc });
+    }
+  }
+
+  return [...bySignature.values()];
+};
+
+// Declaration keywords an index signature may start with
+const DECLARATION_KINDS: Record<string, ApiKind> = {
+  class: 'class',
+  interface: 'interface',
+  type: 'type',
+  enum: 'enum',
+  namespace: 'namespace',
+  module: 'module',
+  struct: 'struct',
+  trait: 'trait',
+  template: 'template',
+  const: 'variable',
+  let: 'variable',
+  var: 'variable',
+};
+
+const MODIFIERS = ['static', 'abstract', 'readonly', 'async', 'protected', 'public'];
+
+// Owner and name of a dotted path (Owner.name, mod::name, Class#method)
+const splitPath = (path: string): { name: string; owner?: string } => {
+  const segments = path.split(/\.|::|#/);
+  const name = segments.pop() || path;
+  return { name, owner: segments.length > 0 ? segments.join('.') : undefined };
+};
+
+// "<T, U extends X<T>>" at the start of text, with its length
+const leadingTypeParameters = (text: string): { typeParameters: string[]; length: number } => {
+  if (!text.startsWith('<')) return { typeParameters: [], length: 0 };
+  let depth = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '<') depth++;
+    else if (text[i] === '>' && text[i - 1] !== '=' && --depth === 0) {
+      return { typeParameters: splitTopLevel(text.substring(1, i)), length: i + 1 };
+    }
+  }
+  return { typeParameters: [], length: 0 };
+};
+
+/**
+ * Build an entry from a signature that only exists as text (docs, registry
+ * pages, scraped sites, previously generated indexes). Callables such as
+ * "Owner.name<T>(params): Return", declarations such as "class Name" or
+ * "const name: T" and properties such as "Owner.name: T" are split into
+ * their parts; anything else is kept as an entry of unknown kind.
+ */
+export const apiEntryFromSignature = (
+  signature: string,
+  origin: ApiEntry['origin'],
+  extra: Partial<ApiEntry> = {}
+): ApiEntry => {
+  const trimmed = signature.trim();
+  const tags: string[] = [];
+  let rest = trimmed;
+
+  for (let modifier = rest.match(/^(\w+)\s+/); modifier && MODIFIERS.includes(modifier[1]); modifier = rest.match(/^(\w+)\s+/)) {
+    tags.push(modifier[1]);
+    rest = rest.substring(modifier[0].length);
+  }
+
+  const declaration = rest.match(/^(\w+)\s+([A-Za-z_$][\w$]*(?:(?:\.|::)[A-Za-z_$][\w$]*)*)([\s\S]*)$/);
+  if (declaration && DECLARATION_KINDS[declaration[1]]) {
+    const [, keyword, path, remainder] = declaration;
+    const kind = DECLARATION_KINDS[keyword];
+    const { typeParameters, length } = leadingTypeParameters(remainder.trim());
+    const valueType = kind === 'variable' ? remainder.match(/^\s*:\s*([\s\S]+)$/)?.[1].trim() : undefined;
+
+    return createApiEntry({
+      kind,
+      ...splitPath(path),
+      signature: trimmed,
+      returnType: valueType,
+      typeParameters: length > 0 ? typeParameters : [],
+      tags: keyword === 'const' ? [...tags, 'readonly'] : tags,
+      origin,
+      ...extra,
+    });
+  }
+
+  const callable = rest.replace(/^(?:function|def|fn|func)\s+/, '')
+    .match(/^(new\s+)?([A-Za-z_$][\w$]*(?:(?:\.|::|#)[A-Za-z_$][\w$]*)*)(\?)?\s*(?:<(.*?)>)?\s*\(([\s\S]*)\)\s*(?:(?::|->|=>)\s*(.+))?$/);
+  if (callable) {
+    const [, isConstructor, path, optional, typeParameters, parameters, returnType] = callable;
+    const { name, owner } = splitPath(path);
+
+    return createApiEntry({
+      kind: isConstructor ? 'constructor' : owner ? 'method' : 'function',
+      name: isConstructor ? 'constructor' : name,
+      owner: isConstructor ? path : owner,
+      signature: trimmed,
+      parameters: parseParameters(parameters),
+      returnType: returnType?.trim(),
+      typeParameters: typeParameters ? splitTopLevel(typeParameters) : [],
+      tags: optional ? [...tags, 'optional'] : tags,
+      origin,
+      ...extra,
+    });
+  }
+
+  // Owner.name: Type
+  const property = rest.match(/^([A-Za-z_$][\w$]*(?:(?:\.|::)[A-Za-z_$][\w$]*)+)(\?)?\s*:\s*([\s\S]+)$/);
+  if (property) {
+    const [, path, optional, type] = property;
+    return createApiEntry({
+      kind: 'property',
+      ...splitPath(path),
+      signature: trimmed,
+      returnType: type.trim(),
+      tags: optional ? [...tags, 'optional'] : tags,
+      origin,
+      ...extra,
+    });
+  }
+
+  return createApiEntry({ kind: 'unknown', name: trimmed, signature: trimmed, origin, ...extra });
+};
+
+// How much a consumer needs each kind of entry, for ranking what to keep
+const KIND_WEIGHTS: Record<ApiKind, number> = {
+  function: 6,
+  class: 6,
+  namespace: 5,
+  module: 5,
+  struct: 5,
+  export: 5,
+  method: 4,
+  constructor: 4,
+  interface: 4,
+  trait: 4,
+  type: 3,
+  enum: 3,
+  variable: 3,
+  decorator: 3,
+  template: 3,
+  property: 2,
+  unknown: 1,
+};
+
+/**
+ * Rough importance of an entry: top-level, documented callables and types
+ * rank above members, properties, internals and deprecated symbols.
+ */
+export const apiImportance = (entry: ApiEntry): number => {
+  let score = KIND_WEIGHTS[entry.kind];
+  if (!entry.owner) score += 3;
+  if (entry.doc) score += 2;
+  if (entry.examples.length > 0) score += 1;
+  if (entry.deprecated !== undefined) score -= 4;
+  if (entry.name.startsWith('_') || entry.tags.includes('protected')) score -= 3;
+  return score;
+};
+
+// Overloads folded into an entry by collapseOverloads
+export const overloadCount = (entry: ApiEntry): number => {
+  const tag = entry.tags.find(tag => tag.startsWith('overloads:'));
+  return tag ? Number(tag.substring('overloads:'.length)) : 0;
+};
+
+// Keep the first signature of each overloaded symbol, tagged "overloads:<extra count>"
+export const collapseOverloads = (entries: ApiEntry[]): ApiEntry[] => {
+  const groups = new Map<string, ApiEntry[]>();
+  for (const entry of entries) {
+    const key = `${entry.kind}:${entry.qualifiedName}`;
+    groups.set(key, [...(groups.get(key) || []), entry]);
+  }
+
+  return [...groups.values()].map(([first, ...rest]) => {
+    if (rest.length === 0) return first;
+    const doc = first.doc || rest.find(entry => entry.doc)?.doc;
+    return { ...first, doc, tags: [...first.tags, `overloads:${rest.length}`] };
+  });
+};
+
+/**
+ * Read the API entries back out of a previously generated index: JSON
+ * output (an array of entries or an object with an `apis` array) or the
+ * markdown API lists, "* **`signature`** - description".
+ */
+export const parseApiIndex = (content: string): ApiEntry[] => {
+  const trimmed = content.trim();
+
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    const parsed = JSON.parse(trimmed);
+    const items: unknown[] = Array.isArray(parsed) ? parsed : Array.isArray(parsed?.apis) ? parsed.apis : [];
+    return items.flatMap(item => {
+      const entry = apiEntrySchema.safeParse(item);
+      if (entry.success) return [entry.data];
+      const signature = (item as { signature?: unknown })?.signature;
+      return typeof signature === 'string' ? [apiEntryFromSignature(signature, 'docs')] : [];
+    });
+  }
+
+  const entries: ApiEntry[] = [];
+  for (const line of content.split('\n')) {
+    const match = line.match(/^\s*[*-]\s+(?:\*\*)?`([^`]+)`(?:\*\*)?\s*(?:[-–—:]\s*(.*))?$/);
+    if (!match) continue;
+
+    const description = match[2]?.trim();
+    const deprecated = description && /\bdeprecated\b/i.test(description) ? description : undefined;
+    const entry = apiEntryFromSignature(match[1], 'docs', { doc: description || undefined, deprecated });
+    entries.push(deprecated ? { ...entry, tags: [...entry.tags, 'deprecated'] } : entry);
+  }
+
+  return dedupeApiEntries(entries);
+};
@@ -0,0 +1,170 @@
+import { createHash } from 'node:crypto';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { wrapLanguageModel, type LanguageModelV1, type LanguageModelV1CallOptions, type LanguageModelV1Middleware, type LanguageModelV1StreamPart } from 'ai';
+import * as dotenv from 'dotenv';
+import { z } from 'zod';
+
+// Load environment variables
+dotenv.config();
+
+// off: call the model; record: call it and save each exchange; replay: answer from saved exchanges only
+export const fixtureModeSchema = z.enum(['off', 'record', 'replay']);
+
+export type FixtureMode = z.infer<typeof fixtureModeSchema>;
+
+const DEFAULT_FIXTURE_DIR = 'fixtures/llm';
+
+// Set from the CLI; ahead of DOCSGEN_LLM_FIXTURES and DOCSGEN_LLM_FIXTURES_DIR
+let configured: { mode?: FixtureMode; dir?: string } = {};
+
+export const configureFixtures = (settings: { mode?: FixtureMode; dir?: string }) => {
+  configured = { ...settings };
+};
+
+export const fixtureSettings = (): { mode: FixtureMode; dir: string } => {
+  const fromEnv = fixtureModeSchema.safeParse(process.env.DOCSGEN_LLM_FIXTURES?.trim() || 'off');
+  if (!configured.mode && !fromEnv.success) {
+    throw new Error(`Invalid DOCSGEN_LLM_FIXTURES value "${process.env.DOCSGEN_LLM_FIXTURES}". Use off, record or replay`);
+  }
+  return {
+    mode: configured.mode || (fromEnv.success ? fromEnv.data : 'off'),
+    dir: configured.dir || process.env.DOCSGEN_LLM_FIXTURES_DIR || DEFAULT_FIXTURE_DIR,
+  };
+};
+
+// Thrown on a replay with no recorded exchange, so a changed prompt never passes silently
+export class FixtureMissError extends Error {
+  constructor(readonly hash: string, readonly file: string, readonly modelId: string) {
+    super(`No recorded response for ${modelId} request ${hash} (expected ${file}). Record it with DOCSGEN_LLM_FIXTURES=record or --fixtures record`);
+    this.name = 'FixtureMissError';
+  }
+}
+
+// Agent frameworks wrap errors, so the miss may sit anywhere in the cause chain
+export const isFixtureMiss = (error: unknown): boolean => {
+  for (let current = error; current; current = (current as { cause?: unknown }).cause) {
+    if (current instanceof FixtureMissError) return true;
+  }
+  return false;
+};
+
+// JSON with sorted keys, so equal requests hash equally whatever order they were built in
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value instanceof Uint8Array) return JSON.stringify(Buffer.from(value).toString('base64'));
+  if (value instanceof URL) return JSON.stringify(value.href);
+  if (value && typeof value === 'object') {
+    return `{${Object.entries(value)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+};
+
+// Everything that shapes the answer; abort signals and transport headers do not
+const requestKey = (type: 'generate' | 'stream', model: LanguageModelV1, params: LanguageModelV1CallOptions) => {
+  const { abortSignal: _abortSignal, headers: _headers, ...request } = params;
+  return { type, provider: model.provider, modelId: model.modelId, request };
+};
+
+// Dates survive the round trip as { "$date": "..." }
+const serialize = (value: unknown): string => JSON.stringify(value, function (this: Record<string, unknown>, key, entry) {
+  const raw = this[key];
+  return raw instanceof Date ? { $date: raw.toISOString() } : entry;
+}, 2);
+const deserialize = <T>(text: string): T => JSON.parse(text, (_key, entry) => (
+  entry && typeof entry === 'object' && typeof entry.$date === 'string' && Object.keys(entry).length === 1 ? new Date(entry.$date) : entry
+));
+
+interface Fixture<T> {
+  hash: string;
+  type: 'generate' | 'stream';
+  provider: string;
+  modelId: string;
+  request: unknown;
+  response: T;
+}
+
+const fixtureFile = (dir: string, hash: string) => path.join(dir, `${hash}.json`);
+
+const fixtureFor = (type: 'generate' | 'stream', model: LanguageModelV1, params: LanguageModelV1CallOptions) => {
+  const key = requestKey(type, model, params);
+  const hash = createHash('sha256').update(stableStringify(key)).digest('hex').substring(0, 16);
+  const { dir } = fixtureSettings();
+  return { key, hash, file: fixtureFile(dir, hash) };
+};
+
+const readFixture = async <T>(type: 'generate' | 'stream', model: LanguageModelV1, params: LanguageModelV1CallOptions): Promise<T> => {
+  const { hash, file } = fixtureFor(type, model, params);
+  const text = await fs.promises.readFile(file, 'utf-8').catch(() => undefined);
+  if (text === undefined) {
+    throw new FixtureMissError(hash, file, model.modelId);
+  }
+  return deserialize<Fixture<T>>(text).response;
+};
+
+const writeFixture = async <T>(type: 'generate' | 'stream', model: LanguageModelV1, params: LanguageModelV1CallOptions, response: T) => {
+  const { key, hash, file } = fixtureFor(type, model, params);
+  const fixture: Fixture<T> = { hash, ...key, response };
+  await fs.promises.mkdir(path.dirname(file), { recursive: true });
+  await fs.promises.writeFile(file, `${serialize(fixture)}\n`);
+};
+
+// Recorded result of a generate call; the raw HTTP response is dropped as it holds headers and ids only
+type RecordedGenerate = Omit<Awaited<ReturnType<LanguageModelV1['doGenerate']>>, 'rawResponse' | 'request'>;
+
+const fixtureMiddleware: LanguageModelV1Middleware = {
+  wrapGenerate: async ({ doGenerate, params, model }) => {
+    const { mode } = fixtureSettings();
+    if (mode === 'replay') {
+      return readFixture<RecordedGenerate>('generate', model, params);
+    }
+    const result = await doGenerate();
+    if (mode === 'record') {
+      const { rawResponse: _rawResponse, request: _request, ...recorded } = result;
+      await writeFixture<RecordedGenerate>('generate', model, params, recorded);
+    }
+    return result;
+  },
+  wrapStream: async ({ doStream, params, model }) => {
+    const { mode } = fixtureSettings();
+    if (mode === 'replay') {
+      const recorded = await readFixture<{ parts: LanguageModelV1StreamPart[]; rawCall: Awaited<ReturnType<LanguageModelV1['doStream']>>['rawCall'] }>('stream', model, params);
+      const stream = new ReadableStream<LanguageModelV1StreamPart>({
+        start(controller) {
+          recorded.parts.forEach(part => controller.enqueue(part));
+          controller.close();
+        },
+      });
+      return { stream, rawCall: recorded.rawCall };
+    }
+    const result = await doStream();
+    if (mode !== 'record') return result;
+
+    // Passed through unchanged; saved once the stream ends
+    const parts: LanguageModelV1StreamPart[] = [];
+    const stream = result.stream.pipeThrough(new TransformStream<LanguageModelV1StreamPart, LanguageModelV1StreamPart>({
+      transform(part, controller) {
+        parts.push(part);
+        controller.enqueue(part);
+      },
+      async flush() {
+        await writeFixture('stream', model, params, { parts, rawCall: result.rawCall });
+      },
+    }));
+    return { ...result, stream };
+  },
+};
+
+/**
+ * Record or replay a model's exchanges as JSON fixtures, one file per
+ * request hash under DOCSGEN_LLM_FIXTURES_DIR (fixtures/llm by default).
+ * The hash covers the provider, model id, prompt and call settings, so
+ * any prompt change misses on replay instead of reusing an old answer.
+ */
+export const withFixtures = (model: LanguageModelV1): LanguageModelV1 => {
+  return wrapLanguageModel({ model, middleware: fixtureMiddleware });
+};
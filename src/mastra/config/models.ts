@@ -0,0 +1,143 @@
+import { createOpenAI } from '@ai-sdk/openai';
+import type { Agent } from '@mastra/core';
+import type { LanguageModel } from '@mastra/core/llm';
+import { RuntimeContext } from '@mastra/core/runtime-context';
+import * as dotenv from 'dotenv';
+import { z } from 'zod';
+import { fixtureSettings, withFixtures } from './fixtures';
+import { openAIConfig, openAIModelFor } from './openai';
+
+// Load environment variables
+dotenv.config();
+
+export const modelProviderSchema = z.enum(['openai', 'gemini', 'vertex', 'openai-compatible']);
+
+// Strong models write the overview; cheap ones handle bulk work (retries, dependency batches)
+export const modelTierSchema = z.enum(['strong', 'cheap']);
+
+// Per-run choice of model for each tier, as "provider:model" or a bare OpenAI model
+export const modelOverridesSchema = z.object({
+  strong: z.string().optional(),
+  cheap: z.string().optional(),
+});
+
+export type ModelProvider = z.infer<typeof modelProviderSchema>;
+export type ModelTier = z.infer<typeof modelTierSchema>;
+export type ModelOverrides = z.infer<typeof modelOverridesSchema>;
+
+// Runtime context key holding the model spec an agent call should use
+export const MODEL_CONTEXT_KEY = 'model';
+
+// "DOCSGEN_MODEL_GENERATE_FINAL_DOCS" for the generate-final-docs step
+const envName = (name: string) => `DOCSGEN_MODEL_${name.toUpperCase().replace(/[^A-Z0-9]+/g, '_')}`;
+
+/**
+ * Split a model spec into provider and model. Only a known provider
+ * prefix is split off, so "openai-compatible:llama3.1:8b" keeps the
+ * model's own colon; anything without one is an OpenAI model.
+ */
+export const parseModelSpec = (spec: string): { provider: ModelProvider; model: string } => {
+  const separator = spec.indexOf(':');
+  const provider = modelProviderSchema.safeParse(separator === -1 ? '' : spec.substring(0, separator).trim());
+  return provider.success
+    ? { provider: provider.data, model: spec.substring(separator + 1).trim() }
+    : { provider: 'openai', model: spec.trim() };
+};
+
+/**
+ * Model spec for one agent call. The first setting found wins: the run's
+ * override for the tier, then DOCSGEN_MODEL_<STEP>, DOCSGEN_MODEL_<AGENT>,
+ * DOCSGEN_MODEL_<TIER> and DOCSGEN_MODEL, then OPENAI_MODEL.
+ */
+export const modelSpecFor = (
+  target: { agent: string; step?: string; tier?: ModelTier },
+  overrides: ModelOverrides = {}
+): string => {
+  const candidates = [
+    target.tier && overrides[target.tier],
+    target.step && process.env[envName(target.step)],
+    process.env[envName(target.agent)],
+    target.tier && process.env[envName(target.tier)],
+    process.env.DOCSGEN_MODEL,
+  ];
+  return candidates.find((spec): spec is string => Boolean(spec?.trim()))?.trim() || `openai:${openAIConfig.model}`;
+};
+
+// One model instance per spec, shared by every agent that uses it
+const models = new Map<string, Promise<LanguageModel>>();
+
+/**
+ * Language model for a spec. Gemini goes through the Google provider
+ * setup in googleProvider.ts; Vertex reads GOOGLE_VERTEX_PROJECT and
+ * GOOGLE_VERTEX_LOCATION; openai-compatible points the OpenAI client at
+ * OPENAI_COMPATIBLE_BASE_URL (Ollama's default when unset).
+ */
+export const languageModel = (spec: string): Promise<LanguageModel> => {
+  const cached = models.get(spec);
+  if (cached) return cached;
+
+  const { provider, model } = parseModelSpec(spec);
+  const load = async (): Promise<LanguageModel> => {
+    switch (provider) {
+      case 'gemini': {
+        const { createGemini25Provider, GEMINI_CONFIG } = await import('./googleProvider');
+        return createGemini25Provider(model || GEMINI_CONFIG.MODELS.GEMINI_2_5_FLASH_LITE);
+      }
+      case 'vertex': {
+        const { vertex } = await import('@ai-sdk/google-vertex');
+        return vertex(model || 'gemini-2.5-flash');
+      }
+      case 'openai-compatible':
+        return createOpenAI({
+          name: 'openai-compatible',
+          baseURL: process.env.OPENAI_COMPATIBLE_BASE_URL || 'http://localhost:11434/v1',
+          // Local servers usually ignore the key, but the client requires one
+          apiKey: process.env.OPENAI_COMPATIBLE_API_KEY || 'local',
+          compatibility: 'compatible',
+        })(model);
+      default:
+        return openAIModelFor(model || openAIConfig.model);
+    }
+  };
+
+  const resolved = load();
+  models.set(spec, resolved);
+  // Missing credentials or settings can be fixed without restarting, so failures are not kept
+  resolved.catch(() => models.delete(spec));
+  return resolved;
+};
+
+// Fixture recording and replay wrap every model; newer-interface models cannot be wrapped, so they refuse to run under fixtures
+const fixtureModel = async (spec: string): Promise<LanguageModel> => {
+  const model = await languageModel(spec);
+  if (model.specificationVersion === 'v1') return withFixtures(model);
+  const { mode } = fixtureSettings();
+  if (mode !== 'off') {
+    throw new Error(`LLM fixtures (${mode}) do not support ${spec}; use an openai, gemini or openai-compatible model`);
+  }
+  return model;
+};
+
+// Agent model that follows the spec in the call's runtime context, else the agent's configured model
+export const agentModel = (agentId: string) => ({ runtimeContext }: { runtimeContext: RuntimeContext }) => {
+  const spec = runtimeContext.get(MODEL_CONTEXT_KEY);
+  return fixtureModel(typeof spec === 'string' && spec ? spec : modelSpecFor({ agent: agentId }));
+};
+
+/**
+ * Run an agent on one prompt with the given model spec and return its
+ * text. Vertex models implement the newer model interface, which only
+ * generateVNext accepts.
+ */
+export const generateWithModel = async (agent: Agent, prompt: string, spec: string): Promise<string> => {
+  const runtimeContext = new RuntimeContext();
+  runtimeContext.set(MODEL_CONTEXT_KEY, spec);
+
+  const model = await agent.getModel({ runtimeContext });
+  if (model.specificationVersion === 'v1') {
+    const result = await agent.generate(prompt, { runtimeContext });
+    return result.text || '';
+  }
+  const result = await agent.generateVNext(prompt, { runtimeContext });
+  return result.text || '';
+};
@@ -31,9 +31,12 @@ export const openAIProvider = createOpenAI({
   },
 });
 
-// Export the configured model with timeout settings
-export const openAIModel = openAIProvider(openAIConfig.model, {
+// Any OpenAI model with the same settings as the default one
+export const openAIModelFor = (modelId: string) => openAIProvider(modelId, {
   // Additional model-specific configurations for reasoning
   reasoningEffort: 'medium',
   structuredOutputs: true,
-});
\ No newline at end of file
+});
+
+// Export the configured model with timeout settings
+export const openAIModel = openAIModelFor(openAIConfig.model);
\ No newline at end of file
@@ -0,0 +1,203 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as ts from 'typescript';
+import { z } from 'zod';
+import { outputFormatSchema } from '../renderers';
+import type { RepositorySource } from '../sources';
+import { parseTokenBudget } from '../utils/tokens';
+import { unverifiedModeSchema } from '../validation';
+import { modelOverridesSchema } from './models';
+
+// Looked up at the repository root, in this order
+export const PROJECT_CONFIG_FILES = ['docsgen.config.json', 'docsgen.config.ts'];
+
+// Used for any limit a config leaves out
+export const DEFAULT_LIMITS = {
+  maxFiles: 40,
+  // Files estimated above this are truncated before extraction
+  maxFileTokens: 50000,
+  // Characters kept of a truncated file
+  truncateAt: 200000,
+  // Files read at the same time
+  concurrency: 8,
+};
+
+// Ceilings for any limit, whoever sets it; the API passes request bodies through as configs
+export const MAX_LIMITS = {
+  maxFiles: 200,
+  maxFileTokens: 200000,
+  truncateAt: 1000000,
+  concurrency: 16,
+};
+
+// The only keys a repository's own config may set: what to read and how to write it.
+// Models, limits and deterministic runs cost the caller, so they come from the caller or the environment
+const REPOSITORY_CONFIG_KEYS = ['include', 'exclude', 'entryPoints', 'priorities', 'output'] as const;
+
+/**
+ * Per-library settings, from `docsgen.config.json` or `docsgen.config.ts`
+ * at the repository root or passed by the caller. Unknown keys are
+ * rejected so a misspelt setting does not silently do nothing. A
+ * repository's file only contributes the keys in REPOSITORY_CONFIG_KEYS.
+ */
+export const projectConfigSchema = z.object({
+  // Only files matching one of these globs are read
+  include: z.array(z.string()).optional(),
+  // Files matching any of these are never read, even when included
+  exclude: z.array(z.string()).optional(),
+  // Repository paths read before anything ranked, whatever their category
+  entryPoints: z.array(z.string()).optional(),
+  // Glob -> points added to the rank of matching files; negative values sink them
+  priorities: z.record(z.number()).optional(),
+  limits: z.object({
+    maxFiles: z.number().int().positive().optional(),
+    maxFileTokens: z.number().int().positive().optional(),
+    truncateAt: z.number().int().positive().optional(),
+    concurrency: z.number().int().positive().optional(),
+  }).strict().optional(),
+  output: z.object({
+    formats: z.array(outputFormatSchema).optional(),
+    // 8000 or "8k"
+    tokenBudget: z.union([z.number().int().positive(), z.string().refine(value => parseTokenBudget(value) !== undefined, 'Use a number of tokens such as 8000 or "8k"')]).optional(),
+    shard: z.boolean().optional(),
+    unverifiedApis: unverifiedModeSchema.optional(),
+  }).strict().optional(),
+  // "provider:model" per tier, as for --model and --cheap-model
+  models: modelOverridesSchema.strict().optional(),
+  // Generate without any model call
+  deterministic: z.boolean().optional(),
+}).strict();
+
+export type ProjectConfig = z.infer<typeof projectConfigSchema>;
+
+// Thrown for a config file that cannot be read or does not validate, naming the file and each problem
+export class ProjectConfigError extends Error {
+  constructor(readonly file: string, readonly issues: string[]) {
+    super(`Invalid ${file}: ${issues.join('; ')}`);
+    this.name = 'ProjectConfigError';
+  }
+}
+
+// Plain data from a literal expression; anything computed is refused rather than run
+const literalValue = (node: ts.Expression, file: ts.SourceFile): unknown => {
+  if (ts.isParenthesizedExpression(node) || ts.isAsExpression(node) || ts.isSatisfiesExpression(node)) {
+    return literalValue(node.expression, file);
+  }
+  if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) return node.text;
+  if (ts.isNumericLiteral(node)) return Number(node.text);
+  if (ts.isPrefixUnaryExpression(node) && node.operator === ts.SyntaxKind.MinusToken && ts.isNumericLiteral(node.operand)) {
+    return -Number(node.operand.text);
+  }
+  if (node.kind === ts.SyntaxKind.TrueKeyword) return true;
+  if (node.kind === ts.SyntaxKind.FalseKeyword) return false;
+  if (node.kind === ts.SyntaxKind.NullKeyword) return null;
+  if (ts.isArrayLiteralExpression(node)) return node.elements.map(element => literalValue(element, file));
+  if (ts.isObjectLiteralExpression(node)) {
+    const entries = node.properties.map(property => {
+      if (!ts.isPropertyAssignment(property) || !(ts.isIdentifier(property.name) || ts.isStringLiteral(property.name) || ts.isNumericLiteral(property.name))) {
+        throw new Error(`only plain "key: value" properties are supported (${property.getText(file)})`);
+      }
+      return [property.name.text, literalValue(property.initializer, file)];
+    });
+    return Object.fromEntries(entries);
+  }
+  throw new Error(`only literal values are supported (${node.getText(file)})`);
+};
+
+// The object a docsgen.config.ts exports by default, evaluated without executing the file
+const typeScriptConfig = (content: string, fileName: string): unknown => {
+  const file = ts.createSourceFile(fileName, content, ts.ScriptTarget.Latest, true);
+  for (const statement of file.statements) {
+    if (ts.isExportAssignment(statement) && !statement.isExportEquals) {
+      return literalValue(statement.expression, file);
+    }
+  }
+  throw new Error('expected "export default { ... }"');
+};
+
+// Parse and validate config file content; the name picks JSON or TypeScript
+export const parseProjectConfig = (content: string, fileName: string): ProjectConfig => {
+  let raw: unknown;
+  try {
+    raw = /\.ts$/.test(fileName) ? typeScriptConfig(content, fileName) : JSON.parse(content);
+  } catch (error) {
+    throw new ProjectConfigError(fileName, [error instanceof Error ? error.message : String(error)]);
+  }
+
+  const parsed = projectConfigSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new ProjectConfigError(fileName, parsed.error.issues.map(issue => `${issue.path.join('.') || 'config'}: ${issue.message}`));
+  }
+  return parsed.data;
+};
+
+/**
+ * The repository's own config, or a workspace package's when `dir` is
+ * given, if it has one. The file is validated in full, but only file
+ * selection and output settings are kept; `ignored` names the rest.
+ */
+export const readProjectConfig = async (
+  source: RepositorySource,
+  dir = ''
+): Promise<{ file: string; config: ProjectConfig; ignored: string[] } | undefined> => {
+  for (const name of PROJECT_CONFIG_FILES) {
+    const file = dir ? `${dir}/${name}` : name;
+    const content = await source.readFile(file);
+    if (content !== null) {
+      const parsed = parseProjectConfig(content, file);
+      const allowed = new Set<string>(REPOSITORY_CONFIG_KEYS);
+      return {
+        file,
+        config: Object.fromEntries(Object.entries(parsed).filter(([key]) => allowed.has(key))),
+        ignored: Object.keys(parsed).filter(key => !allowed.has(key)),
+      };
+    }
+  }
+  return undefined;
+};
+
+// A config file on disk, for the CLI's --config
+export const loadProjectConfigFile = async (filePath: string): Promise<ProjectConfig> => {
+  const content = await fs.promises.readFile(filePath, 'utf8').catch((error: Error) => {
+    throw new ProjectConfigError(filePath, [error.message]);
+  });
+  return parseProjectConfig(content, path.basename(filePath));
+};
+
+/**
+ * Layer configs, later ones winning. Sections (limits, output, models)
+ * merge key by key; lists and priorities are replaced whole, so a caller
+ * can narrow a repository's includes rather than add to them.
+ */
+export const mergeProjectConfigs = (...configs: Array<ProjectConfig | undefined>): ProjectConfig => {
+  const defined = <T extends object>(value?: T) =>
+    Object.fromEntries(Object.entries(value || {}).filter(([, entry]) => entry !== undefined)) as Partial<T>;
+
+  return configs.reduce<ProjectConfig>((merged, config) => {
+    if (!config) return merged;
+    return {
+      ...merged,
+      ...defined(config),
+      limits: { ...merged.limits, ...defined(config.limits) },
+      output: { ...merged.output, ...defined(config.output) },
+      models: { ...merged.models, ...defined(config.models) },
+    };
+  }, {});
+};
+
+// Limits with the defaults filled in, each held to its ceiling
+export const projectLimits = (config: ProjectConfig = {}): typeof DEFAULT_LIMITS => {
+  const limits = { ...DEFAULT_LIMITS, ...mergeProjectConfigs(config).limits };
+  return {
+    maxFiles: Math.min(limits.maxFiles, MAX_LIMITS.maxFiles),
+    maxFileTokens: Math.min(limits.maxFileTokens, MAX_LIMITS.maxFileTokens),
+    truncateAt: Math.min(limits.truncateAt, MAX_LIMITS.truncateAt),
+    concurrency: Math.min(limits.concurrency, MAX_LIMITS.concurrency),
+  };
+};
+
+// The output token budget as a number, if one is set
+export const projectTokenBudget = (config: ProjectConfig = {}): number | undefined => {
+  const budget = config.output?.tokenBudget;
+  return typeof budget === 'string' ? parseTokenBudget(budget) : budget;
+};
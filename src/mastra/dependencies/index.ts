@@ -0,0 +1,136 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { LOCKFILES, parseLockfile, type LockfileKind } from './lockfiles';
+
+export type { LockedPackage, LockfileKind, LockfileLookup } from './lockfiles';
+export { parseLockfile, parsePackageLock, parsePnpmLock, parseYarnLock } from './lockfiles';
+
+const DEFAULT_REGISTRY = 'https://registry.npmjs.org';
+
+// A direct dependency of a project, resolved to the version actually in use
+export interface ProjectDependency {
+  // Name as declared in package.json (the alias for aliased dependencies)
+  name: string;
+  // Published package the dependency resolves to
+  packageName: string;
+  range: string;
+  dev: boolean;
+  version?: string;
+  // Tarball URL recorded in the lockfile
+  resolved?: string;
+  // Why no exact version could be determined
+  unresolvedReason?: string;
+}
+
+export interface ProjectDependencies {
+  projectName: string;
+  lockfile?: string;
+  lockfileKind?: LockfileKind;
+  dependencies: ProjectDependency[];
+}
+
+const EXACT_VERSION = /^\d+\.\d+\.\d+(?:[-+][\w.-]+)?$/;
+
+// Version of a package installed in the project's node_modules, if any
+const installedVersion = (projectDir: string, name: string): string | undefined => {
+  try {
+    const manifest = JSON.parse(fs.readFileSync(path.join(projectDir, 'node_modules', name, 'package.json'), 'utf8'));
+    return manifest.version;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Read a project's package.json and lockfile (package-lock.json,
+ * npm-shrinkwrap.json, pnpm-lock.yaml or yarn.lock) and resolve each direct
+ * dependency to the exact version it is locked to. Without a lockfile
+ * entry, the installed node_modules version or an exact range is used.
+ */
+export const readProjectDependencies = async (
+  projectDir: string,
+  options: { includeDev?: boolean } = {}
+): Promise<ProjectDependencies> => {
+  const manifestPath = path.join(projectDir, 'package.json');
+  if (!fs.existsSync(manifestPath)) {
+    throw new Error(`No package.json found in ${projectDir}`);
+  }
+
+  const manifest = JSON.parse(await fs.promises.readFile(manifestPath, 'utf8'));
+  const lockfile = LOCKFILES.find(({ file }) => fs.existsSync(path.join(projectDir, file)));
+  const lookup = lockfile
+    ? parseLockfile(lockfile.kind, await fs.promises.readFile(path.join(projectDir, lockfile.file), 'utf8'))
+    : undefined;
+
+  const declared: Array<[string, string, boolean]> = [
+    ...Object.entries<string>(manifest.dependencies || {}).map(([name, range]): [string, string, boolean] => [name, range, false]),
+    ...Object.entries<string>(manifest.optionalDependencies || {}).map(([name, range]): [string, string, boolean] => [name, range, false]),
+    ...(options.includeDev
+      ? Object.entries<string>(manifest.devDependencies || {}).map(([name, range]): [string, string, boolean] => [name, range, true])
+      : []),
+  ];
+
+  const seen = new Set<string>();
+  const dependencies: ProjectDependency[] = [];
+
+  for (const [name, range, dev] of declared) {
+    if (seen.has(name)) continue;
+    seen.add(name);
+
+    if (/^(link|file|workspace|portal):/.test(range) || /^(git|github|https?):|^[\w-]+\/[\w.-]+$/.test(range)) {
+      dependencies.push({ name, packageName: name, range, dev, unresolvedReason: 'Not a registry dependency' });
+      continue;
+    }
+
+    const locked = lookup?.(name, range);
+    if (locked) {
+      dependencies.push({ name, packageName: locked.name, range, dev, version: locked.version, resolved: locked.resolved });
+      continue;
+    }
+
+    const aliasTarget = range.startsWith('npm:') ? range.substring(4) : undefined;
+    const packageName = aliasTarget ? aliasTarget.substring(0, aliasTarget.lastIndexOf('@')) || name : name;
+    const exactRange = aliasTarget ? aliasTarget.substring(aliasTarget.lastIndexOf('@') + 1) : range.replace(/^=/, '');
+    const version = installedVersion(projectDir, name) || (EXACT_VERSION.test(exactRange) ? exactRange : undefined);
+
+    dependencies.push({
+      name,
+      packageName,
+      range,
+      dev,
+      version,
+      unresolvedReason: version ? undefined : lockfile ? `Not found in ${lockfile.file}` : 'No lockfile and not installed',
+    });
+  }
+
+  return {
+    projectName: manifest.name || path.basename(path.resolve(projectDir)),
+    lockfile: lockfile?.file,
+    lockfileKind: lockfile?.kind,
+    dependencies,
+  };
+};
+
+/**
+ * Where to read a resolved dependency from: the project's own
+ * node_modules when the installed version matches, otherwise the
+ * registry tarball. NPM_REGISTRY_URL overrides the registry (mirrors,
+ * private registries, local stubs).
+ */
+export const dependencySource = (projectDir: string, dependency: ProjectDependency): string | undefined => {
+  const { name, packageName, version, resolved } = dependency;
+  if (!version) return undefined;
+
+  const installed = path.resolve(projectDir, 'node_modules', name);
+  if (installedVersion(projectDir, name) === version) {
+    return installed;
+  }
+
+  const registry = process.env.NPM_REGISTRY_URL?.replace(/\/$/, '');
+  if (!registry && resolved && /^https?:\/\/.+\.tgz$/.test(resolved)) {
+    return resolved;
+  }
+
+  const basename = packageName.split('/').pop();
+  return `${registry || DEFAULT_REGISTRY}/${packageName}/-/${basename}-${version}.tgz`;
+};
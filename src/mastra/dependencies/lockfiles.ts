@@ -0,0 +1,167 @@
+import { parseYaml } from '../utils/yaml';
+
+// Exact package a direct dependency was locked to
+export interface LockedPackage {
+  // Real package name; differs from the dependency name for aliases (npm:pkg@1.0.0)
+  name: string;
+  version: string;
+  // Tarball URL, when the lockfile records one
+  resolved?: string;
+}
+
+// Look up a direct dependency by the name and range declared in package.json
+export type LockfileLookup = (name: string, range: string) => LockedPackage | undefined;
+
+export type LockfileKind = 'npm' | 'pnpm' | 'yarn';
+
+// Lockfiles in order of preference when a project has several
+export const LOCKFILES: Array<{ file: string; kind: LockfileKind }> = [
+  { file: 'package-lock.json', kind: 'npm' },
+  { file: 'npm-shrinkwrap.json', kind: 'npm' },
+  { file: 'pnpm-lock.yaml', kind: 'pnpm' },
+  { file: 'yarn.lock', kind: 'yarn' },
+];
+
+// Versions that point at the filesystem or a workspace rather than a registry
+const isLocalVersion = (version: string): boolean => {
+  return /^(link|file|workspace|portal):/.test(version);
+};
+
+// Split "name@version" where the name may be scoped (@scope/name@1.0.0)
+const splitNameVersion = (spec: string): { name: string; version: string } | undefined => {
+  const at = spec.lastIndexOf('@');
+  if (at <= 0) return undefined;
+  return { name: spec.substring(0, at), version: spec.substring(at + 1) };
+};
+
+/**
+ * package-lock.json / npm-shrinkwrap.json, lockfileVersion 1 to 3.
+ * v2+ keys installed packages by "node_modules/<name>"; v1 nests them
+ * under "dependencies".
+ */
+export const parsePackageLock = (content: string): LockfileLookup => {
+  const lock = JSON.parse(content);
+
+  return (name) => {
+    const entry = lock.packages?.[`node_modules/${name}`] || lock.dependencies?.[name];
+    if (!entry?.version || isLocalVersion(entry.version)) return undefined;
+
+    // v1 records aliases in the version field ("npm:string-width@4.2.3")
+    const alias = entry.version.startsWith('npm:') ? splitNameVersion(entry.version.substring(4)) : undefined;
+
+    return {
+      name: alias?.name || entry.name || name,
+      version: alias?.version || entry.version,
+      resolved: entry.resolved,
+    };
+  };
+};
+
+/**
+ * pnpm-lock.yaml, lockfileVersion 5 to 9. Direct dependencies live under
+ * importers['.'] (v6+ workspaces and v9) or at the top level (v5/v6).
+ */
+export const parsePnpmLock = (content: string): LockfileLookup => {
+  const lock = (parseYaml(content) || {}) as Record<string, any>;
+  const importer = lock.importers?.['.'] || lock;
+  const packages: Record<string, any> = lock.packages || {};
+
+  return (name) => {
+    const sections = ['dependencies', 'devDependencies', 'optionalDependencies'];
+    const entry = sections.map(section => importer[section]?.[name]).find(value => value !== undefined && value !== null);
+    if (entry === undefined) return undefined;
+
+    // v5 stores the version string directly, v6+ an object with specifier and version
+    const raw = String(typeof entry === 'object' ? entry.version : entry);
+    if (isLocalVersion(raw)) return undefined;
+
+    // Drop peer dependency suffixes: 1.2.3(react@18.2.0) in v6+, 1.2.3_react@18.2.0 in v5
+    const locked = raw.replace(/\(.*$/, '').replace(/_.*$/, '');
+
+    // Aliases point at another package: /other/1.0.0 (v5), /other@1.0.0 (v6), other@1.0.0 (v9)
+    let packageName = name;
+    let version = locked;
+    if (locked.startsWith('/')) {
+      const v5 = locked.match(/^\/((?:@[^/]+\/)?[^/@]+)\/([^/]+)$/);
+      const parsed = v5 ? { name: v5[1], version: v5[2] } : splitNameVersion(locked.substring(1));
+      if (parsed) ({ name: packageName, version } = parsed);
+    } else if (locked.includes('@')) {
+      const parsed = splitNameVersion(locked);
+      if (parsed) ({ name: packageName, version } = parsed);
+    }
+
+    const packageEntry = packages[`${packageName}@${version}`] ||
+      packages[`/${packageName}@${version}`] ||
+      packages[`/${packageName}/${version}`];
+    const tarball = packageEntry?.resolution?.tarball;
+
+    return {
+      name: packageName,
+      version,
+      resolved: typeof tarball === 'string' ? tarball : undefined,
+    };
+  };
+};
+
+/**
+ * yarn.lock, both the classic v1 format and Yarn Berry (YAML). Entries are
+ * keyed by every "name@range" descriptor that resolved to them.
+ */
+export const parseYarnLock = (content: string): LockfileLookup => {
+  const entries = new Map<string, { version: string; resolved?: string; resolution?: string }>();
+
+  if (/^__metadata:/m.test(content)) {
+    const lock = (parseYaml(content) || {}) as Record<string, any>;
+    for (const [descriptors, entry] of Object.entries(lock)) {
+      if (descriptors === '__metadata' || !entry?.version) continue;
+      for (const descriptor of descriptors.split(',')) {
+        entries.set(descriptor.trim(), { version: String(entry.version), resolution: entry.resolution });
+      }
+    }
+  } else {
+    let current: { version: string; resolved?: string } | undefined;
+    for (const line of content.split(/\r?\n/)) {
+      if (!line.trim() || line.startsWith('#')) continue;
+
+      if (!line.startsWith(' ') && line.endsWith(':')) {
+        current = { version: '' };
+        for (const descriptor of line.slice(0, -1).split(',')) {
+          entries.set(descriptor.trim().replace(/^"|"$/g, ''), current);
+        }
+        continue;
+      }
+
+      const field = line.trim().match(/^(version|resolved)\s+"?([^"]*)"?$/);
+      if (current && field) {
+        current[field[1] as 'version' | 'resolved'] = field[2];
+      }
+    }
+  }
+
+  // Only the exact descriptor; another range of the same package means the lockfile is stale
+  return (name, range) => {
+    const entry = entries.get(`${name}@${range}`) || entries.get(`${name}@npm:${range}`);
+    if (!entry?.version || isLocalVersion(entry.version)) return undefined;
+
+    // Aliases: "alias@npm:real@^1.0.0" (v1 range) or resolution "real@npm:1.0.0" (Berry)
+    const target = entry.resolution || (range.startsWith('npm:') ? range.substring(4) : '');
+    const packageName = target ? splitNameVersion(target)?.name?.replace(/@npm$/, '') || name : name;
+
+    return {
+      name: packageName,
+      version: entry.version,
+      resolved: entry.resolved?.replace(/#.*$/, ''),
+    };
+  };
+};
+
+export const parseLockfile = (kind: LockfileKind, content: string): LockfileLookup => {
+  switch (kind) {
+    case 'npm':
+      return parsePackageLock(content);
+    case 'pnpm':
+      return parsePnpmLock(content);
+    case 'yarn':
+      return parseYarnLock(content);
+  }
+};
@@ -0,0 +1,105 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { z } from 'zod';
+import { fileTypeOf } from '../tools/fetch-all-docs';
+
+export const DEFAULT_CORPUS_DIR = 'evals/corpus';
+
+// Where a case's files were taken from; abridged snapshots keep a subset of the original
+export const evalSourceSchema = z.object({
+  name: z.string(),
+  version: z.string().optional(),
+  url: z.string(),
+  license: z.string(),
+  abridged: z.boolean().optional(),
+});
+
+// A saved documentation page and the URL it was served from
+export const evalPageSchema = z.object({
+  url: z.string(),
+  file: z.string(),
+});
+
+/**
+ * case.json: the language, where the snapshot came from, and the public
+ * symbols it exposes as dotted paths ("Session.get", "Rack.Utils.escape").
+ */
+export const evalCaseSchema = z.object({
+  language: z.string(),
+  source: evalSourceSchema,
+  expected: z.array(z.string()).min(1),
+  pages: z.array(evalPageSchema).optional(),
+});
+
+export type EvalSource = z.infer<typeof evalSourceSchema>;
+export type EvalPage = z.infer<typeof evalPageSchema>;
+
+export interface EvalCase extends z.infer<typeof evalCaseSchema> {
+  // Directory name, used as the case's id in reports and the baseline
+  name: string;
+  dir: string;
+}
+
+export interface EvalFile {
+  path: string;
+  content: string;
+  type: string;
+}
+
+// Case metadata, saved pages and licenses are not part of the snapshot the extractors see
+const isSnapshotFile = (relative: string) => {
+  return relative !== 'case.json' && !relative.startsWith('pages/') && !/^(licen[cs]e|copying)(\.\w+)?$/i.test(relative);
+};
+
+/**
+ * Load every case under the corpus directory: each subdirectory with a
+ * case.json, in name order. A case.json that does not match the schema
+ * fails the whole run rather than silently shrinking the corpus.
+ */
+export const loadCorpus = async (corpusDir = DEFAULT_CORPUS_DIR): Promise<EvalCase[]> => {
+  if (!fs.existsSync(corpusDir)) {
+    throw new Error(`Eval corpus not found: ${corpusDir}`);
+  }
+
+  const entries = await fs.promises.readdir(corpusDir, { withFileTypes: true });
+  const cases: EvalCase[] = [];
+  for (const entry of entries.filter(entry => entry.isDirectory()).sort((a, b) => a.name.localeCompare(b.name))) {
+    const dir = path.join(corpusDir, entry.name);
+    const file = path.join(dir, 'case.json');
+    if (!fs.existsSync(file)) continue;
+
+    const parsed = evalCaseSchema.safeParse(JSON.parse(await fs.promises.readFile(file, 'utf8')));
+    if (!parsed.success) {
+      throw new Error(`Invalid ${file}: ${parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ')}`);
+    }
+    cases.push({ ...parsed.data, name: entry.name, dir });
+  }
+
+  return cases;
+};
+
+// The repository snapshot of a case, with paths relative to its directory
+export const caseFiles = async (evalCase: EvalCase): Promise<EvalFile[]> => {
+  const files: EvalFile[] = [];
+  const walk = async (relative: string) => {
+    const entries = await fs.promises.readdir(path.join(evalCase.dir, relative), { withFileTypes: true });
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      const child = relative ? `${relative}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        await walk(child);
+      } else if (entry.isFile() && isSnapshotFile(child)) {
+        files.push({ path: child, content: await fs.promises.readFile(path.join(evalCase.dir, child), 'utf8'), type: fileTypeOf(child) });
+      }
+    }
+  };
+  await walk('');
+  return files;
+};
+
+// Saved pages of a case with their HTML
+export const casePages = async (evalCase: EvalCase): Promise<Array<EvalPage & { html: string }>> => {
+  return Promise.all((evalCase.pages || []).map(async page => ({
+    ...page,
+    html: await fs.promises.readFile(path.join(evalCase.dir, page.file), 'utf8'),
+  })));
+};
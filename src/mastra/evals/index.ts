@@ -0,0 +1,4 @@
+export * from './corpus';
+export * from './score';
+export * from './run';
+export * from './report';
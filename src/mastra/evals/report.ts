@@ -0,0 +1,125 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { z } from 'zod';
+import { evalStageSchema, type EvalCaseResult } from './run';
+
+export const DEFAULT_BASELINE_PATH = 'evals/baseline.json';
+
+// Drops smaller than this are rounding noise, not regressions
+const REGRESSION_TOLERANCE = 0.005;
+
+// Counts are summed over a language's cases, so larger snapshots weigh more
+export const evalMetricSchema = z.object({
+  language: z.string(),
+  stage: evalStageSchema,
+  cases: z.number(),
+  found: z.number(),
+  expected: z.number(),
+  correct: z.number(),
+  recalled: z.number(),
+  precision: z.number(),
+  recall: z.number(),
+});
+
+export const evalBaselineSchema = z.object({
+  metrics: z.array(evalMetricSchema),
+  // Per-case scores, kept to see which case moved a language's numbers
+  cases: z.array(z.object({
+    case: z.string(),
+    stage: evalStageSchema,
+    precision: z.number(),
+    recall: z.number(),
+  })),
+});
+
+export const evalComparisonSchema = evalMetricSchema.extend({
+  previous: evalMetricSchema.pick({ precision: true, recall: true }).optional(),
+  regressed: z.boolean(),
+});
+
+export type EvalMetric = z.infer<typeof evalMetricSchema>;
+export type EvalBaseline = z.infer<typeof evalBaselineSchema>;
+export type EvalComparison = z.infer<typeof evalComparisonSchema>;
+
+const metricKey = (metric: { language: string; stage: string }) => `${metric.language}/${metric.stage}`;
+
+// Precision and recall per language and stage, in language then stage order
+export const aggregateResults = (results: EvalCaseResult[]): EvalMetric[] => {
+  const groups = new Map<string, EvalCaseResult[]>();
+  for (const result of results) {
+    const key = metricKey(result);
+    groups.set(key, [...(groups.get(key) || []), result]);
+  }
+
+  return [...groups.values()].map(group => {
+    const sum = (field: 'found' | 'expected' | 'correct' | 'recalled') => group.reduce((total, result) => total + result.score[field], 0);
+    const found = sum('found');
+    const expected = sum('expected');
+    return {
+      language: group[0].language,
+      stage: group[0].stage,
+      cases: group.length,
+      found,
+      expected,
+      correct: sum('correct'),
+      recalled: sum('recalled'),
+      precision: found > 0 ? sum('correct') / found : 1,
+      recall: expected > 0 ? sum('recalled') / expected : 1,
+    };
+  }).sort((a, b) => a.language.localeCompare(b.language) || evalStageSchema.options.indexOf(a.stage) - evalStageSchema.options.indexOf(b.stage));
+};
+
+export const toBaseline = (results: EvalCaseResult[]): EvalBaseline => {
+  const round = (value: number) => Math.round(value * 10000) / 10000;
+  return {
+    metrics: aggregateResults(results).map(metric => ({ ...metric, precision: round(metric.precision), recall: round(metric.recall) })),
+    cases: results.map(result => ({ case: result.case, stage: result.stage, precision: round(result.score.precision), recall: round(result.score.recall) })),
+  };
+};
+
+// The checked-in baseline, or undefined before the first --update-baseline
+export const readBaseline = async (baselinePath = DEFAULT_BASELINE_PATH): Promise<EvalBaseline | undefined> => {
+  if (!fs.existsSync(baselinePath)) return undefined;
+  return evalBaselineSchema.parse(JSON.parse(await fs.promises.readFile(baselinePath, 'utf8')));
+};
+
+export const writeBaseline = async (baseline: EvalBaseline, baselinePath = DEFAULT_BASELINE_PATH) => {
+  await fs.promises.mkdir(path.dirname(baselinePath), { recursive: true });
+  await fs.promises.writeFile(baselinePath, `${JSON.stringify(baseline, null, 2)}\n`);
+};
+
+/**
+ * Compare this run's metrics with the baseline. A language and stage
+ * regresses when its precision or recall dropped; ones new since the
+ * baseline have nothing to regress from.
+ */
+export const compareWithBaseline = (metrics: EvalMetric[], baseline?: EvalBaseline): EvalComparison[] => {
+  const previous = new Map((baseline?.metrics || []).map(metric => [metricKey(metric), metric]));
+  return metrics.map(metric => {
+    const before = previous.get(metricKey(metric));
+    return {
+      ...metric,
+      previous: before && { precision: before.precision, recall: before.recall },
+      regressed: Boolean(before) && (
+        metric.precision < before!.precision - REGRESSION_TOLERANCE ||
+        metric.recall < before!.recall - REGRESSION_TOLERANCE
+      ),
+    };
+  });
+};
+
+// Markdown table of the comparison, with changes against the baseline in parentheses
+export const describeEvalReport = (comparisons: EvalComparison[]): string => {
+  const percent = (value: number) => `${Math.round(value * 100)}%`;
+  const change = (value: number, before?: number) => {
+    if (before === undefined) return percent(value);
+    const delta = Math.round((value - before) * 100);
+    return delta === 0 ? percent(value) : `${percent(value)} (${delta > 0 ? '+' : ''}${delta})`;
+  };
+
+  return [
+    '| Language | Stage | Cases | Precision | Recall | |',
+    '| --- | --- | --- | --- | --- | --- |',
+    ...comparisons.map(row => `| ${row.language} | ${row.stage} | ${row.cases} | ${change(row.precision, row.previous?.precision)} | ${change(row.recall, row.previous?.recall)} | ${row.regressed ? 'regressed' : row.previous ? '' : 'new'} |`),
+  ].join('\n');
+};
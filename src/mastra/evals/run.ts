@@ -0,0 +1,97 @@
+import * as path from 'node:path';
+import { RuntimeContext } from '@mastra/core/runtime-context';
+import { z } from 'zod';
+import { logError, logProgress, logToolExecution } from '../config/logger';
+import { extractApisFromHtml } from '../tools/scrape-documentation';
+import { listedApiNames } from '../validation/signatures';
+import { extractRepositoryApis, generateContextIndex } from '../workflows/generate-context-index';
+import { caseFiles, casePages, loadCorpus, DEFAULT_CORPUS_DIR, type EvalCase } from './corpus';
+import { entrySymbol, evalScoreSchema, scoreSymbols } from './score';
+
+export const evalStageSchema = z.enum([
+  // extractAllApis over the snapshot, as the extract-apis step runs it
+  'extract',
+  // The documentation page parsers over saved pages
+  'scrape',
+  // The whole workflow without a model; the symbols the index's API sections list
+  'pipeline',
+]);
+
+export const evalCaseResultSchema = z.object({
+  case: z.string(),
+  language: z.string(),
+  stage: evalStageSchema,
+  score: evalScoreSchema,
+  error: z.string().optional(),
+});
+
+export type EvalStage = z.infer<typeof evalStageSchema>;
+export type EvalCaseResult = z.infer<typeof evalCaseResultSchema>;
+
+// Symbols a stage finds in one case
+const runStage = async (evalCase: EvalCase, stage: EvalStage, runtimeContext: RuntimeContext): Promise<string[]> => {
+  switch (stage) {
+    case 'extract': {
+      const { apis } = await extractRepositoryApis(await caseFiles(evalCase), runtimeContext);
+      return apis.map(entrySymbol);
+    }
+    case 'scrape': {
+      const pages = await casePages(evalCase);
+      return pages.flatMap(page => extractApisFromHtml(page.html, page.url).map(entrySymbol));
+    }
+    case 'pipeline': {
+      const run = await generateContextIndex.createRunAsync();
+      // An absolute path, so the case directory is read as a local source rather than a remote URL
+      const result = await run.start({ inputData: { repoUrl: path.resolve(evalCase.dir), deterministic: true } });
+      if (result.status !== 'success') {
+        throw new Error(`Workflow ${result.status}${result.status === 'failed' ? `: ${result.error}` : ''}`);
+      }
+      return listedApiNames(result.result.markdown);
+    }
+  }
+};
+
+// Cases with saved pages are scored on scraping; cases with a snapshot on extraction and the pipeline
+const stagesFor = async (evalCase: EvalCase): Promise<EvalStage[]> => {
+  const hasSnapshot = (await caseFiles(evalCase)).length > 0;
+  return [
+    ...(hasSnapshot ? ['extract', 'pipeline'] as const : []),
+    ...(evalCase.pages?.length ? ['scrape'] as const : []),
+  ];
+};
+
+/**
+ * Score every stage that applies to every case in the corpus. A stage
+ * that throws scores zero recall for its case rather than stopping the
+ * run, so one broken extractor shows up as a regression in the report.
+ */
+export const runEvaluation = async (options: { corpusDir?: string; stages?: EvalStage[] } = {}): Promise<EvalCaseResult[]> => {
+  const corpusDir = options.corpusDir || DEFAULT_CORPUS_DIR;
+  const cases = await loadCorpus(corpusDir);
+  const runtimeContext = new RuntimeContext();
+  const results: EvalCaseResult[] = [];
+
+  logToolExecution('eval', { corpusDir, cases: cases.length, stages: options.stages });
+
+  for (const [position, evalCase] of cases.entries()) {
+    const stages = (await stagesFor(evalCase)).filter(stage => !options.stages || options.stages.includes(stage));
+    for (const stage of stages) {
+      try {
+        const found = await runStage(evalCase, stage, runtimeContext);
+        results.push({ case: evalCase.name, language: evalCase.language, stage, score: scoreSymbols(found, evalCase.expected) });
+      } catch (error) {
+        logError('eval', error, { case: evalCase.name, stage });
+        results.push({
+          case: evalCase.name,
+          language: evalCase.language,
+          stage,
+          score: scoreSymbols([], evalCase.expected),
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+    logProgress(`Evaluated ${evalCase.name}`, position + 1, cases.length);
+  }
+
+  return results;
+};
@@ -0,0 +1,57 @@
+import { z } from 'zod';
+import type { ApiEntry } from '../apis';
+import { symbolPath } from '../validation/format';
+
+export const evalScoreSchema = z.object({
+  // Distinct symbols found and expected
+  found: z.number(),
+  expected: z.number(),
+  // Found symbols that match an expected one
+  correct: z.number(),
+  // Expected symbols matched by something found
+  recalled: z.number(),
+  // correct / found, 0-1 (1 when nothing was found)
+  precision: z.number(),
+  // recalled / expected, 0-1
+  recall: z.number(),
+  missing: z.array(z.string()),
+  unexpected: z.array(z.string()),
+});
+
+export type EvalScore = z.infer<typeof evalScoreSchema>;
+
+// `def get(url, **kwargs)`, "Rack::Utils.escape", "_.chunk(array)" -> "get", "Rack.Utils.escape", "_.chunk"
+export const normalizeSymbol = (name: string): string => symbolPath(name).join('.');
+
+// Dotted path of an extracted entry, however its extractor spelled the owner
+export const entrySymbol = (entry: ApiEntry): string => normalizeSymbol(entry.qualifiedName) || normalizeSymbol(entry.signature);
+
+/**
+ * Same symbol when the paths are equal or one ends with the other on a
+ * segment boundary: extractors qualify names differently ("escape" for a
+ * module function, "_.chunk" on a docs page), and neither form is wrong.
+ */
+export const sameSymbol = (found: string, expected: string): boolean => {
+  return found === expected || found.endsWith(`.${expected}`) || expected.endsWith(`.${found}`);
+};
+
+// Precision and recall of found symbol paths against a case's expected list
+export const scoreSymbols = (found: string[], expected: string[]): EvalScore => {
+  const foundSet = [...new Set(found.map(normalizeSymbol).filter(Boolean))];
+  const expectedSet = [...new Set(expected.map(normalizeSymbol).filter(Boolean))];
+  const unexpected = foundSet.filter(name => !expectedSet.some(want => sameSymbol(name, want)));
+  const missing = expectedSet.filter(want => !foundSet.some(name => sameSymbol(name, want)));
+  const correct = foundSet.length - unexpected.length;
+  const recalled = expectedSet.length - missing.length;
+
+  return {
+    found: foundSet.length,
+    expected: expectedSet.length,
+    correct,
+    recalled,
+    precision: foundSet.length > 0 ? correct / foundSet.length : 1,
+    recall: expectedSet.length > 0 ? recalled / expectedSet.length : 1,
+    missing,
+    unexpected,
+  };
+};
@@ -0,0 +1,360 @@
+import type { ApiEntry } from '../apis';
+
+// Parts of a doc comment that end up on an API entry
+export interface DocComment {
+  description?: string;
+  params: Record<string, string>;
+  returns?: string;
+  examples: string[];
+  throws: string[];
+  deprecated?: string;
+}
+
+type SectionKind = 'description' | 'params' | 'returns' | 'throws' | 'examples' | 'deprecated' | 'other';
+
+interface Section {
+  kind: SectionKind;
+  // Tag the section came from (@param, :raises:, Args:, # Examples, ...)
+  tag: string;
+  // Text on the tag line itself
+  head: string;
+  lines: string[];
+  // One tag per item (@param, :raises:) rather than a section listing several
+  tagged?: boolean;
+  // NumPy style: "name : type" lines with the description below
+  numpy?: boolean;
+}
+
+const SECTION_NAMES: Array<[RegExp, SectionKind]> = [
+  [/^(args|arguments|parameters|params|keyword args|keyword arguments|other parameters|attributes)$/i, 'params'],
+  [/^(returns?|yields?)$/i, 'returns'],
+  [/^(raises|throws|exceptions?|errors|panics)$/i, 'throws'],
+  [/^(examples?|usage)$/i, 'examples'],
+  [/^deprecated$/i, 'deprecated'],
+  [/^(notes?|see also|references|warnings?|safety|todo)$/i, 'other'],
+];
+
+const TAG_KINDS: Record<string, SectionKind> = {
+  param: 'params',
+  arg: 'params',
+  argument: 'params',
+  parameter: 'params',
+  returns: 'returns',
+  return: 'returns',
+  yields: 'returns',
+  throws: 'throws',
+  throw: 'throws',
+  exception: 'throws',
+  raises: 'throws',
+  raise: 'throws',
+  except: 'throws',
+  example: 'examples',
+  deprecated: 'deprecated',
+};
+
+const sectionNamed = (name: string): SectionKind | undefined => {
+  return SECTION_NAMES.find(([pattern]) => pattern.test(name.trim()))?.[1];
+};
+
+const joinText = (lines: string[]): string => lines.join('\n').replace(/^\s*\n|\n\s*$/g, '').trim();
+
+// Remove the indentation shared by all non-blank lines
+const dedent = (text: string): string => {
+  const lines = text.replace(/\t/g, '    ').split('\n');
+  const indents = lines.slice(1).filter(line => line.trim()).map(line => line.match(/^ */)![0].length);
+  const indent = indents.length > 0 ? Math.min(...indents) : 0;
+  return [lines[0].trim(), ...lines.slice(1).map(line => line.substring(indent))].join('\n');
+};
+
+// Text of a /** ... */ comment without the markers and leading asterisks
+export const stripBlockComment = (block: string): string | undefined => {
+  return block
+    .replace(/^\/\*+!?/, '')
+    .replace(/\*+\/$/, '')
+    .split('\n')
+    .map(line => line.replace(/^\s*\*(?!\/) ?/, ''))
+    .join('\n')
+    .trim() || undefined;
+};
+
+// Tool directives rather than documentation: //go:generate, // eslint-disable-next-line, # noqa, # rubocop:disable, ...
+const TOOL_DIRECTIVE = /^\s*(?:\/\/(?:go:|line |export |extern |nolint)|(?:\/\/|#)\s*(?:eslint(?:-|\s|$)|prettier-ignore|@ts-|tslint:|istanbul |c8 |noqa\b|type:\s*ignore|pylint:|pyright:|mypy:|fmt:\s*(?:on|off|skip)|isort:|rubocop:|frozen_string_literal:|(?:-\*-\s*)?(?:en)?coding[:=]|nolint|NOSONAR|lint:))/;
+
+// File headers that happen to sit right above the first declaration
+const LICENSE_HEADER = /SPDX-License-Identifier|\bCopyright\s+(?:\(c\)|©|\d{4})|\bLicensed under\b/i;
+
+/**
+ * Doc comment written directly above the declaration that starts at
+ * `index`: a `/** ... *\/` block, or consecutive `///`, `//!` or `#` lines
+ * (plain `//` lines only with `plainLineComments`, as in Go). Decorators,
+ * annotations, attributes and tool directives are skipped, and license
+ * headers are not documentation. Comment markers are stripped.
+ */
+export const precedingDocComment = (
+  content: string,
+  index: number,
+  options: { plainLineComments?: boolean } = {}
+): string | undefined => {
+  const offset = content.substring(index, index + 200).search(/\S/);
+  const start = index + Math.max(0, offset);
+  let cursor = content.lastIndexOf('\n', start - 1);
+
+  // Lines above the declaration, nearest first, without splitting the whole file
+  const previousLine = (): string | undefined => {
+    if (cursor < 0) return undefined;
+    const from = cursor > 0 ? content.lastIndexOf('\n', cursor - 1) + 1 : 0;
+    const line = content.substring(from, cursor).replace(/\r$/, '');
+    cursor = from - 1;
+    return line;
+  };
+
+  let line = previousLine();
+  while (line !== undefined && (/^\s*(@[\w.]+|#\[|\[[A-Z]\w*)/.test(line) || TOOL_DIRECTIVE.test(line))) {
+    line = previousLine();
+  }
+  if (line === undefined) return undefined;
+
+  const last = line.trim();
+
+  if (last.endsWith('*/')) {
+    const block: string[] = [];
+    for (let current: string | undefined = line; current !== undefined; current = previousLine()) {
+      block.unshift(current);
+      if (current.includes('/*')) {
+        const text = block.join('\n');
+        const doc = stripBlockComment(text.substring(text.indexOf('/*')));
+        return doc && !LICENSE_HEADER.test(doc) ? doc : undefined;
+      }
+    }
+    return undefined;
+  }
+
+  const marker = last.match(/^(\/\/\/|\/\/!|\/\/|#(?![[!]))/)?.[1];
+  if (!marker || (marker === '//' && !options.plainLineComments)) return undefined;
+
+  const collected: string[] = [];
+  for (let current: string | undefined = line; current !== undefined; current = previousLine()) {
+    const trimmed = current.trim();
+    if (!trimmed.startsWith(marker) || (marker === '//' && trimmed.startsWith('///'))) break;
+    if (!TOOL_DIRECTIVE.test(trimmed)) {
+      collected.unshift(trimmed.substring(marker.length).replace(/^ /, ''));
+    }
+  }
+  const doc = collected.join('\n').trim();
+  return doc && !LICENSE_HEADER.test(doc) ? doc : undefined;
+};
+
+// Python docstring of the def/class whose header ends at `index`
+export const pythonDocstring = (content: string, index: number): string | undefined => {
+  const match = content
+    .substring(index)
+    .match(/^[ \t]*(?:#[^\n]*)?\r?\n(?:[ \t]*\r?\n)*[ \t]*[rRuUbB]{0,2}("""|''')([\s\S]*?)\1/);
+  return match ? dedent(match[2]).trim() || undefined : undefined;
+};
+
+// C# XML documentation (<summary>, <param name="">, <returns>, ...)
+const parseXmlDoc = (text: string): DocComment => {
+  const inline = (value: string) => value
+    .replace(/<(?:see|seealso)\s+(?:cref|href|langword)="(?:\w:)?([^"]+)"\s*\/>/g, '$1')
+    .replace(/<(?:paramref|typeparamref)\s+name="([^"]+)"\s*\/>/g, '$1')
+    .replace(/<\/?(?:c|para|b|i|code)>/g, '')
+    .replace(/[ \t]+/g, ' ')
+    .trim();
+  const element = (name: string) => text.match(new RegExp(`<${name}>([\\s\\S]*?)</${name}>`))?.[1];
+
+  const params: Record<string, string> = {};
+  for (const match of text.matchAll(/<param\s+name="([^"]+)">([\s\S]*?)<\/param>/g)) {
+    params[match[1]] = inline(match[2]);
+  }
+
+  const throws = [...text.matchAll(/<exception\s+cref="(?:\w:)?([^"]+)">([\s\S]*?)<\/exception>/g)]
+    .map(match => `${match[1]}: ${inline(match[2])}`);
+  const example = element('example');
+  const summary = element('summary');
+  const remarks = element('remarks');
+  const returns = element('returns');
+
+  return {
+    description: [summary, remarks].filter(Boolean).map(value => inline(value!)).join('\n\n') || undefined,
+    params,
+    returns: returns ? inline(returns) : undefined,
+    examples: example ? [example.replace(/<\/?code>/g, '').trim()] : [],
+    throws,
+  };
+};
+
+// Split the comment into a description and tagged sections
+const splitSections = (text: string): Section[] => {
+  const lines = text.replace(/\r/g, '').split('\n');
+  const sections: Section[] = [{ kind: 'description', tag: '', head: '', lines: [] }];
+  let inFence = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const trimmed = line.trim();
+    const current = sections[sections.length - 1];
+
+    if (trimmed.startsWith('```')) inFence = !inFence;
+    if (inFence || trimmed.startsWith('```')) {
+      current.lines.push(line);
+      continue;
+    }
+
+    // JSDoc, TSDoc, Javadoc and PHPDoc tags: @param x - text
+    const tag = trimmed.match(/^@(\w+)\s*([\s\S]*)$/);
+    if (tag) {
+      sections.push({ kind: TAG_KINDS[tag[1].toLowerCase()] || 'other', tag: tag[1], head: tag[2], lines: [], tagged: true });
+      continue;
+    }
+
+    // reStructuredText fields: :param x: text, :returns: text, :raises ValueError: text
+    const field = trimmed.match(/^:(\w+)([^:]*):\s*(.*)$/);
+    if (field && (TAG_KINDS[field[1].toLowerCase()] || /^(type|rtype|key|keyword)$/.test(field[1]))) {
+      const kind = TAG_KINDS[field[1].toLowerCase()] || (field[1] === 'key' || field[1] === 'keyword' ? 'params' : 'other');
+      // ":param int x:" names the parameter last; ":raises ValueError:" names the exception
+      const subject = kind === 'params' ? field[2].trim().split(/\s+/).pop() : field[2].trim() && `${field[2].trim()}:`;
+      sections.push({ kind, tag: field[1], head: `${subject || ''} ${field[3]}`.trim(), lines: [], tagged: true });
+      continue;
+    }
+
+    // Markdown headings (Rust): # Examples, # Errors, # Panics
+    const heading = trimmed.match(/^#{1,3}\s+(.+)$/);
+    if (heading && sectionNamed(heading[1])) {
+      sections.push({ kind: sectionNamed(heading[1])!, tag: heading[1], head: '', lines: [] });
+      continue;
+    }
+
+    // NumPy style: "Parameters" underlined with dashes
+    if (/^-{3,}$/.test((lines[i + 1] || '').trim()) && sectionNamed(trimmed)) {
+      sections.push({ kind: sectionNamed(trimmed)!, tag: trimmed, head: '', lines: [], numpy: true });
+      i++;
+      continue;
+    }
+
+    // Google style: "Args:", "Returns: text"
+    const google = line.match(/^\s{0,4}([A-Z][\w ]+):\s*(.*)$/);
+    if (google && sectionNamed(google[1])) {
+      sections.push({ kind: sectionNamed(google[1])!, tag: google[1], head: google[2], lines: [] });
+      continue;
+    }
+
+    current.lines.push(line);
+  }
+
+  return sections;
+};
+
+// Items of an Args:/Raises:/Parameters section, one per least-indented line
+const sectionItems = (lines: string[]): string[][] => {
+  const content = lines.filter(line => line.trim());
+  if (content.length === 0) return [];
+
+  const indent = Math.min(...content.map(line => line.match(/^\s*/)![0].length));
+  const items: string[][] = [];
+  for (const line of content) {
+    if (line.match(/^\s*/)![0].length === indent || items.length === 0) {
+      items.push([line.trim()]);
+    } else {
+      items[items.length - 1].push(line.trim());
+    }
+  }
+  return items;
+};
+
+/**
+ * Parse a doc comment with its markers already stripped. Understands
+ * JSDoc/TSDoc, Javadoc and PHPDoc tags, Python docstrings (Google, NumPy
+ * and reStructuredText styles), Rust doc sections and C# XML docs. Plain
+ * comments (Go) become the description.
+ */
+export const parseDocComment = (text: string): DocComment => {
+  if (/<summary>|<param\s+name=/.test(text)) {
+    return parseXmlDoc(text);
+  }
+
+  const doc: DocComment = { params: {}, examples: [], throws: [] };
+
+  for (const section of splitSections(text)) {
+    const body = joinText([section.head, ...section.lines]);
+
+    switch (section.kind) {
+      case 'description':
+        doc.description = body || undefined;
+        break;
+
+      case 'params': {
+        // Tagged: @param {T} [name=default] - text, :param T name: text
+        if (section.tagged) {
+          const match = body.match(/^(?:\{[^}]*\}\s*)?\[?([\w$.]+)(?:=[^\]]*)?\]?\s*(?:-\s*)?([\s\S]*)$/);
+          if (match) {
+            doc.params[match[1]] = match[2].replace(/\s+/g, ' ').trim();
+          }
+          break;
+        }
+
+        // Sections: "name (type): text", "name : type" (NumPy), "* `name` - text" (Rust)
+        for (const [first, ...rest] of sectionItems(section.lines)) {
+          const match = section.numpy
+            ? first.match(/^\*{0,2}([\w$]+)\s*(?::\s*(.*))?$/)
+            : first.match(/^[*-]?\s*\*{0,2}`?([\w$]+)`?\s*(?:\([^)]*\))?\s*[:–-]\s*(.*)$/);
+          if (match) {
+            const description = section.numpy ? rest.join(' ') : [match[2], ...rest].join(' ');
+            doc.params[match[1]] = description.replace(/\s+/g, ' ').trim();
+          }
+        }
+        break;
+      }
+
+      case 'returns':
+        doc.returns = body.replace(/^\{[^}]*\}\s*/, '').replace(/\s+/g, ' ').trim() || doc.returns;
+        break;
+
+      case 'throws':
+        if (section.tagged || section.head) {
+          // @throws {TypeError} text, :raises ValueError: text, Raises: ValueError
+          doc.throws.push(body.replace(/^\{([^}]*)\}\s*/, '$1: ').replace(/\s+/g, ' ').trim());
+        } else if (/^(errors|panics)$/i.test(section.tag)) {
+          doc.throws.push(body.replace(/\s+/g, ' ').trim());
+        } else {
+          for (const item of sectionItems(section.lines)) {
+            doc.throws.push(item.join(' ').replace(/\s+/g, ' ').trim());
+          }
+        }
+        break;
+
+      case 'examples': {
+        // Keep the code of fenced blocks, otherwise the whole section
+        const fenced = [...body.matchAll(/```[\w-]*\n([\s\S]*?)```/g)].map(match => match[1].trim());
+        doc.examples.push(...(fenced.length > 0 ? fenced : body ? [dedent(body).trim()] : []));
+        break;
+      }
+
+      case 'deprecated':
+        doc.deprecated = body || 'Deprecated';
+        break;
+    }
+  }
+
+  return doc;
+};
+
+// Attach a parsed doc comment to an entry and its parameters
+export const withDocComment = (entry: ApiEntry, doc: DocComment): ApiEntry => {
+  const tags = doc.deprecated !== undefined && !entry.tags.includes('deprecated')
+    ? [...entry.tags, 'deprecated']
+    : entry.tags;
+
+  return {
+    ...entry,
+    doc: doc.description || entry.doc,
+    parameters: entry.parameters.map(parameter => {
+      const name = parameter.name.replace(/^[*.]+/, '');
+      return doc.params[name] ? { ...parameter, doc: doc.params[name] } : parameter;
+    }),
+    returnDoc: doc.returns || entry.returnDoc,
+    examples: doc.examples.length > 0 ? doc.examples : entry.examples,
+    throws: doc.throws.length > 0 ? doc.throws : entry.throws,
+    deprecated: doc.deprecated || entry.deprecated,
+    tags,
+  };
+};
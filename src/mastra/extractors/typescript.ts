@@ -0,0 +1,453 @@
+import * as path from 'node:path';
+import * as ts from 'typescript';
+import { createApiEntry, type ApiEntry, type ApiEntryInit, type ApiParameter } from '../apis';
+import { parseDocComment, stripBlockComment, withDocComment } from './doc-comments';
+
+// Another file of the same package, used to resolve imports and re-exports
+export interface DeclarationFile {
+  path: string;
+  content: string;
+}
+
+// Virtual root the in-memory files are mounted under
+const ROOT = '/package';
+
+// Type aliases and inferred types can be enormous; keep signatures readable
+const MAX_TYPE_LENGTH = 500;
+
+const COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ESNext,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  allowJs: false,
+  noLib: true,
+  noEmit: true,
+  skipLibCheck: true,
+  types: [],
+};
+
+const toVirtualPath = (filePath: string): string => {
+  return path.posix.join(ROOT, path.posix.normalize(filePath.replace(/\\/g, '/')).replace(/^(\.\/)+|^\/+/, ''));
+};
+
+// Compiler host that only sees the files handed to the extractor
+const createHost = (files: Map<string, string>): ts.CompilerHost => ({
+  getSourceFile: (fileName, languageVersion) => {
+    const content = files.get(fileName);
+    return content === undefined ? undefined : ts.createSourceFile(fileName, content, languageVersion, true);
+  },
+  getDefaultLibFileName: () => `${ROOT}/lib.d.ts`,
+  writeFile: () => {},
+  getCurrentDirectory: () => ROOT,
+  getCanonicalFileName: fileName => fileName,
+  useCaseSensitiveFileNames: () => true,
+  getNewLine: () => '\n',
+  fileExists: fileName => files.has(fileName),
+  readFile: fileName => files.get(fileName),
+  directoryExists: dir => [...files.keys()].some(fileName => fileName.startsWith(`${dir.replace(/\/$/, '')}/`)),
+  getDirectories: () => [],
+});
+
+// Source text of a node on a single line
+const text = (node: ts.Node): string => node.getText().replace(/\s+/g, ' ').trim();
+
+const truncate = (value: string): string => {
+  return value.length > MAX_TYPE_LENGTH ? `${value.substring(0, MAX_TYPE_LENGTH)} …` : value;
+};
+
+const hasModifier = (node: ts.Node, kind: ts.SyntaxKind): boolean => {
+  return ts.canHaveModifiers(node) && (ts.getModifiers(node) || []).some(modifier => modifier.kind === kind);
+};
+
+// JSDoc/TSDoc block attached to a declaration, without the comment markers
+const docText = (node: ts.Node): string | undefined => {
+  const docs = ts.getJSDocCommentsAndTags(node).filter(ts.isJSDoc);
+  return docs.length > 0 ? stripBlockComment(docs[docs.length - 1].getText()) : undefined;
+};
+
+// Identifier a package name would be imported as: `escape-string-regexp` -> `escapeStringRegexp`
+const identifierOf = (importPath: string): string => {
+  const base = importPath.replace(/^@[^/]+\//, '').split('/').pop() || importPath;
+  return base.replace(/[^A-Za-z0-9_$]+(.)?/g, (_, next?: string) => next ? next.toUpperCase() : '');
+};
+
+/**
+ * Name a default export is documented under: the declared name of the
+ * function, class or value (`export default function escape`,
+ * `export default Foo`), else the package name. `default` is how it is
+ * imported, not what it is called.
+ */
+const defaultExportName = (checker: ts.TypeChecker, symbol: ts.Symbol, importPath?: string): string => {
+  const target = symbol.flags & ts.SymbolFlags.Alias ? checker.getAliasedSymbol(symbol) : symbol;
+  // `_default` is the placeholder tsc emits for `export default <expression>`
+  const named = (name: string) => name !== ts.InternalSymbolName.Default && name !== ts.InternalSymbolName.ExportEquals && name !== '_default';
+  if (named(target.name)) return target.name;
+  for (const declaration of target.declarations || []) {
+    const name = ts.getNameOfDeclaration(declaration);
+    if (name && ts.isIdentifier(name) && named(name.text)) return name.text;
+  }
+  return (importPath && identifierOf(importPath)) || 'default';
+};
+
+// Modifiers worth keeping on an entry
+const tagsOf = (node: ts.Node): string[] => {
+  const tags: string[] = [];
+  if (hasModifier(node, ts.SyntaxKind.StaticKeyword)) tags.push('static');
+  if (hasModifier(node, ts.SyntaxKind.AbstractKeyword)) tags.push('abstract');
+  if (hasModifier(node, ts.SyntaxKind.ReadonlyKeyword)) tags.push('readonly');
+  if (hasModifier(node, ts.SyntaxKind.ProtectedKeyword)) tags.push('protected');
+  if (hasModifier(node, ts.SyntaxKind.AsyncKeyword)) tags.push('async');
+  if (ts.getJSDocDeprecatedTag(node)) tags.push('deprecated');
+  return tags;
+};
+
+/**
+ * Collects API entries by walking declarations with the type checker.
+ * Aliases (re-exports, `export =`, `export { x as y }`) are resolved to
+ * their targets, and merged declarations (overloads, namespace + function,
+ * interface + class) each produce their own entries.
+ */
+class ApiCollector {
+  readonly apis: ApiEntry[] = [];
+  private readonly visited = new Set<string>();
+
+  constructor(private readonly checker: ts.TypeChecker, private readonly importPath?: string) {}
+
+  addSymbol(symbol: ts.Symbol, name: string, prefix = ''): void {
+    const target = symbol.flags & ts.SymbolFlags.Alias ? this.checker.getAliasedSymbol(symbol) : symbol;
+    const qualified = prefix ? `${prefix}.${name}` : name;
+
+    // Namespaces can re-export their parents; stop at the first repeat
+    if (this.visited.has(qualified)) return;
+    this.visited.add(qualified);
+
+    const declarations = target.declarations || [];
+    const hasOverloads = declarations.filter(ts.isFunctionDeclaration).length > 1;
+
+    for (const declaration of declarations) {
+      // The implementation of an overloaded function is not callable from outside
+      if (hasOverloads && ts.isFunctionDeclaration(declaration) && declaration.body) continue;
+      this.addDeclaration(declaration, name, prefix, target);
+    }
+  }
+
+  // Members of a plain value such as `export = { a: 1, b() {} }`, which is not an alias to resolve
+  addAssignedValue(expression: ts.Expression): void {
+    const type = this.checker.getTypeAtLocation(expression);
+    for (const property of this.checker.getPropertiesOfType(type)) {
+      const declaration = property.valueDeclaration;
+      if (!declaration || this.visited.has(property.name)) continue;
+
+      // `{ helper }` and `{ helper: helper }` export a declaration that can be walked as usual
+      const referenced = ts.isShorthandPropertyAssignment(declaration)
+        ? this.checker.getShorthandAssignmentValueSymbol(declaration)
+        : ts.isPropertyAssignment(declaration) && ts.isIdentifier(declaration.initializer)
+          ? this.checker.getSymbolAtLocation(declaration.initializer)
+          : undefined;
+      if (referenced) {
+        this.addSymbol(referenced, property.name);
+        continue;
+      }
+
+      this.visited.add(property.name);
+      const base = { name: property.name, qualifiedName: property.name };
+      const fn = ts.isMethodDeclaration(declaration)
+        ? declaration
+        : ts.isPropertyAssignment(declaration) && (ts.isFunctionExpression(declaration.initializer) || ts.isArrowFunction(declaration.initializer))
+          ? declaration.initializer
+          : undefined;
+
+      if (fn) {
+        const returnType = this.returnType(fn);
+        this.push({
+          ...base,
+          kind: 'function',
+          signature: this.callSignature(property.name, fn, returnType),
+          parameters: this.parameters(fn),
+          returnType,
+          typeParameters: this.typeParameters(fn),
+        }, declaration);
+      } else {
+        const valueType = truncate(this.checker.typeToString(this.checker.getTypeOfSymbolAtLocation(property, expression)));
+        this.push({
+          ...base,
+          kind: 'variable',
+          signature: `const ${property.name}: ${valueType}`,
+          returnType: valueType,
+        }, declaration);
+      }
+    }
+  }
+
+  // Top-level statements of a script without imports or exports
+  addGlobalStatement(statement: ts.Statement): void {
+    if (ts.isModuleDeclaration(statement) && (ts.isStringLiteral(statement.name) || statement.name.text === 'global')) {
+      // `declare module "name" { ... }` and `declare global { ... }`
+      if (statement.body && ts.isModuleBlock(statement.body)) {
+        statement.body.statements.forEach(inner => this.addGlobalStatement(inner));
+      }
+      return;
+    }
+
+    if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        const symbol = this.checker.getSymbolAtLocation(declaration.name);
+        if (symbol) this.addSymbol(symbol, symbol.name);
+      }
+      return;
+    }
+
+    const name = (statement as ts.DeclarationStatement).name;
+    const symbol = name && this.checker.getSymbolAtLocation(name);
+    if (symbol) this.addSymbol(symbol, symbol.name);
+  }
+
+  private push(init: Omit<ApiEntryInit, 'origin'>, node: ts.Node): void {
+    const sourceFile = node.getSourceFile();
+    const doc = docText(node);
+
+    const entry = createApiEntry({
+      ...init,
+      origin: 'typescript',
+      importPath: this.importPath,
+      location: {
+        path: path.posix.relative(ROOT, sourceFile.fileName),
+        line: sourceFile.getLineAndCharacterOfPosition(node.getStart()).line + 1,
+      },
+      tags: [...(init.tags || []), ...tagsOf(node)],
+    });
+    this.apis.push(doc ? withDocComment(entry, parseDocComment(doc)) : entry);
+  }
+
+  private typeParameters(node: { typeParameters?: ts.NodeArray<ts.TypeParameterDeclaration> }): string[] {
+    return node.typeParameters ? node.typeParameters.map(text) : [];
+  }
+
+  private parameters(node: ts.SignatureDeclaration): ApiParameter[] {
+    return node.parameters.map(parameter => ({
+      name: text(parameter.name),
+      type: parameter.type ? text(parameter.type) : undefined,
+      optional: Boolean(parameter.questionToken || parameter.initializer),
+      default: parameter.initializer ? text(parameter.initializer) : undefined,
+      rest: parameter.dotDotDotToken ? true : undefined,
+    }));
+  }
+
+  // "name<T>(a: T, b?: number): R" exactly as declared
+  private callSignature(prefix: string, node: ts.SignatureDeclaration, returnType?: string): string {
+    const typeParameters = node.typeParameters ? `<${node.typeParameters.map(text).join(', ')}>` : '';
+    const parameters = node.parameters.map(text).join(', ');
+    return `${prefix}${typeParameters}(${parameters})${returnType ? `: ${returnType}` : ''}`;
+  }
+
+  // Declared return type, or the inferred one for implementation files
+  private returnType(node: ts.SignatureDeclaration): string {
+    if (node.type) return text(node.type);
+    const signature = this.checker.getSignatureFromDeclaration(node);
+    return signature ? this.checker.typeToString(this.checker.getReturnTypeOfSignature(signature)) : 'void';
+  }
+
+  // "Name<T> extends Base implements Other"
+  private header(name: string, node: ts.ClassDeclaration | ts.InterfaceDeclaration | ts.TypeAliasDeclaration): string {
+    const typeParameters = node.typeParameters ? `<${node.typeParameters.map(text).join(', ')}>` : '';
+    const heritage = ts.isTypeAliasDeclaration(node) ? '' : (node.heritageClauses || []).map(clause => ` ${text(clause)}`).join('');
+    return `${name}${typeParameters}${heritage}`;
+  }
+
+  private addDeclaration(node: ts.Declaration, name: string, prefix: string, symbol: ts.Symbol): void {
+    const qualified = prefix ? `${prefix}.${name}` : name;
+    const base = { name, qualifiedName: qualified, owner: prefix || undefined };
+
+    if (ts.isFunctionDeclaration(node)) {
+      const returnType = this.returnType(node);
+      this.push({
+        ...base,
+        kind: 'function',
+        signature: this.callSignature(qualified, node, returnType),
+        parameters: this.parameters(node),
+        returnType,
+        typeParameters: this.typeParameters(node),
+      }, node);
+    } else if (ts.isClassDeclaration(node)) {
+      const abstract = hasModifier(node, ts.SyntaxKind.AbstractKeyword) ? 'abstract ' : '';
+      this.push({
+        ...base,
+        kind: 'class',
+        signature: `${abstract}class ${this.header(qualified, node)}`,
+        typeParameters: this.typeParameters(node),
+      }, node);
+      this.addMembers(node.members, qualified);
+    } else if (ts.isInterfaceDeclaration(node)) {
+      this.push({
+        ...base,
+        kind: 'interface',
+        signature: `interface ${this.header(qualified, node)}`,
+        typeParameters: this.typeParameters(node),
+      }, node);
+      this.addMembers(node.members, qualified);
+    } else if (ts.isTypeAliasDeclaration(node)) {
+      this.push({
+        ...base,
+        kind: 'type',
+        signature: `type ${this.header(qualified, node)} = ${truncate(text(node.type))}`,
+        typeParameters: this.typeParameters(node),
+      }, node);
+    } else if (ts.isEnumDeclaration(node)) {
+      this.push({
+        ...base,
+        kind: 'enum',
+        signature: `enum ${qualified} { ${node.members.map(text).join(', ')} }`,
+      }, node);
+    } else if (ts.isVariableDeclaration(node)) {
+      const keyword = node.parent.flags & ts.NodeFlags.Const ? 'const' : node.parent.flags & ts.NodeFlags.Let ? 'let' : 'var';
+      const type = truncate(node.type ? text(node.type) : this.checker.typeToString(this.checker.getTypeAtLocation(node)));
+      this.push({
+        ...base,
+        kind: 'variable',
+        signature: `${keyword} ${qualified}: ${type}`,
+        returnType: type,
+        tags: keyword === 'const' ? ['readonly'] : [],
+      }, node.parent.parent);
+    } else if (ts.isModuleDeclaration(node) || ts.isSourceFile(node)) {
+      // Namespaces (merged with functions, classes or enums) and `export * as ns`
+      for (const member of this.checker.getExportsOfModule(symbol)) {
+        this.addSymbol(member, member.name, qualified);
+      }
+    }
+  }
+
+  private addMembers(members: ts.NodeArray<ts.ClassElement | ts.TypeElement>, owner: string): void {
+    for (const member of members) {
+      if (hasModifier(member, ts.SyntaxKind.PrivateKeyword) || (member.name && ts.isPrivateIdentifier(member.name))) {
+        continue;
+      }
+
+      const memberName = member.name ? text(member.name) : '';
+      const optional = (member as ts.PropertySignature).questionToken ? '?' : '';
+      const modifiers = hasModifier(member, ts.SyntaxKind.StaticKeyword) ? 'static ' : '';
+      const base = { name: memberName, owner, tags: optional ? ['optional'] : [] };
+
+      if (ts.isConstructorDeclaration(member) || ts.isConstructSignatureDeclaration(member)) {
+        this.push({
+          ...base,
+          name: 'constructor',
+          kind: 'constructor',
+          signature: this.callSignature(`new ${owner}`, member),
+          parameters: this.parameters(member),
+          returnType: owner,
+          typeParameters: this.typeParameters(member),
+        }, member);
+      } else if (ts.isCallSignatureDeclaration(member)) {
+        // Callable interfaces are invoked through the owner itself
+        const returnType = this.returnType(member);
+        this.push({
+          ...base,
+          name: owner.split('.').pop() || owner,
+          qualifiedName: owner,
+          kind: 'function',
+          signature: this.callSignature(owner, member, returnType),
+          parameters: this.parameters(member),
+          returnType,
+          typeParameters: this.typeParameters(member),
+        }, member);
+      } else if (ts.isMethodDeclaration(member) || ts.isMethodSignature(member)) {
+        // Overloaded methods in implementation files: skip the implementation
+        if (ts.isMethodDeclaration(member) && member.body && members.filter(other => other.name && text(other.name) === memberName).length > 1) {
+          continue;
+        }
+        const returnType = this.returnType(member);
+        this.push({
+          ...base,
+          kind: 'method',
+          signature: this.callSignature(`${modifiers}${owner}.${memberName}${optional}`, member, returnType),
+          parameters: this.parameters(member),
+          returnType,
+          typeParameters: this.typeParameters(member),
+        }, member);
+      } else if (ts.isPropertyDeclaration(member) || ts.isPropertySignature(member)) {
+        const typeNode = member.type;
+        // Function-typed properties read like methods
+        if (typeNode && ts.isFunctionTypeNode(typeNode)) {
+          const returnType = text(typeNode.type);
+          this.push({
+            ...base,
+            kind: 'method',
+            signature: this.callSignature(`${modifiers}${owner}.${memberName}${optional}`, typeNode, returnType),
+            parameters: this.parameters(typeNode),
+            returnType,
+            typeParameters: this.typeParameters(typeNode),
+          }, member);
+        } else {
+          const readonly = hasModifier(member, ts.SyntaxKind.ReadonlyKeyword) ? 'readonly ' : '';
+          const type = typeNode ? truncate(text(typeNode)) : 'any';
+          this.push({
+            ...base,
+            kind: 'property',
+            signature: `${modifiers}${readonly}${owner}.${memberName}${optional}: ${type}`,
+            returnType: type,
+          }, member);
+        }
+      } else if (ts.isGetAccessorDeclaration(member)) {
+        const type = member.type ? truncate(text(member.type)) : 'any';
+        this.push({
+          ...base,
+          kind: 'property',
+          signature: `${modifiers}${owner}.${memberName}: ${type}`,
+          returnType: type,
+        }, member);
+      }
+    }
+  }
+}
+
+/**
+ * Extract the public API of a TypeScript declaration or source file with
+ * the TypeScript compiler. Exported symbols are walked through the type
+ * checker, so re-exports (`export * from`, `export { a as b }`) resolve into
+ * the other `files` of the package. Files without imports or exports (global
+ * `.d.ts` scripts) contribute their ambient declarations instead.
+ */
+export const extractTypeScriptApis = (
+  content: string,
+  options: { path?: string; files?: DeclarationFile[]; importPath?: string } = {}
+): ApiEntry[] => {
+  const entry = toVirtualPath(options.path || 'index.d.ts');
+  const files = new Map<string, string>();
+  for (const file of options.files || []) {
+    files.set(toVirtualPath(file.path), file.content);
+  }
+  files.set(entry, content);
+
+  const program = ts.createProgram({ rootNames: [entry], options: COMPILER_OPTIONS, host: createHost(files) });
+  const checker = program.getTypeChecker();
+  const sourceFile = program.getSourceFile(entry);
+  if (!sourceFile) return [];
+
+  const collector = new ApiCollector(checker, options.importPath);
+  const moduleSymbol = checker.getSymbolAtLocation(sourceFile);
+
+  if (!moduleSymbol) {
+    sourceFile.statements.forEach(statement => collector.addGlobalStatement(statement));
+    return collector.apis;
+  }
+
+  // `export = value` exposes the value itself, including any merged namespace
+  const exportEquals = moduleSymbol.exports?.get(ts.InternalSymbolName.ExportEquals);
+  if (exportEquals) {
+    // Only `export = identifier` is an alias; object literals and other expressions are walked by their properties
+    if (exportEquals.flags & ts.SymbolFlags.Alias) {
+      const target = checker.getAliasedSymbol(exportEquals);
+      collector.addSymbol(target, defaultExportName(checker, target, options.importPath));
+    } else {
+      const assignment = exportEquals.declarations?.find(ts.isExportAssignment);
+      if (assignment) collector.addAssignedValue(assignment.expression);
+    }
+    return collector.apis;
+  }
+
+  for (const symbol of checker.getExportsOfModule(moduleSymbol)) {
+    const name = symbol.name === ts.InternalSymbolName.Default ? defaultExportName(checker, symbol, options.importPath) : symbol.name;
+    collector.addSymbol(symbol, name);
+  }
+  return collector.apis;
+};
@@ -13,6 +13,8 @@ import { extractAllApis } from './tools/extract-all-apis';
 import { analyzeRepository } from './tools/analyze-repository';
 import { scrapeDocumentation } from './tools/scrape-documentation';
 import { fetchRegistryDocs } from './tools/fetch-registry-docs';
+import { resolveDependencies } from './tools/resolve-dependencies';
+import { listWorkspaces } from './tools/list-workspaces';
 
 // Import agents
 import { documentationAnalyzer } from './agents/documentation-analyzer';
@@ -22,6 +24,9 @@ import { comprehensiveDocGenerator } from './agents/comprehensive-doc-generator'
 
 // Import workflows
 import { generateContextIndex } from './workflows/generate-context-index';
+import { generateDependencyIndexes } from './workflows/generate-dependency-indexes';
+import { generateWorkspaceIndexes } from './workflows/generate-workspace-indexes';
+import { compareApiVersions } from './workflows/compare-api-versions';
 
 export const mastra = new Mastra({
   storage: new LibSQLStore({
@@ -36,5 +41,8 @@ export const mastra = new Mastra({
   },
   workflows: {
     'generate-context-index': generateContextIndex,
+    'generate-dependency-indexes': generateDependencyIndexes,
+    'generate-workspace-indexes': generateWorkspaceIndexes,
+    'compare-api-versions': compareApiVersions,
   },
 });
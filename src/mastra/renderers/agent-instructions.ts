@@ -0,0 +1,47 @@
+import type { ContextIndex } from './context-index';
+import { apiBullet, isApiSection, isConceptSection, isPatternSection, sectionBody, summaryOf } from './sections';
+
+// Instructions body shared by AGENTS.md, CLAUDE.md and Cursor rules
+const instructions = (index: ContextIndex, level: number): string => {
+  const heading = '#'.repeat(level);
+  let text = `${summaryOf(index)}\n\n`;
+
+  if (index.source) {
+    text += `Written for ${index.source.replace(/^Source:\s*/, '')}. Only use the APIs listed here; check the source before relying on anything else.\n\n`;
+  }
+
+  for (const section of index.sections.filter(isConceptSection)) {
+    text += `${heading} ${section.title}\n\n${sectionBody(section)}\n\n`;
+  }
+
+  if (index.apis.length > 0) {
+    text += `${heading} Key APIs\n\n${index.apis.map(apiBullet).join('\n')}\n\n`;
+  } else {
+    for (const section of index.sections.filter(isApiSection)) {
+      text += `${heading} ${section.title}\n\n${section.content}\n\n`;
+    }
+  }
+
+  for (const section of index.sections.filter(isPatternSection)) {
+    text += `${heading} ${section.title}\n\n${sectionBody(section)}\n\n`;
+  }
+
+  return text.trimEnd() + '\n';
+};
+
+/**
+ * AGENTS.md / CLAUDE.md fragment: one "## name" section meant to be pasted
+ * into (or included from) the project's instruction file.
+ */
+export const renderAgentInstructions = (index: ContextIndex): string => {
+  return `## ${index.name}\n\n${instructions(index, 3)}`;
+};
+
+/**
+ * Cursor project rule (.cursor/rules/<name>.mdc). It is attached on request,
+ * so the description says when it applies.
+ */
+export const renderCursorRule = (index: ContextIndex): string => {
+  const description = `${index.name}${index.ref ? ` ${index.ref}` : ''} API reference and conventions. Use when writing or reviewing code that uses ${index.name}.`;
+  return `---\ndescription: ${description.replace(/\n/g, ' ')}\nglobs:\nalwaysApply: false\n---\n\n# ${index.name}\n\n${instructions(index, 2)}`;
+};
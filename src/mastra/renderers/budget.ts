@@ -0,0 +1,265 @@
+import { z } from 'zod';
+import { apiImportance, collapseOverloads, type ApiEntry } from '../apis';
+import { estimateTokens } from '../utils/tokens';
+import type { ContextIndex, IndexItem, IndexSection } from './context-index';
+import { apiBullet, isApiSection, isConceptSection, isPatternSection, isPurposeSection } from './sections';
+
+// Compression steps, applied in this order until the output fits
+export const compressionTierSchema = z.enum([
+  'shorten-descriptions',
+  'collapse-overloads',
+  'drop-sections',
+  'drop-members',
+  'trim-sections',
+]);
+
+export const budgetReportSchema = z.object({
+  tokenBudget: z.number(),
+  tokensBefore: z.number(),
+  tokensAfter: z.number(),
+  fits: z.boolean(),
+  tiers: z.array(compressionTierSchema),
+  apisBefore: z.number(),
+  apisAfter: z.number(),
+  collapsedOverloads: z.number(),
+  droppedSections: z.array(z.string()),
+  // APIs moved out of the main file, and the appendix files holding them
+  movedApis: z.number(),
+  appendixFiles: z.array(z.string()),
+});
+
+export type CompressionTier = z.infer<typeof compressionTierSchema>;
+export type BudgetReport = z.infer<typeof budgetReportSchema>;
+
+// Longest description kept once descriptions are shortened
+const SHORT_DESCRIPTION_LENGTH = 160;
+// Bullets per section kept by the last tier
+const TRIMMED_ITEM_COUNT = 3;
+
+const firstSentence = (text: string): string => {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  const sentence = flat.match(/^.+?[.!?](?=\s|$)/)?.[0] || flat;
+  return sentence.length > SHORT_DESCRIPTION_LENGTH ? `${sentence.substring(0, SHORT_DESCRIPTION_LENGTH - 1).trimEnd()}…` : sentence;
+};
+
+// "Description - more detail - even more" -> "Description"
+const shortenItem = (item: IndexItem): IndexItem => ({
+  name: item.name,
+  description: firstSentence(item.description.split(/\s+[-–—]\s+/)[0]),
+});
+
+const bulletContent = (items: IndexItem[]): string => {
+  return items.map(item => `* **${item.name}** - ${item.description}`).join('\n');
+};
+
+// Doc summary only: no examples, parameter docs or return and throws details
+const shortenEntry = (entry: ApiEntry): ApiEntry => ({
+  ...entry,
+  doc: entry.doc ? firstSentence(entry.doc.split(/\n\s*\n/)[0]) : undefined,
+  returnDoc: undefined,
+  examples: [],
+  throws: [],
+  parameters: entry.parameters.map(({ doc, ...parameter }) => parameter),
+});
+
+// API sections are rewritten from the (possibly reduced) entries once compression starts.
+// The list goes into the first API section only; further groups the model made would repeat it
+const withApiSections = (index: ContextIndex): ContextIndex => {
+  const first = index.sections.findIndex(isApiSection);
+  return {
+    ...index,
+    sections: index.sections
+      .map((section, position) => position === first
+        ? { ...section, content: index.apis.map(apiBullet).join('\n') || 'All APIs were moved to the appendix files.', items: [] }
+        : section)
+      .filter((section, position) => position === first || !isApiSection(section)),
+  };
+};
+
+// Most important entries first; ties keep their original order
+const rankEntries = (entries: ApiEntry[]): ApiEntry[] => {
+  return entries
+    .map((entry, position) => ({ entry, position, score: apiImportance(entry) }))
+    .sort((a, b) => b.score - a.score || a.position - b.position)
+    .map(({ entry }) => entry);
+};
+
+// Note in the main file pointing at the appendix files; long runs name the first and last
+const appendixSection = (moved: number, fileNames: string[]): IndexSection => {
+  const files = fileNames.length > 2
+    ? `\`${fileNames[0]}\` to \`${fileNames[fileNames.length - 1]}\` (${fileNames.length} files)`
+    : fileNames.map(name => `\`${name}\``).join(', ');
+  return {
+    title: 'Appendix',
+    content: `${moved} more APIs were moved out of this file to fit the token budget: ${files}.`,
+    items: [],
+  };
+};
+
+export interface BudgetedOutput {
+  index: ContextIndex;
+  // Indexes holding the APIs moved out of the main one, each within the budget
+  appendices: ContextIndex[];
+  report: BudgetReport;
+}
+
+/**
+ * Fit an index into `tokenBudget` tokens as rendered by `render`. Tiers are
+ * applied in order, and only as far as needed: shorten descriptions,
+ * collapse overloads, drop secondary sections (architecture, roadmap, ...),
+ * move the least important APIs into appendix indexes, and finally cut
+ * concept and pattern lists down to a few bullets.
+ */
+export const fitToBudget = (
+  index: ContextIndex,
+  tokenBudget: number,
+  render: (index: ContextIndex) => string,
+  appendixName: (part: number) => string
+): BudgetedOutput => {
+  const measure = (candidate: ContextIndex) => estimateTokens(render(candidate));
+  // Indexes without extracted entries keep the API section as written
+  const withApis = (candidate: ContextIndex) => index.apis.length > 0 ? withApiSections(candidate) : candidate;
+  const tokensBefore = measure(index);
+  const tiers: CompressionTier[] = [];
+  let current = index;
+  let collapsedOverloads = 0;
+  let droppedSections: string[] = [];
+  let moved: ApiEntry[] = [];
+
+  const report = (fitted: ContextIndex, appendixFiles: string[]): BudgetReport => {
+    const tokensAfter = measure(fitted);
+    return {
+      tokenBudget,
+      tokensBefore,
+      tokensAfter,
+      fits: tokensAfter <= tokenBudget,
+      tiers,
+      apisBefore: index.apis.length,
+      apisAfter: fitted.apis.length,
+      collapsedOverloads,
+      droppedSections,
+      movedApis: moved.length,
+      appendixFiles,
+    };
+  };
+
+  if (tokensBefore <= tokenBudget) {
+    return { index, appendices: [], report: report(index, []) };
+  }
+
+  const steps: Array<[CompressionTier, () => void]> = [
+    ['shorten-descriptions', () => {
+      current = withApis({
+        ...current,
+        purpose: current.purpose.split(/\n\s*\n/)[0],
+        sections: current.sections.map(section => {
+          if (isPurposeSection(section)) return { ...section, content: section.content.split(/\n\s*\n/)[0] };
+          if (section.items.length === 0 || isApiSection(section)) return section;
+          const items = section.items.map(shortenItem);
+          return { ...section, items, content: bulletContent(items) };
+        }),
+        apis: current.apis.map(shortenEntry),
+      });
+    }],
+    ['collapse-overloads', () => {
+      const apis = collapseOverloads(current.apis);
+      collapsedOverloads = current.apis.length - apis.length;
+      current = withApis({ ...current, apis });
+    }],
+    ['drop-sections', () => {
+      const keep = (section: IndexSection) => isPurposeSection(section) || isApiSection(section) || isConceptSection(section) || isPatternSection(section);
+      droppedSections = current.sections.filter(section => !keep(section)).map(section => section.title);
+      current = { ...current, sections: current.sections.filter(keep) };
+    }],
+    ['drop-members', () => {
+      // Keep the largest number of top-ranked entries that fits, in their original order
+      const ranked = rankEntries(current.apis);
+      const withTop = (count: number): ContextIndex => {
+        const kept = new Set(ranked.slice(0, count));
+        // Leave room for the note naming the appendix files
+        const note = count < ranked.length ? [appendixSection(ranked.length - count, [appendixName(1), appendixName(99), appendixName(100)])] : [];
+        return withApis({ ...current, apis: current.apis.filter(entry => kept.has(entry)), sections: [...current.sections, ...note] });
+      };
+      let low = 0;
+      let high = ranked.length;
+      while (low < high) {
+        const middle = Math.ceil((low + high) / 2);
+        if (measure(withTop(middle)) <= tokenBudget) low = middle;
+        else high = middle - 1;
+      }
+      const kept = new Set(ranked.slice(0, low));
+      moved = current.apis.filter(entry => !kept.has(entry));
+      current = withApis({ ...current, apis: current.apis.filter(entry => kept.has(entry)) });
+    }],
+    ['trim-sections', () => {
+      current = {
+        ...current,
+        sections: current.sections.map(section => section.items.length > TRIMMED_ITEM_COUNT && !isApiSection(section)
+          ? { ...section, items: section.items.slice(0, TRIMMED_ITEM_COUNT), content: bulletContent(section.items.slice(0, TRIMMED_ITEM_COUNT)) }
+          : section),
+      };
+    }],
+  ];
+
+  for (const [tier, apply] of steps) {
+    apply();
+    tiers.push(tier);
+    if (measure(current) <= tokenBudget) break;
+  }
+
+  // Moved entries keep their full detail, split into appendices that each fit the budget
+  const appendices: ContextIndex[] = [];
+  if (moved.length > 0) {
+    const purpose = `APIs of ${index.name} moved out of the main index to fit a ${tokenBudget}-token budget.`;
+    const shell = (apis: ApiEntry[], part: number): ContextIndex => ({
+      name: `${index.name} (appendix ${part})`,
+      repoUrl: index.repoUrl,
+      ref: index.ref,
+      commitSha: index.commitSha,
+      source: index.source,
+      purpose,
+      sections: [{ title: 'Overall Purpose', content: purpose, items: [] }],
+      apis,
+    });
+    const overhead = measure(shell([], 1));
+    let part: ApiEntry[] = [];
+    let size = overhead;
+    // Overloads collapsed in the main file come back in full
+    const movedKeys = new Set(moved.map(entry => `${entry.kind}:${entry.qualifiedName}`));
+    for (const entry of index.apis.filter(entry => movedKeys.has(`${entry.kind}:${entry.qualifiedName}`))) {
+      const cost = measure(shell([entry], 1)) - overhead;
+      if (part.length > 0 && size + cost > tokenBudget) {
+        appendices.push(shell(part, appendices.length + 1));
+        part = [];
+        size = overhead;
+      }
+      part.push(entry);
+      size += cost;
+    }
+    appendices.push(shell(part, appendices.length + 1));
+  }
+
+  const appendixFiles = appendices.map((_, position) => appendixName(position + 1));
+  if (appendixFiles.length > 0) {
+    current = { ...current, sections: [...current.sections, appendixSection(moved.length, appendixFiles)] };
+  }
+
+  return { index: current, appendices, report: report(current, appendixFiles) };
+};
+
+// One line for logs and the CLI: "31,200 -> 7,950 tokens (budget 8,000): ..."
+export const describeBudgetReport = (report: BudgetReport): string => {
+  const changes = [
+    report.tiers.includes('shorten-descriptions') && 'shortened descriptions',
+    report.collapsedOverloads > 0 && `collapsed ${report.collapsedOverloads} overloads`,
+    report.droppedSections.length > 0 && `dropped ${report.droppedSections.length} sections (${report.droppedSections.join(', ')})`,
+    report.movedApis > 0 && `moved ${report.movedApis} of ${report.apisBefore} APIs to ${report.appendixFiles.length} appendix file(s)`,
+    report.tiers.includes('trim-sections') && `cut section lists to ${TRIMMED_ITEM_COUNT} bullets`,
+  ].filter(Boolean);
+  const cut = report.tokensBefore > 0 ? Math.round((1 - report.tokensAfter / report.tokensBefore) * 100) : 0;
+
+  return `${report.tokensBefore.toLocaleString('en-US')} -> ${report.tokensAfter.toLocaleString('en-US')} tokens `
+    + `(budget ${report.tokenBudget.toLocaleString('en-US')}, ${cut}% cut)`
+    + (changes.length > 0 ? `: ${changes.join(', ')}` : '')
+    + (report.fits ? '' : ' - still over budget');
+};
@@ -0,0 +1,46 @@
+import { z } from 'zod';
+import { apiEntrySchema } from '../apis';
+
+// "**Name** - description" bullet of a section
+export const indexItemSchema = z.object({
+  name: z.string(),
+  description: z.string(),
+});
+
+export const indexSectionSchema = z.object({
+  title: z.string(),
+  // Section text as written, bullets included
+  content: z.string(),
+  items: z.array(indexItemSchema),
+});
+
+/**
+ * Everything a generated index says about one library, independent of the
+ * layout it is written in. Every output format is rendered from this.
+ */
+export const contextIndexSchema = z.object({
+  name: z.string(),
+  repoUrl: z.string(),
+  ref: z.string().optional(),
+  commitSha: z.string().optional(),
+  // "Source: <url> @ `ref` (commit `sha`)" line identifying the version
+  source: z.string().optional(),
+  purpose: z.string(),
+  sections: z.array(indexSectionSchema),
+  apis: z.array(apiEntrySchema),
+});
+
+export const outputFormatSchema = z.enum([
+  'markdown',
+  'json',
+  'llms-txt',
+  'llms-full-txt',
+  'agents-md',
+  'claude-md',
+  'cursor-rules',
+]);
+
+export type IndexItem = z.infer<typeof indexItemSchema>;
+export type IndexSection = z.infer<typeof indexSectionSchema>;
+export type ContextIndex = z.infer<typeof contextIndexSchema>;
+export type OutputFormat = z.infer<typeof outputFormatSchema>;
@@ -0,0 +1,186 @@
+import type { ApiEntry } from '../apis';
+import type { ContextIndex, IndexItem, IndexSection, OutputFormat } from './context-index';
+import { renderMarkdown } from './markdown';
+import { renderJson } from './json';
+import { renderLlmsTxt, renderLlmsFullTxt } from './llms-txt';
+import { renderAgentInstructions, renderCursorRule } from './agent-instructions';
+import { isPurposeSection } from './sections';
+import { fitToBudget, type BudgetReport } from './budget';
+import { shardContextIndex } from './shards';
+
+export * from './context-index';
+export { budgetReportSchema, describeBudgetReport, type BudgetReport } from './budget';
+export { groupByModule, type Shard } from './shards';
+
+// One rendered file; `fileName` may include directories (.cursor/rules/...)
+export interface RenderedOutput {
+  format: OutputFormat;
+  fileName: string;
+  mediaType: string;
+  content: string;
+}
+
+interface FormatDefinition {
+  label: string;
+  mediaType: string;
+  // File name for a base such as "lodash-4.17.21"
+  fileName: (base: string) => string;
+  render: (index: ContextIndex) => string;
+}
+
+export const OUTPUT_FORMATS: Record<OutputFormat, FormatDefinition> = {
+  markdown: {
+    label: 'Markdown',
+    mediaType: 'text/markdown',
+    fileName: base => `${base}-context-index.md`,
+    render: renderMarkdown,
+  },
+  json: {
+    label: 'JSON',
+    mediaType: 'application/json',
+    fileName: base => `${base}-context-index.json`,
+    render: renderJson,
+  },
+  'llms-txt': {
+    label: 'llms.txt',
+    mediaType: 'text/plain',
+    fileName: base => `${base}-llms.txt`,
+    render: renderLlmsTxt,
+  },
+  'llms-full-txt': {
+    label: 'llms-full.txt',
+    mediaType: 'text/plain',
+    fileName: base => `${base}-llms-full.txt`,
+    render: renderLlmsFullTxt,
+  },
+  // Named after the library so the project's own instruction files are never overwritten
+  'agents-md': {
+    label: 'AGENTS.md',
+    mediaType: 'text/markdown',
+    fileName: base => `${base}-AGENTS.md`,
+    render: renderAgentInstructions,
+  },
+  'claude-md': {
+    label: 'CLAUDE.md',
+    mediaType: 'text/markdown',
+    fileName: base => `${base}-CLAUDE.md`,
+    render: renderAgentInstructions,
+  },
+  'cursor-rules': {
+    label: 'Cursor rules (.mdc)',
+    mediaType: 'text/markdown',
+    fileName: base => `.cursor/rules/${base}.mdc`,
+    render: renderCursorRule,
+  },
+};
+
+export const renderContextIndex = (index: ContextIndex, format: OutputFormat, base = index.name): RenderedOutput => {
+  const definition = OUTPUT_FORMATS[format];
+  return {
+    format,
+    fileName: definition.fileName(base),
+    mediaType: definition.mediaType,
+    content: definition.render(index),
+  };
+};
+
+export interface BudgetedRender {
+  output: RenderedOutput;
+  // APIs moved out of the main file to fit the budget
+  appendices: RenderedOutput[];
+  report: BudgetReport;
+}
+
+// Render one format within a token budget; see fitToBudget for the tiers
+export const renderWithinBudget = (index: ContextIndex, format: OutputFormat, tokenBudget: number, base = index.name): BudgetedRender => {
+  const definition = OUTPUT_FORMATS[format];
+  const fitted = fitToBudget(index, tokenBudget, definition.render, part => definition.fileName(`${base}-appendix-${part}`).split('/').pop() || '');
+
+  return {
+    output: renderContextIndex(fitted.index, format, base),
+    appendices: fitted.appendices.map((appendix, position) => renderContextIndex(appendix, format, `${base}-appendix-${position + 1}`)),
+    report: fitted.report,
+  };
+};
+
+export interface ShardedRender {
+  // Root index first, then one markdown file per module (and its appendices), all under `${base}/`
+  files: RenderedOutput[];
+  // Budget report per file, when a budget was given
+  reports: Array<{ fileName: string; report: BudgetReport }>;
+}
+
+// Markdown file set: {base}/index.md linking {base}/{module}.md; each module file fits the budget on its own
+export const renderShards = (index: ContextIndex, base = index.name, tokenBudget?: number): ShardedRender => {
+  const { root, shards } = shardContextIndex(index, module => `${module}.md`);
+  const files: RenderedOutput[] = [];
+  const reports: ShardedRender['reports'] = [];
+
+  const file = (stem: string, content: string): RenderedOutput => ({
+    format: 'markdown',
+    fileName: `${base}/${stem}.md`,
+    mediaType: OUTPUT_FORMATS.markdown.mediaType,
+    content,
+  });
+  const add = (stem: string, shard: ContextIndex, budget = tokenBudget) => {
+    if (!budget) {
+      files.push(file(stem, renderMarkdown(shard)));
+      return;
+    }
+    const fitted = fitToBudget(shard, budget, renderMarkdown, part => `${stem}-appendix-${part}.md`);
+    files.push(file(stem, renderMarkdown(fitted.index)));
+    fitted.appendices.forEach((appendix, position) => {
+      files.push(file(`${stem}-appendix-${position + 1}`, renderMarkdown(appendix)));
+    });
+    reports.push({ fileName: `${base}/${stem}.md`, report: fitted.report });
+  };
+
+  // The root is a table of contents; compressing it would drop the module links
+  add('index', root, undefined);
+  for (const shard of shards) {
+    add(shard.module, shard.index);
+  }
+
+  return { files, reports };
+};
+
+// "**Name** - description" bullets; other lines stay in the section content only
+const parseItems = (content: string): IndexItem[] => {
+  const items: IndexItem[] = [];
+  for (const line of content.split('\n')) {
+    const match = line.match(/^\s*[*-]\s+\*\*(.+?)\*\*\s*(?:[-–—:]\s*)?(.*)$/);
+    if (match) {
+      items.push({ name: match[1].trim(), description: match[2].trim() });
+    }
+  }
+  return items;
+};
+
+/**
+ * Read the sections back out of a generated markdown index. The title line
+ * and anything above the first section heading are dropped; the version
+ * line and extracted APIs are passed in as structured data instead.
+ */
+export const contextIndexFromMarkdown = (
+  markdown: string,
+  meta: { name: string; repoUrl: string; ref?: string; commitSha?: string; source?: string; apis: ApiEntry[] }
+): ContextIndex => {
+  const raw: Array<{ title: string; lines: string[] }> = [];
+
+  for (const line of markdown.split('\n')) {
+    const heading = line.match(/^#{2,3}\s+(.+?)\s*$/);
+    if (heading && !/condensed context index/i.test(heading[1])) {
+      raw.push({ title: heading[1], lines: [] });
+    } else if (!heading && raw.length > 0) {
+      raw[raw.length - 1].lines.push(line);
+    }
+  }
+
+  const sections: IndexSection[] = raw.map(({ title, lines }) => {
+    const content = lines.join('\n').trim();
+    return { title, content, items: parseItems(content) };
+  });
+  const purpose = sections.find(isPurposeSection)?.content || '';
+
+  return { ...meta, purpose, sections };
+};
@@ -0,0 +1,6 @@
+import type { ContextIndex } from './context-index';
+
+// The structured index as is; `apis` holds full ApiEntry records
+export const renderJson = (index: ContextIndex): string => {
+  return `${JSON.stringify(index, null, 2)}\n`;
+};
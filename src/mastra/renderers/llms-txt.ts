@@ -0,0 +1,104 @@
+import type { ApiEntry } from '../apis';
+import type { ContextIndex } from './context-index';
+import { apiBullet, isApiSection, isPurposeSection, sectionBody, summaryOf } from './sections';
+
+// Header shared by both files: H1 name, blockquote summary, version line
+const header = (index: ContextIndex): string => {
+  let text = `# ${index.name}\n\n> ${summaryOf(index)}\n\n`;
+  if (index.source) {
+    text += `${index.source}\n\n`;
+  }
+  return text;
+};
+
+// Link to the repository when it is one a reader can open
+const sourceLink = (index: ContextIndex): string => {
+  return /^https?:\/\//.test(index.repoUrl) ? `- [Source repository](${index.repoUrl}): code and full documentation\n` : '';
+};
+
+/**
+ * llms.txt (https://llmstxt.org): a short overview an assistant reads
+ * first — summary, the index's own sections as bullets and one line per API.
+ */
+export const renderLlmsTxt = (index: ContextIndex): string => {
+  let text = header(index);
+
+  for (const section of index.sections) {
+    if (isPurposeSection(section) || isApiSection(section)) continue;
+    text += `## ${section.title}\n\n${sectionBody(section)}\n\n`;
+  }
+
+  if (index.apis.length > 0) {
+    text += `## API\n\n${index.apis.map(apiBullet).join('\n')}\n\n`;
+  }
+
+  const link = sourceLink(index);
+  if (link) {
+    text += `## Optional\n\n${link}`;
+  }
+
+  return text.trimEnd() + '\n';
+};
+
+// Full reference entry: signature, docs, parameters, returns, throws, examples
+const apiReference = (entry: ApiEntry): string => {
+  const fence = entry.origin === 'typescript' ? 'ts' : '';
+  let text = `### ${entry.qualifiedName}\n\n\`\`\`${fence}\n${entry.signature}\n\`\`\`\n\n`;
+
+  if (entry.deprecated !== undefined) {
+    text += `**Deprecated**${entry.deprecated ? `: ${entry.deprecated}` : ''}\n\n`;
+  }
+  if (entry.importPath) {
+    text += `Import from \`${entry.importPath}\`.\n\n`;
+  }
+  if (entry.doc) {
+    text += `${entry.doc}\n\n`;
+  }
+
+  const parameters = entry.parameters.filter(parameter => parameter.type || parameter.doc || parameter.default);
+  if (parameters.length > 0) {
+    text += `Parameters:\n${parameters.map(parameter => {
+      const facts = [
+        parameter.type && `\`${parameter.type}\``,
+        parameter.optional && 'optional',
+        parameter.default && `default \`${parameter.default}\``,
+      ].filter(Boolean).join(', ');
+      return `- \`${parameter.rest ? '...' : ''}${parameter.name}\`${facts ? ` (${facts})` : ''}${parameter.doc ? `: ${parameter.doc}` : ''}`;
+    }).join('\n')}\n\n`;
+  }
+  if (entry.returnType && (entry.kind === 'function' || entry.kind === 'method')) {
+    text += `Returns \`${entry.returnType}\`${entry.returnDoc ? `: ${entry.returnDoc}` : ''}\n\n`;
+  }
+  if (entry.throws.length > 0) {
+    text += `Throws:\n${entry.throws.map(item => `- ${item}`).join('\n')}\n\n`;
+  }
+  for (const example of entry.examples) {
+    text += /^```/.test(example.trim()) ? `${example.trim()}\n\n` : `\`\`\`${fence}\n${example.trim()}\n\`\`\`\n\n`;
+  }
+
+  return text;
+};
+
+/**
+ * llms-full.txt: the same header followed by every section in full and a
+ * reference entry per API, for assistants that load everything up front.
+ */
+export const renderLlmsFullTxt = (index: ContextIndex): string => {
+  let text = header(index);
+
+  for (const section of index.sections) {
+    if (isPurposeSection(section) || (isApiSection(section) && index.apis.length > 0)) continue;
+    text += `## ${section.title}\n\n${section.content}\n\n`;
+  }
+
+  if (index.apis.length > 0) {
+    text += `## API Reference\n\n${index.apis.map(apiReference).join('')}`;
+  }
+
+  const link = sourceLink(index);
+  if (link) {
+    text += `## Optional\n\n${link}`;
+  }
+
+  return text.trimEnd() + '\n';
+};
@@ -0,0 +1,22 @@
+import type { ContextIndex } from './context-index';
+import { apiBullet, isApiSection } from './sections';
+
+// The condensed context index layout the generator writes
+export const renderMarkdown = (index: ContextIndex): string => {
+  let markdown = `## ${index.name} - Condensed Context Index\n\n`;
+
+  if (index.source) {
+    markdown += `> ${index.source}\n\n`;
+  }
+
+  for (const section of index.sections) {
+    markdown += `### ${section.title}\n\n${section.content}\n\n`;
+  }
+
+  // Indexes written without an API section still list what was extracted
+  if (index.apis.length > 0 && !index.sections.some(isApiSection)) {
+    markdown += `### Key APIs\n\n${index.apis.map(apiBullet).join('\n')}\n`;
+  }
+
+  return markdown.trimEnd() + '\n';
+};
@@ -0,0 +1,27 @@
+import { describeApi, overloadCount, type ApiEntry } from '../apis';
+import type { ContextIndex, IndexSection } from './context-index';
+
+// Sections are told apart by their titles, which the generator words freely
+export const isPurposeSection = (section: Pick<IndexSection, 'title'>): boolean => /purpose/i.test(section.title);
+export const isApiSection = (section: Pick<IndexSection, 'title'>): boolean => /\bapis?\b/i.test(section.title);
+export const isConceptSection = (section: Pick<IndexSection, 'title'>): boolean => /concept|capabilit/i.test(section.title);
+// "Key APIs / Components / Configuration / Patterns" is still the API section
+export const isPatternSection = (section: Pick<IndexSection, 'title'>): boolean => !isApiSection(section) && /pattern|practice|pitfall/i.test(section.title);
+
+// "`signature` - description" bullet for one entry, flagging deprecated ones
+export const apiBullet = (entry: ApiEntry): string => {
+  const deprecated = entry.deprecated !== undefined ? `Deprecated${entry.deprecated ? ` (${entry.deprecated})` : ''}. ` : '';
+  const overloads = overloadCount(entry) > 0 ? ` (+${overloadCount(entry)} overloads)` : '';
+  return `- \`${entry.signature}\`${overloads} - ${deprecated}${describeApi(entry)}`;
+};
+
+// Bullets of a section, or its text when it has none
+export const sectionBody = (section: IndexSection): string => {
+  if (section.items.length === 0) return section.content;
+  return section.items.map(item => `- **${item.name}** - ${item.description}`).join('\n');
+};
+
+// One paragraph summary for headers and frontmatter
+export const summaryOf = (index: ContextIndex): string => {
+  return index.purpose.replace(/\s+/g, ' ').trim() || `Public API of ${index.name}.`;
+};
@@ -0,0 +1,168 @@
+import { apiImportance, describeApi, type ApiEntry } from '../apis';
+import type { ContextIndex, IndexSection } from './context-index';
+import { isApiSection, isPurposeSection } from './sections';
+
+// Shard holding entries that belong to no module (the package root)
+const ROOT_MODULE = 'core';
+// Names reserved for the table of contents
+const RESERVED_NAMES = new Set(['index', 'readme']);
+// Entries named in a module's summary line
+const SUMMARY_NAMES = 4;
+
+export interface Shard {
+  // File stem of the shard: "array" for lodash/array.md
+  module: string;
+  index: ContextIndex;
+}
+
+const fileSafe = (name: string): string => {
+  const safe = name.replace(/[^\w.-]+/g, '_').replace(/^[._]+|[._]+$/g, '') || ROOT_MODULE;
+  return RESERVED_NAMES.has(safe.toLowerCase()) ? `${safe}-module` : safe;
+};
+
+// Subpath export an entry is imported from: "fp" for lodash/fp, given the package's main specifier
+const subpathOf = (entry: ApiEntry, main: string): string | undefined => {
+  if (!entry.importPath || entry.importPath === main) return undefined;
+  return entry.importPath.startsWith(`${main}/`) ? entry.importPath.substring(main.length + 1) : entry.importPath;
+};
+
+// File path without extensions, URL host or index/__init__/mod stems, as segments
+const pathSegments = (entry: ApiEntry): string[] => {
+  if (!entry.location) return [];
+  const segments = entry.location.path
+    .replace(/^[a-z]+:\/\/[^/]+/i, '')
+    .replace(/\\/g, '/')
+    .split('/')
+    .filter(segment => segment && segment !== '.');
+  const last = (segments.pop() || '').replace(/(\.d)?\.[^.]+$/, '');
+  return /^(index|__init__|mod|main|readme)$/i.test(last) ? segments : [...segments, last];
+};
+
+// First segment after the directories every entry shares, so src/ and packages/x/ never name a module
+const locationModules = (entries: ApiEntry[]): Array<string | undefined> => {
+  const paths = entries.map(pathSegments);
+  const located = paths.filter(segments => segments.length > 0);
+  let common = 0;
+  while (
+    located.length > 0
+    && located.every(segments => segments.length > common + 1 && segments[common] === located[0][common])
+  ) {
+    common++;
+  }
+  return paths.map(segments => segments[common]);
+};
+
+// Top-level namespace or module entries own everything declared inside them
+const namespaceModules = (entries: ApiEntry[]): Array<string | undefined> => {
+  const namespaces = new Set(entries
+    .filter(entry => !entry.owner && (entry.kind === 'namespace' || entry.kind === 'module'))
+    .map(entry => entry.name));
+  return entries.map(entry => {
+    const top = entry.qualifiedName.split('.')[0];
+    return namespaces.has(top) ? top : undefined;
+  });
+};
+
+/**
+ * Split an index's entries by module. Subpath exports win, then top-level
+ * namespaces, then the directory or file each entry was read from; the
+ * first of these that actually tells entries apart is used. Entries with
+ * no module go to the "core" shard.
+ */
+export const groupByModule = (entries: ApiEntry[]): Map<string, ApiEntry[]> => {
+  const specifiers = new Map<string, number>();
+  for (const entry of entries) {
+    if (entry.importPath) specifiers.set(entry.importPath, (specifiers.get(entry.importPath) || 0) + 1);
+  }
+  // The most used specifier is the package itself
+  const main = [...specifiers.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] || '';
+
+  const strategies = [
+    () => entries.map(entry => subpathOf(entry, main)),
+    () => namespaceModules(entries),
+    () => locationModules(entries),
+  ];
+
+  for (const strategy of strategies) {
+    const modules = strategy();
+    const groups = new Map<string, ApiEntry[]>();
+    entries.forEach((entry, position) => {
+      const module = fileSafe(modules[position] || ROOT_MODULE);
+      groups.set(module, [...(groups.get(module) || []), entry]);
+    });
+    // Package root first, then by name
+    if (groups.size > 1) {
+      return new Map([...groups.entries()].sort(([a], [b]) => (a === ROOT_MODULE ? -1 : b === ROOT_MODULE ? 1 : a.localeCompare(b))));
+    }
+  }
+
+  return new Map(entries.length > 0 ? [[ROOT_MODULE, entries]] : []);
+};
+
+// "412 APIs: `string`, `object`, ..." unless the module documents itself
+const moduleSummary = (module: string, entries: ApiEntry[]): string => {
+  const own = entries.find(entry => !entry.owner && entry.name === module && entry.doc);
+  if (own) return describeApi(own);
+
+  const names = [...new Set(entries
+    .map((entry, position) => ({ entry, position, score: apiImportance(entry) }))
+    .sort((a, b) => b.score - a.score || a.position - b.position)
+    .map(({ entry }) => entry.name))];
+  const shown = names.slice(0, SUMMARY_NAMES).map(name => `\`${name}\``).join(', ');
+  return `${entries.length} APIs: ${shown}${names.length > SUMMARY_NAMES ? ', ...' : ''}`;
+};
+
+/**
+ * Split an index into one shard per module and a root index that keeps
+ * the purpose, concepts and patterns and links every shard, so an agent
+ * reads the root and opens only the module it needs. Links are relative
+ * to the root file, which sits next to the shards.
+ */
+export const shardContextIndex = (
+  index: ContextIndex,
+  fileName: (module: string) => string
+): { root: ContextIndex; shards: Shard[] } => {
+  const groups = groupByModule(index.apis);
+  const shards: Shard[] = [...groups.entries()].map(([module, apis]) => {
+    const summary = moduleSummary(module, apis);
+    return {
+      module,
+      index: {
+        ...index,
+        name: `${index.name}/${module}`,
+        purpose: summary,
+        sections: [
+          { title: 'Overall Purpose', content: `${summary}\n\nPart of ${index.name}; see [the index](${fileName('index')}) for its concepts, patterns and other modules.`, items: [] },
+        ],
+        apis,
+      },
+    };
+  });
+
+  const modules = shards.map(shard => ({
+    name: `[${shard.module}](${fileName(shard.module)})`,
+    description: shard.index.purpose,
+  }));
+  const modulesSection: IndexSection = {
+    title: 'Modules',
+    content: modules.map(item => `* **${item.name}** - ${item.description}`).join('\n'),
+    items: modules,
+  };
+
+  // Without extracted entries there is nothing to split, so the API section stays in the root
+  const sections = shards.length > 0
+    ? index.sections.filter(section => !isApiSection(section))
+    : index.sections;
+  const purposeAt = sections.findIndex(isPurposeSection);
+
+  return {
+    root: {
+      ...index,
+      sections: shards.length > 0
+        ? [...sections.slice(0, purposeAt + 1), modulesSection, ...sections.slice(purposeAt + 1)]
+        : sections,
+      apis: [],
+    },
+    shards,
+  };
+};
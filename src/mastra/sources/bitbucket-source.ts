@@ -0,0 +1,108 @@
+import { RemoteSource, type RemoteLocation } from './remote-source';
+import { treeFile } from './tree';
+import type { RepoEntry, RepoMetadata } from './types';
+
+// Deepest directory level the recursive src listing descends to
+const MAX_DEPTH = 20;
+
+/**
+ * Bitbucket Cloud (REST API 2.0). Private repositories need
+ * BITBUCKET_TOKEN (a repository or workspace access token).
+ */
+export class BitbucketSource extends RemoteSource {
+  readonly kind = 'bitbucket' as const;
+  private readonly repoApi: string;
+
+  constructor(location: RemoteLocation, ref?: string) {
+    const [workspace, slug] = location.segments;
+    if (!workspace || !slug) {
+      throw new Error(`Not a Bitbucket repository URL: ${location.url}`);
+    }
+    super(`${location.origin}/${workspace}/${slug}`, slug, ref);
+
+    const apiBase = process.env.BITBUCKET_API_URL?.replace(/\/$/, '') || 'https://api.bitbucket.org/2.0';
+    this.repoApi = `${apiBase}/repositories/${workspace}/${slug}`;
+  }
+
+  protected headers(): Record<string, string> {
+    const token = process.env.BITBUCKET_TOKEN;
+    return token ? { 'Authorization': `Bearer ${token}` } : {};
+  }
+
+  protected async fetchMetadata(): Promise<RepoMetadata> {
+    const data = await this.getJson(this.repoApi);
+    if (!data) {
+      throw new Error(`Failed to fetch repository metadata: ${this.url} not found`);
+    }
+
+    // Bitbucket only reports a single language
+    const language = data.language || undefined;
+
+    return {
+      name: data.name,
+      fullName: data.full_name,
+      description: data.description || undefined,
+      homepage: data.website || undefined,
+      language,
+      languages: language ? { [language]: 100 } : {},
+      defaultBranch: data.mainbranch?.name || 'main',
+      wikiUrl: data.has_wiki ? `${this.url}/wiki` : undefined,
+    };
+  }
+
+  protected async fetchCommit(ref: string): Promise<string | null> {
+    const commit = await this.getJson<{ hash: string }>(`${this.repoApi}/commit/${encodeURIComponent(ref)}`);
+    return commit?.hash || null;
+  }
+
+  async listTags(): Promise<string[]> {
+    const tags = await this.getPages<{ name: string }>(`${this.repoApi}/refs/tags?pagelen=100`);
+    return tags.map(tag => tag.name);
+  }
+
+  async listDirectory(dir: string): Promise<RepoEntry[] | null> {
+    const ref = await this.currentRef();
+    const path = this.encodePath(dir);
+    const items = await this.getPages<{ path: string; type: string }>(
+      `${this.repoApi}/src/${encodeURIComponent(ref)}/${path ? `${path}/` : ''}?pagelen=100`
+    );
+
+    if (items.length === 0) return null;
+
+    return items.map(item => ({
+      name: item.path.split('/').pop() || item.path,
+      path: item.path,
+      type: item.type === 'commit_directory' ? 'dir' as const : 'file' as const,
+    }));
+  }
+
+  // max_depth makes the src listing recursive
+  async listTree(): Promise<RepoEntry[] | null> {
+    const ref = await this.currentRef();
+    const items = await this.getPages<{ path: string; type: string; size?: number }>(
+      `${this.repoApi}/src/${encodeURIComponent(ref)}/?max_depth=${MAX_DEPTH}&pagelen=100`
+    );
+    if (items.length === 0) return null;
+    return items.filter(item => item.type === 'commit_file').map(item => treeFile(item.path, item.size));
+  }
+
+  async readFile(filePath: string): Promise<string | null> {
+    const ref = await this.currentRef();
+    return this.getText(`${this.repoApi}/src/${encodeURIComponent(ref)}/${this.encodePath(filePath)}`);
+  }
+
+  // Follow the "next" links of paginated responses
+  private async getPages<T>(url: string): Promise<T[]> {
+    const results: T[] = [];
+    let next: string | undefined = url;
+
+    while (next) {
+      const page: { values?: T[]; next?: string } | null = await this.getJson(next);
+      if (!page) break;
+      results.push(...(page.values || []));
+      next = page.next;
+    }
+
+    return results;
+  }
+}
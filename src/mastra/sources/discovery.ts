@@ -0,0 +1,189 @@
+import { z } from 'zod';
+import { globToRegExp, matchesAnyGlob } from '../utils/glob';
+import type { RepoEntry } from './types';
+
+export const fileCategorySchema = z.enum([
+  'docs',
+  'types',
+  'source',
+  'examples',
+  'tests',
+  'generated',
+  // package.json, pyproject.toml, Cargo.toml...
+  'manifest',
+  // Changelogs, licenses, CI configuration and anything no extractor reads
+  'other',
+]);
+
+export type FileCategory = z.infer<typeof fileCategorySchema>;
+
+export type SearchType = 'docs' | 'types' | 'source' | 'all';
+
+// Categories each search type reads from; tests and generated files never document the API
+const SEARCH_CATEGORIES: Record<SearchType, FileCategory[]> = {
+  docs: ['docs'],
+  types: ['types'],
+  source: ['manifest', 'source'],
+  all: ['manifest', 'docs', 'types', 'source', 'examples'],
+};
+
+// Share of maxFiles reserved for each category, so a large docs site cannot crowd out the sources
+const CATEGORY_SHARES: Partial<Record<FileCategory, number>> = {
+  manifest: 0.1,
+  docs: 0.3,
+  types: 0.3,
+  source: 0.3,
+  examples: 0.1,
+};
+
+const NOT_API_FILES = /^(changelog|changes|history|news|license|licence|copying|patents|notice|authors|contributors|contributing|code_of_conduct|security|support|governance|maintainers|codeowners)(\.|$)/i;
+const VENDORED_DIRS = new Set(['node_modules', 'vendor', 'third_party', 'third-party', 'bower_components']);
+const BUILD_DIRS = new Set(['dist', 'build', 'out', 'target', 'coverage', '__pycache__']);
+const GENERATED_FILES = /(\.min\.[cm]?js|\.map|\.bundle\.js|_pb2(_grpc)?\.pyi?|\.pb\.go|[._]generated\.\w+|^(package-lock\.json|yarn\.lock|pnpm-lock\.yaml|cargo\.lock|poetry\.lock|gemfile\.lock|composer\.lock|go\.sum))$/i;
+const TEST_DIRS = new Set(['test', 'tests', '__tests__', 'spec', 'specs', 'testdata', 'testing', 'fixtures', '__fixtures__', '__mocks__', 'e2e', 'bench', 'benches', 'benchmark', 'benchmarks']);
+const TEST_FILES = /(\.(test|spec|bench)\.\w+|_test\.(go|py|rb)|_spec\.rb|^test_\w+\.py|^conftest\.py|Tests?\.(java|cs|kt))$/;
+const EXAMPLE_DIRS = new Set(['example', 'examples', 'demo', 'demos', 'sample', 'samples', 'playground', 'cookbook']);
+const TYPE_FILES = /\.(d\.[cm]?ts|pyi|rbs)$/;
+const MANIFEST_FILES = /^(package\.json|pyproject\.toml|setup\.py|setup\.cfg|cargo\.toml|go\.mod|pom\.xml|build\.gradle(\.kts)?|composer\.json|[\w.-]+\.gemspec|[\w.-]+\.csproj)$/i;
+const DOC_FILES = /\.(md|rst)$/i;
+// Languages extractAllApis understands
+const SOURCE_FILES = /\.(ts|tsx|mts|cts|js|mjs|cjs|py|java|rs|go|rb|cpp|cc|h|hpp|cs|php)$/;
+
+// Directory names that do not make a file any less central
+const ROOT_DIRS = new Set(['src', 'lib', 'pkg', 'source']);
+
+/**
+ * Classify a repository path by where it sits and what it is named.
+ * Checks run from most to least specific, so `test/fixtures/api.md` is a
+ * test and `dist/index.d.ts` a declaration file rather than build output.
+ */
+export const classifyFile = (filePath: string): FileCategory => {
+  const segments = filePath.split('/');
+  const name = segments[segments.length - 1];
+  const dirs = segments.slice(0, -1).map(dir => dir.toLowerCase());
+
+  if (segments.some(segment => segment.startsWith('.')) || NOT_API_FILES.test(name)) return 'other';
+  if (dirs.some(dir => VENDORED_DIRS.has(dir)) || GENERATED_FILES.test(name)) return 'generated';
+  if (dirs.some(dir => TEST_DIRS.has(dir)) || TEST_FILES.test(name)) return 'tests';
+  if (dirs.some(dir => EXAMPLE_DIRS.has(dir))) return 'examples';
+  if (TYPE_FILES.test(name)) return 'types';
+  if (dirs.some(dir => BUILD_DIRS.has(dir))) return 'generated';
+  if (MANIFEST_FILES.test(name)) return 'manifest';
+  if (DOC_FILES.test(name)) return 'docs';
+  if (SOURCE_FILES.test(name)) return 'source';
+  return 'other';
+};
+
+/**
+ * How likely a file is to describe the public API, higher first. Shallow
+ * files, entry points (`index`, `lib.rs`, `__init__.py`, and whatever the
+ * manifest names) and reference-style docs rank up; internal modules,
+ * translations and very large files rank down.
+ */
+export const rankFile = (
+  entry: RepoEntry,
+  entryPoints: Set<string> = new Set(),
+  priorities: Record<string, number> = {}
+): number => {
+  const segments = entry.path.split('/');
+  const name = segments[segments.length - 1].toLowerCase();
+  const dirs = segments.slice(0, -1).map(dir => dir.toLowerCase());
+  let score = 100 - dirs.filter(dir => !ROOT_DIRS.has(dir)).length * 10;
+
+  if (entryPoints.has(entry.path)) score += 200;
+  if (dirs.length === 0 && /^readme\./.test(name)) score += 100;
+  if (/^(index|main|lib|mod|__init__|api|exports?)\./.test(name)) score += 30;
+  if (/(^|[-_.])(api|reference|guide|usage|getting[-_]started|quick[-_]?start|tutorial|overview|introduction)([-_.]|$)/.test(name)) score += 30;
+  if (dirs.some(dir => /^(api|reference|guides?)$/.test(dir))) score += 15;
+
+  // README.zh-CN.md, docs/ja/..., i18n/...
+  if (/[-_.](zh|ja|ko|es|fr|de|ru|pt|it|tr|vi|id|fa|uk)([-_][a-z]{2,4})?\.\w+$/.test(name) || dirs.some(dir => /^(i18n|locales?|translations|(zh|ja|ko|es|fr|de|ru|pt|it)([-_][a-z]{2,4})?)$/.test(dir))) score -= 60;
+  if (dirs.some(dir => /^(internal|private|_[\w-]*)$/.test(dir)) || (/^_/.test(name) && !/^__init__\./.test(name))) score -= 40;
+
+  // Adjustments from the project config
+  for (const [pattern, boost] of Object.entries(priorities)) {
+    if (globToRegExp(pattern).test(entry.path)) score += boost;
+  }
+
+  if (entry.size !== undefined) {
+    if (entry.size === 0) score -= 50;
+    else if (entry.size > 1000000) score -= 80;
+    else if (entry.size > 200000) score -= 30;
+  }
+
+  return score;
+};
+
+/**
+ * Choose which files of a repository tree to read. Every file is
+ * classified; pinned files come first, then the categories the search
+ * type asks for each get a share of `maxFiles`, filled best-ranked
+ * first, and slots a category leaves unused go to the best-ranked
+ * remaining files of any of them. `include` and `exclude` globs narrow
+ * the tree before anything is ranked.
+ */
+export const selectRepositoryFiles = (
+  tree: RepoEntry[],
+  options: {
+    searchType: SearchType;
+    maxFiles: number;
+    // Ranked up within their category (package.json "main", "types"...)
+    entryPoints?: string[];
+    // Read before anything ranked, whatever their category
+    pinned?: string[];
+    include?: string[];
+    exclude?: string[];
+    priorities?: Record<string, number>;
+  }
+): { files: Array<RepoEntry & { category: FileCategory }>; categories: Partial<Record<FileCategory, number>>; candidates: number } => {
+  const entryPoints = new Set(options.entryPoints || []);
+  const pinned = new Set((options.pinned || []).map(filePath => filePath.replace(/^\.?\//, '')));
+  const wanted = SEARCH_CATEGORIES[options.searchType];
+  const categories: Partial<Record<FileCategory, number>> = {};
+  const selected = new Map<string, { entry: RepoEntry; category: FileCategory; score: number }>();
+
+  const byCategory = new Map<FileCategory, Array<{ entry: RepoEntry; score: number }>>();
+  for (const entry of tree) {
+    const category = classifyFile(entry.path);
+    categories[category] = (categories[category] || 0) + 1;
+    if (options.exclude?.length && matchesAnyGlob(entry.path, options.exclude)) continue;
+    if (pinned.has(entry.path) && selected.size < options.maxFiles) {
+      selected.set(entry.path, { entry, category, score: Infinity });
+      continue;
+    }
+    if (!wanted.includes(category)) continue;
+    if (options.include?.length && !matchesAnyGlob(entry.path, options.include)) continue;
+    const ranked = byCategory.get(category) || [];
+    ranked.push({ entry, score: rankFile(entry, entryPoints, options.priorities) });
+    byCategory.set(category, ranked);
+  }
+
+  for (const ranked of byCategory.values()) {
+    ranked.sort((a, b) => b.score - a.score || a.entry.path.localeCompare(b.entry.path));
+  }
+
+  // Shares are rescaled over the categories actually requested
+  const totalShare = wanted.reduce((sum, category) => sum + (CATEGORY_SHARES[category] || 0), 0);
+  for (const category of wanted) {
+    const quota = Math.ceil(options.maxFiles * (CATEGORY_SHARES[category] || 0) / totalShare);
+    for (const { entry, score } of (byCategory.get(category) || []).slice(0, quota)) {
+      if (selected.size >= options.maxFiles) break;
+      selected.set(entry.path, { entry, category, score });
+    }
+  }
+
+  const leftovers = wanted
+    .flatMap(category => (byCategory.get(category) || []).map(ranked => ({ ...ranked, category })))
+    .filter(ranked => !selected.has(ranked.entry.path))
+    .sort((a, b) => b.score - a.score || a.entry.path.localeCompare(b.entry.path));
+  for (const ranked of leftovers) {
+    if (selected.size >= options.maxFiles) break;
+    selected.set(ranked.entry.path, ranked);
+  }
+
+  return {
+    files: [...selected.values()].map(({ entry, category }) => ({ ...entry, category })),
+    categories,
+    candidates: wanted.reduce((sum, category) => sum + (byCategory.get(category)?.length || 0), 0),
+  };
+};
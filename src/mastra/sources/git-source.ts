@@ -0,0 +1,133 @@
+import { execFile } from 'node:child_process';
+import { createHash } from 'node:crypto';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { promisify } from 'node:util';
+import { logToolExecution } from '../config/logger';
+import { LocalSource } from './local-source';
+import type { RepoEntry, RepoMetadata, RepositorySource } from './types';
+
+const execFileAsync = promisify(execFile);
+
+// Name of the repository from the last path segment of any git URL
+export const gitRepoName = (repoUrl: string): string => {
+  return repoUrl.replace(/\/$/, '').split(/[/:]/).pop()!.replace(/\.git$/, '');
+};
+
+// Mirrors live in a per-user cache rather than a guessable path in the shared temp directory
+const mirrorRoot = (): string => {
+  return process.env.DOCSGEN_GIT_CACHE_DIR || path.join(process.env.XDG_CACHE_HOME || path.join(os.homedir(), '.cache'), 'docsgen', 'git');
+};
+
+// Clone or refresh in flight, by remote URL
+const mirrors = new Map<string, Promise<string>>();
+
+// Clone on first use, refresh branches and tags on later runs
+const syncMirror = async (url: string): Promise<string> => {
+  const root = mirrorRoot();
+  const key = createHash('sha1').update(url).digest('hex').substring(0, 12);
+  const target = path.join(root, key);
+
+  if (fs.existsSync(path.join(target, 'HEAD'))) {
+    await execFileAsync('git', [
+      '--git-dir', target, 'fetch', '--quiet', '--prune', 'origin',
+      '+refs/heads/*:refs/heads/*', '+refs/tags/*:refs/tags/*',
+    ]);
+    logToolExecution('git-source', { action: 'refreshed_mirror', url, target });
+    return target;
+  }
+
+  // Clone into a fresh directory and move it into place, so a half-written clone is never read
+  await fs.promises.mkdir(root, { recursive: true, mode: 0o700 });
+  const staging = await fs.promises.mkdtemp(path.join(root, `.clone-${key}-`));
+  try {
+    await execFileAsync('git', ['clone', '--bare', '--quiet', '--filter=blob:none', '--', url, staging]);
+    await fs.promises.rename(staging, target);
+  } catch (error) {
+    await fs.promises.rm(staging, { recursive: true, force: true });
+    // Another process put its clone in place first
+    if (fs.existsSync(path.join(target, 'HEAD'))) return target;
+    throw error;
+  }
+  logToolExecution('git-source', { action: 'cloned_mirror', url, target });
+
+  return target;
+};
+
+/**
+ * Any git remote without a known HTTP API (plain https, ssh, git://).
+ * The repository is cloned once as a bare, blob-less mirror into the user's
+ * cache directory and then read through LocalSource; blobs are fetched on demand.
+ */
+export class GitSource implements RepositorySource {
+  readonly kind = 'git' as const;
+  readonly url: string;
+  readonly name: string;
+  private readonly ref?: string;
+  private local?: Promise<LocalSource>;
+
+  constructor(url: string, ref?: string) {
+    // git would take it for an option such as --upload-pack
+    if (url.startsWith('-')) {
+      throw new Error(`Invalid git URL "${url}"`);
+    }
+    this.url = url;
+    this.name = gitRepoName(url);
+    this.ref = ref;
+  }
+
+  async getMetadata(): Promise<RepoMetadata> {
+    return {
+      ...await (await this.open()).getMetadata(),
+      name: this.name,
+      fullName: this.url,
+    };
+  }
+
+  async getDefaultBranch(): Promise<string> {
+    return (await this.open()).getDefaultBranch();
+  }
+
+  async listTags(): Promise<string[]> {
+    return (await this.open()).listTags();
+  }
+
+  async listDirectory(dir: string): Promise<RepoEntry[] | null> {
+    return (await this.open()).listDirectory(dir);
+  }
+
+  async listTree(): Promise<RepoEntry[] | null> {
+    return (await this.open()).listTree();
+  }
+
+  async readFile(filePath: string): Promise<string | null> {
+    return (await this.open()).readFile(filePath);
+  }
+
+  async resolveCommit(): Promise<string | null> {
+    return (await this.open()).resolveCommit();
+  }
+
+  private open(): Promise<LocalSource> {
+    if (!this.local) {
+      this.local = this.mirror()
+        .then(dir => LocalSource.open(dir, this.ref, this.name))
+        .catch(error => {
+          this.local = undefined;
+          throw error;
+        });
+    }
+    return this.local;
+  }
+
+  // One clone or fetch per remote at a time; every GitSource of the URL waits for the same one
+  private mirror(): Promise<string> {
+    let pending = mirrors.get(this.url);
+    if (!pending) {
+      pending = syncMirror(this.url).finally(() => mirrors.delete(this.url));
+      mirrors.set(this.url, pending);
+    }
+    return pending;
+  }
+}
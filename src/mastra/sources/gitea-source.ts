@@ -0,0 +1,100 @@
+import { RemoteSource, type RemoteLocation } from './remote-source';
+import { treeFile } from './tree';
+import type { RepoEntry, RepoMetadata } from './types';
+
+// Largest page of tree entries Gitea returns
+const TREE_PAGE_SIZE = 1000;
+
+/**
+ * Gitea and Forgejo instances (Codeberg included), REST API v1.
+ * Private repositories need GITEA_TOKEN.
+ */
+export class GiteaSource extends RemoteSource {
+  readonly kind = 'gitea' as const;
+  private readonly repoApi: string;
+
+  constructor(location: RemoteLocation, ref?: string) {
+    const [owner, repo] = location.segments;
+    if (!owner || !repo) {
+      throw new Error(`Not a Gitea repository URL: ${location.url}`);
+    }
+    super(`${location.origin}/${owner}/${repo}`, repo, ref);
+
+    const apiBase = process.env.GITEA_API_URL?.replace(/\/$/, '') || `${location.origin}/api/v1`;
+    this.repoApi = `${apiBase}/repos/${owner}/${repo}`;
+  }
+
+  protected headers(): Record<string, string> {
+    const token = process.env.GITEA_TOKEN;
+    return token ? { 'Authorization': `token ${token}` } : {};
+  }
+
+  protected async fetchMetadata(): Promise<RepoMetadata> {
+    const data = await this.getJson(this.repoApi);
+    if (!data) {
+      throw new Error(`Failed to fetch repository metadata: ${this.url} not found`);
+    }
+
+    const languages = await this.getJson<Record<string, number>>(`${this.repoApi}/languages`) || {};
+    const [language] = Object.entries(languages).sort((a, b) => b[1] - a[1])[0] || [];
+
+    return {
+      name: data.name,
+      fullName: data.full_name,
+      description: data.description || undefined,
+      homepage: data.website || undefined,
+      language,
+      languages,
+      defaultBranch: data.default_branch || 'main',
+      wikiUrl: data.has_wiki ? `${this.url}/wiki` : undefined,
+    };
+  }
+
+  protected async fetchCommit(ref: string): Promise<string | null> {
+    const commits = await this.getJson<Array<{ sha: string }>>(
+      `${this.repoApi}/commits?sha=${encodeURIComponent(ref)}&limit=1&stat=false&files=false`
+    );
+    return commits?.[0]?.sha || null;
+  }
+
+  async listTags(): Promise<string[]> {
+    const tags = await this.getJson<Array<{ name: string }>>(`${this.repoApi}/tags?limit=50`);
+    return (tags || []).map(tag => tag.name);
+  }
+
+  async listDirectory(dir: string): Promise<RepoEntry[] | null> {
+    const ref = await this.currentRef();
+    const path = this.encodePath(dir);
+    const contents = await this.getJson(`${this.repoApi}/contents${path ? `/${path}` : ''}?ref=${encodeURIComponent(ref)}`);
+
+    if (!Array.isArray(contents)) return null;
+
+    return contents.map((item: any) => ({
+      name: item.name,
+      path: item.path,
+      type: item.type === 'dir' ? 'dir' as const : 'file' as const,
+    }));
+  }
+
+  // The recursive git tree, paged while Gitea reports it truncated
+  async listTree(): Promise<RepoEntry[] | null> {
+    const ref = await this.currentRef();
+    const files: RepoEntry[] = [];
+
+    for (let page = 1; ; page++) {
+      const tree = await this.getJson<{ tree?: Array<{ path: string; type: string; size?: number }>; truncated?: boolean }>(
+        `${this.repoApi}/git/trees/${encodeURIComponent(ref)}?recursive=true&per_page=${TREE_PAGE_SIZE}&page=${page}`
+      );
+      if (!tree) return page === 1 ? null : files;
+      files.push(...(tree.tree || []).filter(item => item.type === 'blob').map(item => treeFile(item.path, item.size)));
+      if (!tree.truncated || !tree.tree?.length) break;
+    }
+
+    return files;
+  }
+
+  async readFile(filePath: string): Promise<string | null> {
+    const ref = await this.currentRef();
+    return this.getText(`${this.repoApi}/raw/${this.encodePath(filePath)}?ref=${encodeURIComponent(ref)}`);
+  }
+}
@@ -0,0 +1,145 @@
+import { cachedFetch } from '../utils/http-cache';
+import { logToolExecution } from '../config/logger';
+import { RemoteSource, type RemoteLocation } from './remote-source';
+import { treeFile } from './tree';
+import type { RepoEntry, RepoMetadata } from './types';
+
+const GITHUB_HOST = 'github.com';
+
+/**
+ * GitHub and GitHub Enterprise. github.com reads files from
+ * raw.githubusercontent.com (no API quota); Enterprise hosts use the
+ * contents API with the raw media type.
+ */
+export class GitHubSource extends RemoteSource {
+  readonly kind = 'github' as const;
+  private readonly owner: string;
+  private readonly repo: string;
+  private readonly apiBase: string;
+  private readonly rawBase?: string;
+
+  constructor(location: RemoteLocation, ref?: string) {
+    const [owner, repo] = location.segments;
+    if (!owner || !repo) {
+      throw new Error(`Not a GitHub repository URL: ${location.url}`);
+    }
+    super(`${location.origin}/${owner}/${repo}`, repo, ref);
+    this.owner = owner;
+    this.repo = repo;
+
+    const isPublicHost = new URL(location.origin).host === GITHUB_HOST;
+    this.apiBase = process.env.GITHUB_API_URL?.replace(/\/$/, '') ||
+      (isPublicHost ? 'https://api.github.com' : `${location.origin}/api/v3`);
+    this.rawBase = isPublicHost && !process.env.GITHUB_API_URL
+      ? `https://raw.githubusercontent.com/${owner}/${repo}`
+      : undefined;
+  }
+
+  // GITHUB_TOKEN (or GH_TOKEN, as the gh CLI uses) raises the API limit and reads private repositories
+  protected headers(): Record<string, string> {
+    const token = process.env.GITHUB_TOKEN || process.env.GH_TOKEN;
+    return {
+      'Accept': 'application/vnd.github.v3+json',
+      ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
+    };
+  }
+
+  // Raw file reads carry the token too, so private repositories work without the contents API
+  private rawHeaders(): Record<string, string> {
+    const { Authorization } = this.headers();
+    return Authorization ? { Authorization } : {};
+  }
+
+  private get repoApi(): string {
+    return `${this.apiBase}/repos/${this.owner}/${this.repo}`;
+  }
+
+  protected async fetchMetadata(): Promise<RepoMetadata> {
+    const data = await this.getJson(this.repoApi);
+    if (!data) {
+      throw new Error(`Failed to fetch repository metadata: ${this.owner}/${this.repo} not found`);
+    }
+
+    const languages = await this.getJson<Record<string, number>>(`${this.repoApi}/languages`) || {};
+
+    return {
+      name: data.name,
+      fullName: data.full_name,
+      description: data.description || undefined,
+      homepage: data.homepage || undefined,
+      language: data.language || undefined,
+      languages,
+      defaultBranch: data.default_branch,
+      wikiUrl: data.has_wiki ? `${this.url}/wiki` : undefined,
+    };
+  }
+
+  async getDefaultBranch(): Promise<string> {
+    try {
+      return await super.getDefaultBranch();
+    } catch (error) {
+      // The API may be rate limited; fall back to probing the usual branches
+      if (!this.rawBase) throw error;
+      for (const branch of ['main', 'master']) {
+        const response = await cachedFetch(`${this.rawBase}/${branch}/README.md`, { headers: this.rawHeaders() });
+        if (response.ok) return branch;
+      }
+      return 'main';
+    }
+  }
+
+  protected async fetchCommit(ref: string): Promise<string | null> {
+    const commit = await this.getJson<{ sha: string }>(`${this.repoApi}/commits/${encodeURIComponent(ref)}`);
+    return commit?.sha || null;
+  }
+
+  async listTags(): Promise<string[]> {
+    const tags = await this.getJson<Array<{ name: string }>>(`${this.repoApi}/tags?per_page=100`);
+    return (tags || []).map(tag => tag.name);
+  }
+
+  async listDirectory(dir: string): Promise<RepoEntry[] | null> {
+    const ref = await this.currentRef();
+    const path = this.encodePath(dir);
+    const url = `${this.repoApi}/contents${path ? `/${path}` : ''}?ref=${encodeURIComponent(ref)}`;
+    const contents = await this.getJson(url);
+
+    if (!Array.isArray(contents)) return null;
+
+    return contents.map((item: any) => ({
+      name: item.name,
+      path: item.path,
+      type: item.type === 'dir' ? 'dir' as const : 'file' as const,
+    }));
+  }
+
+  // The whole tree at the pinned commit in one request
+  async listTree(): Promise<RepoEntry[] | null> {
+    const ref = await this.currentRef();
+    const tree = await this.getJson<{ tree: Array<{ path: string; type: string; size?: number }>; truncated: boolean }>(
+      `${this.repoApi}/git/trees/${encodeURIComponent(ref)}?recursive=1`
+    );
+    if (!tree) return null;
+
+    // GitHub stops at 100,000 entries; the listed part is still ranked
+    if (tree.truncated) {
+      logToolExecution('github-source', { action: 'tree_truncated', url: this.url, entries: tree.tree.length });
+    }
+    return tree.tree.filter(item => item.type === 'blob').map(item => treeFile(item.path, item.size));
+  }
+
+  async readFile(filePath: string): Promise<string | null> {
+    const ref = await this.currentRef();
+    const path = this.encodePath(filePath);
+
+    if (this.rawBase) {
+      const response = await cachedFetch(`${this.rawBase}/${ref}/${path}`, { headers: this.rawHeaders() });
+      return response.ok ? response.text() : null;
+    }
+
+    return this.getText(
+      `${this.repoApi}/contents/${path}?ref=${encodeURIComponent(ref)}`,
+      { 'Accept': 'application/vnd.github.raw' }
+    );
+  }
+}
@@ -0,0 +1,110 @@
+import { RemoteSource, type RemoteLocation } from './remote-source';
+import { treeFile } from './tree';
+import type { RepoEntry, RepoMetadata } from './types';
+
+// GitLab caps per_page at 100
+const PAGE_SIZE = 100;
+
+/**
+ * GitLab.com and self-hosted GitLab (REST API v4). Projects may live in
+ * nested groups, so the whole path is used as the project id.
+ * Private projects need GITLAB_TOKEN.
+ */
+export class GitLabSource extends RemoteSource {
+  readonly kind = 'gitlab' as const;
+  private readonly projectApi: string;
+
+  constructor(location: RemoteLocation, ref?: string) {
+    if (location.segments.length < 2) {
+      throw new Error(`Not a GitLab project URL: ${location.url}`);
+    }
+    const projectPath = location.segments.join('/');
+    super(`${location.origin}/${projectPath}`, location.segments[location.segments.length - 1], ref);
+
+    const apiBase = process.env.GITLAB_API_URL?.replace(/\/$/, '') || `${location.origin}/api/v4`;
+    this.projectApi = `${apiBase}/projects/${encodeURIComponent(projectPath)}`;
+  }
+
+  protected headers(): Record<string, string> {
+    const token = process.env.GITLAB_TOKEN;
+    return token ? { 'PRIVATE-TOKEN': token } : {};
+  }
+
+  protected async fetchMetadata(): Promise<RepoMetadata> {
+    const data = await this.getJson(this.projectApi);
+    if (!data) {
+      throw new Error(`Failed to fetch repository metadata: ${this.url} not found`);
+    }
+
+    const languages = await this.getJson<Record<string, number>>(`${this.projectApi}/languages`) || {};
+    const [language] = Object.entries(languages).sort((a, b) => b[1] - a[1])[0] || [];
+
+    return {
+      name: data.name,
+      fullName: data.path_with_namespace,
+      description: data.description || undefined,
+      homepage: undefined,
+      language,
+      languages,
+      defaultBranch: data.default_branch || 'main',
+      wikiUrl: data.wiki_enabled ? `${this.url}/-/wikis/home` : undefined,
+    };
+  }
+
+  protected async fetchCommit(ref: string): Promise<string | null> {
+    const commit = await this.getJson<{ id: string }>(`${this.projectApi}/repository/commits/${encodeURIComponent(ref)}`);
+    return commit?.id || null;
+  }
+
+  async listTags(): Promise<string[]> {
+    const tags = await this.getPages<{ name: string }>(`${this.projectApi}/repository/tags`);
+    return tags.map(tag => tag.name);
+  }
+
+  async listDirectory(dir: string): Promise<RepoEntry[] | null> {
+    const ref = await this.currentRef();
+    const query = `ref=${encodeURIComponent(ref)}${dir ? `&path=${encodeURIComponent(dir)}` : ''}`;
+    const items = await this.getPages<{ name: string; path: string; type: string }>(
+      `${this.projectApi}/repository/tree?${query}`
+    );
+
+    // GitLab answers an empty list (not 404) for unknown paths
+    if (items.length === 0) return null;
+
+    return items.map(item => ({
+      name: item.name,
+      path: item.path,
+      type: item.type === 'tree' ? 'dir' as const : 'file' as const,
+    }));
+  }
+
+  async listTree(): Promise<RepoEntry[] | null> {
+    const ref = await this.currentRef();
+    const items = await this.getPages<{ path: string; type: string }>(
+      `${this.projectApi}/repository/tree?ref=${encodeURIComponent(ref)}&recursive=true`
+    );
+    if (items.length === 0) return null;
+    return items.filter(item => item.type === 'blob').map(item => treeFile(item.path));
+  }
+
+  async readFile(filePath: string): Promise<string | null> {
+    const ref = await this.currentRef();
+    const encoded = encodeURIComponent(filePath.replace(/^\/+/, ''));
+    return this.getText(`${this.projectApi}/repository/files/${encoded}/raw?ref=${encodeURIComponent(ref)}`);
+  }
+
+  // Follow page numbers until a short page comes back
+  private async getPages<T>(url: string): Promise<T[]> {
+    const results: T[] = [];
+    const separator = url.includes('?') ? '&' : '?';
+
+    for (let page = 1; ; page++) {
+      const items = await this.getJson<T[]>(`${url}${separator}per_page=${PAGE_SIZE}&page=${page}`);
+      if (!items) break;
+      results.push(...items);
+      if (items.length < PAGE_SIZE) break;
+    }
+
+    return results;
+  }
+}
@@ -0,0 +1,163 @@
+import { BitbucketSource } from './bitbucket-source';
+import { GitSource, gitRepoName } from './git-source';
+import { GiteaSource } from './gitea-source';
+import { GitHubSource } from './github-source';
+import { GitLabSource } from './gitlab-source';
+import * as fs from 'node:fs';
+import { isLocalSource, localSourceName, resolveLocalPath, LocalSource } from './local-source';
+import { isPackageSource, packageSourceName, PackageSource } from './package-source';
+import { parseRemoteUrl } from './remote-source';
+import type { RepositorySource, SourceKind } from './types';
+
+export type { RepoEntry, RepoMetadata, RepositorySource, SourceKind } from './types';
+export { isLocalSource, resolveLocalPath, LocalSource } from './local-source';
+export { isPackageSource, PackageSource } from './package-source';
+export { classifyFile, fileCategorySchema, rankFile, selectRepositoryFiles, type FileCategory } from './discovery';
+export { detectWorkspaces, workspacePackageSchema, workspaceToolSchema, type WorkspacePackage, type Workspaces, type WorkspaceTool } from './workspaces';
+
+type RemoteKind = Exclude<SourceKind, 'local' | 'package'>;
+
+// Repository location with the ref it should be read at
+export interface RepoRef {
+  repoUrl: string;
+  ref?: string;
+}
+
+// Well-known public hosts
+const KNOWN_HOSTS: Record<string, RemoteKind> = {
+  'github.com': 'github',
+  'gitlab.com': 'gitlab',
+  'bitbucket.org': 'bitbucket',
+  'codeberg.org': 'gitea',
+  'gitea.com': 'gitea',
+};
+
+// Self-hosted instances, e.g. DOCSGEN_GIT_HOSTS="git.example.com=gitlab,code.example.org=gitea"
+const configuredHosts = (): Record<string, RemoteKind> => {
+  const hosts: Record<string, RemoteKind> = {};
+  for (const entry of (process.env.DOCSGEN_GIT_HOSTS || '').split(',')) {
+    const [host, kind] = entry.split('=').map(part => part.trim());
+    if (host && kind) {
+      hosts[host.toLowerCase()] = kind as RemoteKind;
+    }
+  }
+  return hosts;
+};
+
+// Browser URLs that carry a ref: GitLab /-/tree/<ref>, GitHub /tree|blob|commit/<ref>
+// and releases, Gitea /src/branch|tag|commit/<ref>, Bitbucket /src/<ref>
+const REF_ROUTES = [
+  /^(https?:\/\/.+?)\/-\/(?:tree|blob|commits?)\/([^/?#]+)/,
+  /^(https?:\/\/[^/]+\/[^/]+\/[^/]+)\/(?:tree|blob|commits?)\/([^/?#]+)/,
+  /^(https?:\/\/[^/]+\/[^/]+\/[^/]+)\/releases\/tag\/([^/?#]+)/,
+  /^(https?:\/\/[^/]+\/[^/]+\/[^/]+)\/src\/(?:branch|tag|commit)\/([^/?#]+)/,
+  /^(https?:\/\/[^/]+\/[^/]+\/[^/]+)\/src\/([^/?#]+)/,
+];
+
+/**
+ * Split a ref out of a repository URL: `repo@v4.17.21`, or a browser URL
+ * such as `/tree/v4.17.21`. An explicit `ref` takes precedence. Refs
+ * containing slashes can only be passed explicitly.
+ */
+export const splitRepoRef = (repoUrl: string, ref?: string): RepoRef => {
+  let baseUrl = repoUrl.trim();
+  let urlRef: string | undefined;
+
+  // A local directory may legitimately be named pkg@1.0.0
+  const isExistingPath = isLocalSource(baseUrl) && fs.existsSync(resolveLocalPath(baseUrl));
+
+  if (!isExistingPath) {
+    const route = REF_ROUTES.map(pattern => baseUrl.match(pattern)).find(Boolean);
+    if (route) {
+      baseUrl = route[1];
+      urlRef = decodeURIComponent(route[2]);
+    } else {
+      // "@" must follow a non-empty last segment, so git@host:repo and
+      // https://user@host/... are left alone
+      const at = baseUrl.lastIndexOf('@');
+      const lastSeparator = Math.max(baseUrl.lastIndexOf('/'), baseUrl.lastIndexOf(':'));
+      if (at > lastSeparator + 1 && at < baseUrl.length - 1) {
+        urlRef = baseUrl.substring(at + 1);
+        baseUrl = baseUrl.substring(0, at);
+      }
+    }
+  }
+
+  return { repoUrl: baseUrl.replace(/\/$/, ''), ref: ref?.trim() || urlRef };
+};
+
+// Work out which host implementation serves a repository URL
+export const detectSourceKind = (repoUrl: string): SourceKind => {
+  if (isPackageSource(repoUrl)) return 'package';
+  if (isLocalSource(repoUrl)) return 'local';
+  if (!/^https?:\/\//.test(repoUrl)) return 'git';
+
+  const host = new URL(repoUrl).host.toLowerCase();
+  const kind = configuredHosts()[host] || KNOWN_HOSTS[host];
+  if (kind) return kind;
+
+  // Common self-hosted naming conventions
+  if (host.includes('gitlab')) return 'gitlab';
+  if (host.includes('gitea') || host.includes('forgejo')) return 'gitea';
+  if (host.includes('github')) return 'github';
+
+  return 'git';
+};
+
+// Read over http(s) only: never this machine's disk, nor git over ssh, scp-style or git:// remotes
+export const isHttpSource = (repoLocation: string): boolean => {
+  const { repoUrl } = splitRepoRef(repoLocation);
+  return /^https?:\/\//i.test(repoUrl) && detectSourceKind(repoUrl) !== 'local';
+};
+
+/**
+ * Resolve the RepositorySource for a repository URL, local path or
+ * file:// URL. Reads are pinned to `ref` (or a ref embedded in the URL)
+ * when given, otherwise to the repository's default branch (or the
+ * working tree for local checkouts).
+ */
+export const resolveSource = async (repoLocation: string, explicitRef?: string): Promise<RepositorySource> => {
+  const { repoUrl, ref } = splitRepoRef(repoLocation, explicitRef);
+  const kind = detectSourceKind(repoUrl);
+
+  switch (kind) {
+    case 'package':
+      if (ref) {
+        throw new Error(`Cannot read ref "${ref}" from a package; point at the installed version or its tarball instead`);
+      }
+      return PackageSource.open(repoUrl);
+    case 'local':
+      return LocalSource.open(repoUrl, ref);
+    case 'git':
+      return new GitSource(repoUrl, ref);
+    case 'github':
+      return new GitHubSource(parseRemoteUrl(repoUrl), ref);
+    case 'gitlab':
+      return new GitLabSource(parseRemoteUrl(repoUrl), ref);
+    case 'bitbucket':
+      return new BitbucketSource(parseRemoteUrl(repoUrl), ref);
+    case 'gitea':
+      return new GiteaSource(parseRemoteUrl(repoUrl), ref);
+  }
+};
+
+// Repository name for titles and output files, without any network access
+export const repoNameFromUrl = (repoLocation: string): string => {
+  const { repoUrl } = splitRepoRef(repoLocation);
+  const kind = detectSourceKind(repoUrl);
+
+  if (kind === 'package') return packageSourceName(repoUrl);
+  if (kind === 'local') return localSourceName(repoUrl);
+  if (kind === 'git') return gitRepoName(repoUrl);
+
+  // GitLab nests groups; the other hosts are always owner/repo
+  const { segments } = parseRemoteUrl(repoUrl);
+  return (kind === 'gitlab' ? segments[segments.length - 1] : segments[1]) || 'repository';
+};
+
+// Base for output file names, one per pinned ref and workspace package: "lodash-4.17.21", "babel-babel__core-v7.24.0"
+export const indexBaseName = (repoLocation: string, ref?: string, packageName?: string): string => {
+  const refSuffix = ref ? `-${ref.replace(/[^\w.-]+/g, '_')}` : '';
+  const packageSuffix = packageName ? `-${packageName.replace(/^@/, '').replace(/\//g, '__').replace(/[^\w.-]+/g, '_')}` : '';
+  return `${repoNameFromUrl(repoLocation)}${packageSuffix}${refSuffix}`;
+};
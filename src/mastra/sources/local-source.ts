@@ -0,0 +1,274 @@
+import { execFile } from 'node:child_process';
+import { createHash } from 'node:crypto';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { promisify } from 'node:util';
+import { logToolExecution } from '../config/logger';
+import { MAX_TREE_FILES, treeFile, walkTree } from './tree';
+import type { RepoEntry, RepoMetadata, RepositorySource } from './types';
+
+const execFileAsync = promisify(execFile);
+
+// Directories never worth walking when reading a plain checkout
+const IGNORED_DIRS = ['.git', 'node_modules'];
+
+// Large generated files (bundles, lockfiles) still need to fit in memory
+const GIT_MAX_BUFFER = 64 * 1024 * 1024;
+
+type LocalSourceMode = 'directory' | 'git';
+
+// Check if a repository URL points at the local filesystem
+export const isLocalSource = (repoUrl: string): boolean => {
+  return repoUrl.startsWith('file://') ||
+    repoUrl.startsWith('/') ||
+    repoUrl.startsWith('./') ||
+    repoUrl.startsWith('../') ||
+    repoUrl.startsWith('~/') ||
+    /^[a-zA-Z]:[\\/]/.test(repoUrl);
+};
+
+// Convert a path or file:// URL into an absolute filesystem path
+export const resolveLocalPath = (repoUrl: string): string => {
+  if (repoUrl.startsWith('file://')) {
+    return fileURLToPath(repoUrl);
+  }
+  if (repoUrl.startsWith('~/')) {
+    return path.join(os.homedir(), repoUrl.slice(2));
+  }
+  return path.resolve(repoUrl);
+};
+
+// Human readable name for a local source (directory or bundle name)
+export const localSourceName = (repoUrl: string): string => {
+  const resolved = resolveLocalPath(repoUrl);
+  return path.basename(resolved).replace(/\.(bundle|git)$/, '') || resolved;
+};
+
+// Location arguments are either ['--git-dir', dir] or ['-C', workTree]
+const runGit = async (location: string[], args: string[]): Promise<string> => {
+  const { stdout } = await execFileAsync('git', [...location, ...args], {
+    maxBuffer: GIT_MAX_BUFFER,
+    encoding: 'utf8',
+  });
+  return stdout;
+};
+
+const isBareRepository = (dir: string): boolean => {
+  return fs.existsSync(path.join(dir, 'HEAD')) &&
+    fs.existsSync(path.join(dir, 'objects')) &&
+    fs.existsSync(path.join(dir, 'refs'));
+};
+
+// Bundles cannot be read in place, so clone them once into a temp directory
+const unpackBundle = async (bundlePath: string): Promise<string> => {
+  const stat = fs.statSync(bundlePath);
+  const key = createHash('sha1')
+    .update(`${bundlePath}:${stat.size}:${stat.mtimeMs}`)
+    .digest('hex')
+    .substring(0, 12);
+  const target = path.join(os.tmpdir(), `docsgen-bundle-${key}`);
+
+  if (!isBareRepository(target)) {
+    await execFileAsync('git', ['clone', '--bare', '--quiet', bundlePath, target]);
+    logToolExecution('local-source', { action: 'unpacked_bundle', bundlePath, target });
+  }
+
+  return target;
+};
+
+/**
+ * Reads repository content from a local directory, a git working tree,
+ * a bare repository or a git bundle.
+ *
+ * Plain directories and working trees without a ref are read straight from
+ * disk (uncommitted changes included). When a ref is given, or the source is
+ * a bare repository or bundle, content is read from git objects at that ref.
+ */
+export class LocalSource implements RepositorySource {
+  readonly kind = 'local' as const;
+  readonly url: string;
+  readonly root: string;
+  readonly name: string;
+  private readonly mode: LocalSourceMode;
+  private ref: string;
+  // Empty for plain directories that are not git repositories
+  private readonly gitLocation: string[];
+
+  private constructor(url: string, root: string, name: string, mode: LocalSourceMode, ref: string, gitLocation: string[] = []) {
+    this.url = url;
+    this.root = root;
+    this.name = name;
+    this.mode = mode;
+    this.ref = ref;
+    this.gitLocation = gitLocation;
+  }
+
+  static async open(repoUrl: string, ref?: string, name = localSourceName(repoUrl)): Promise<LocalSource> {
+    const root = resolveLocalPath(repoUrl);
+
+    // Refs are passed to rev-parse, show and ls-tree, which would read "-..." as an option
+    if (ref?.startsWith('-')) {
+      throw new Error(`Invalid ref "${ref}"`);
+    }
+
+    if (!fs.existsSync(root)) {
+      throw new Error(`Local source not found: ${root}`);
+    }
+
+    if (fs.statSync(root).isFile()) {
+      const gitDir = await unpackBundle(root);
+      return new LocalSource(repoUrl, root, name, 'git', ref || 'HEAD', ['--git-dir', gitDir]);
+    }
+
+    if (isBareRepository(root)) {
+      return new LocalSource(repoUrl, root, name, 'git', ref || 'HEAD', ['--git-dir', root]);
+    }
+
+    const isWorkTree = fs.existsSync(path.join(root, '.git'));
+
+    if (ref && isWorkTree) {
+      return new LocalSource(repoUrl, root, name, 'git', ref, ['-C', root]);
+    }
+
+    if (ref) {
+      throw new Error(`Cannot read ref "${ref}" from ${root}: not a git repository`);
+    }
+
+    return new LocalSource(repoUrl, root, name, 'directory', 'HEAD', isWorkTree ? ['-C', root] : []);
+  }
+
+  async getMetadata(): Promise<RepoMetadata> {
+    return {
+      name: this.name,
+      fullName: this.name,
+      languages: {},
+      defaultBranch: await this.getDefaultBranch(),
+    };
+  }
+
+  async getDefaultBranch(): Promise<string> {
+    if (this.gitLocation.length === 0) return 'HEAD';
+    try {
+      return (await runGit(this.gitLocation, ['symbolic-ref', '--short', 'HEAD'])).trim();
+    } catch {
+      // Detached HEAD or a bundle without a symbolic HEAD
+      return 'HEAD';
+    }
+  }
+
+  async listTags(): Promise<string[]> {
+    if (this.gitLocation.length === 0) return [];
+    try {
+      const output = await runGit(this.gitLocation, ['tag', '--list']);
+      return output.split('\n').filter(Boolean);
+    } catch {
+      return [];
+    }
+  }
+
+  async resolveCommit(): Promise<string | null> {
+    if (this.mode !== 'git') return null;
+
+    try {
+      const sha = (await runGit(this.gitLocation, ['rev-parse', '--verify', '--quiet', `${this.ref}^{commit}`])).trim();
+      this.ref = sha;
+      return sha;
+    } catch {
+      throw new Error(`Ref "${this.ref}" not found in ${this.root}`);
+    }
+  }
+
+  // Read a file relative to the source root; null when it does not exist
+  async readFile(filePath: string): Promise<string | null> {
+    const relative = this.normalize(filePath);
+
+    if (this.mode === 'git') {
+      try {
+        return await runGit(this.gitLocation, ['show', `${this.ref}:${relative}`]);
+      } catch {
+        return null;
+      }
+    }
+
+    const absolute = path.join(this.root, relative);
+    try {
+      if (!fs.statSync(absolute).isFile()) return null;
+      return await fs.promises.readFile(absolute, 'utf8');
+    } catch {
+      return null;
+    }
+  }
+
+  // List the direct children of a directory; null when it does not exist
+  async listDirectory(dir: string): Promise<RepoEntry[] | null> {
+    const relative = this.normalize(dir);
+
+    if (this.mode === 'git') {
+      try {
+        const treeish = relative ? `${this.ref}:${relative}` : `${this.ref}:`;
+        const output = await runGit(this.gitLocation, ['ls-tree', treeish]);
+        return output
+          .split('\n')
+          .filter(Boolean)
+          .map(line => {
+            const [meta, name] = line.split('\t');
+            const type = meta.split(' ')[1] === 'tree' ? 'dir' as const : 'file' as const;
+            return { name, path: relative ? `${relative}/${name}` : name, type };
+          });
+      } catch {
+        return null;
+      }
+    }
+
+    const absolute = path.join(this.root, relative);
+    try {
+      const entries = await fs.promises.readdir(absolute, { withFileTypes: true });
+      return entries
+        .filter(entry => !IGNORED_DIRS.includes(entry.name))
+        .filter(entry => entry.isFile() || entry.isDirectory())
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map(entry => ({
+          name: entry.name,
+          path: relative ? `${relative}/${entry.name}` : entry.name,
+          type: entry.isDirectory() ? 'dir' as const : 'file' as const,
+        }));
+    } catch {
+      return null;
+    }
+  }
+
+  // Every file at the ref from git, or every file on disk below the root
+  async listTree(): Promise<RepoEntry[] | null> {
+    if (this.mode === 'git') {
+      try {
+        // "<mode> <type> <object> <size>\t<path>"
+        const output = await runGit(this.gitLocation, ['ls-tree', '-r', '-l', '--full-tree', this.ref]);
+        return output
+          .split('\n')
+          .filter(Boolean)
+          .slice(0, MAX_TREE_FILES)
+          .map(line => {
+            const [meta, filePath] = line.split('\t');
+            const size = Number(meta.trim().split(/\s+/)[3]);
+            return treeFile(filePath, Number.isFinite(size) ? size : undefined);
+          });
+      } catch {
+        return null;
+      }
+    }
+
+    return walkTree(dir => this.listDirectory(dir));
+  }
+
+  // Keep every lookup inside the source root
+  private normalize(filePath: string): string {
+    const normalized = path.posix.normalize(filePath.replace(/\\/g, '/')).replace(/^\/+|\/+$/g, '');
+    if (normalized === '.' || normalized === '') return '';
+    if (normalized === '..' || normalized.startsWith('../')) {
+      throw new Error(`Path escapes the source root: ${filePath}`);
+    }
+    return normalized;
+  }
+}
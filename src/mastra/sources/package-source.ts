@@ -0,0 +1,314 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { logToolExecution } from '../config/logger';
+import { cachedFetch, readBody } from '../utils/http-cache';
+import { isLocalSource, LocalSource, resolveLocalPath } from './local-source';
+import { readTarball } from './tarball';
+import { walkTree } from './tree';
+import type { RepoEntry, RepoMetadata, RepositorySource } from './types';
+
+// Download size past which a remote tarball is refused; the registry's largest packages stay well below it
+const MAX_TARBALL_BYTES = 64 * 1024 * 1024;
+
+// Relative module specifiers in declaration files (imports, re-exports, references)
+const SPECIFIER_PATTERNS = [
+  /(?:\bfrom\s*|\bimport\s*\(\s*|\brequire\s*\(\s*|^\s*import\s+)['"](\.{1,2}(?:\/[^'"]*)?)['"]/gm,
+  /\/\/\/\s*<reference\s+path\s*=\s*['"]([^'"]+)['"]/g,
+];
+
+// Files read from an installed package directory or an unpacked tarball
+interface PackageFiles {
+  readFile(filePath: string): Promise<string | null>;
+  listDirectory(dir: string): Promise<RepoEntry[] | null>;
+}
+
+// Subset of package.json used to locate the public entry points
+interface PackageManifest {
+  name?: string;
+  version?: string;
+  description?: string;
+  homepage?: string;
+  types?: string;
+  typings?: string;
+  main?: string;
+  module?: string;
+  exports?: unknown;
+}
+
+// Check whether a location is an installed package or an npm tarball
+export const isPackageSource = (repoUrl: string): boolean => {
+  const location = repoUrl.split(/[?#]/)[0];
+  if (/\.(tgz|tar\.gz)$/i.test(location)) {
+    return isLocalSource(repoUrl) || /^https?:\/\//.test(repoUrl);
+  }
+  return isLocalSource(repoUrl) && resolveLocalPath(repoUrl).split(path.sep).includes('node_modules');
+};
+
+// Directory name or tarball file name (e.g. lodash-4.17.21)
+export const packageSourceName = (repoUrl: string): string => {
+  const location = /^https?:\/\//.test(repoUrl) ? new URL(repoUrl).pathname : resolveLocalPath(repoUrl);
+  return path.posix.basename(location.replace(/\\/g, '/')).replace(/\.(tgz|tar\.gz)$/i, '') || 'package';
+};
+
+// Strip "./" and collapse the path a manifest or specifier points at
+const cleanPath = (filePath: string): string => {
+  return path.posix.normalize(filePath.replace(/\\/g, '/')).replace(/^(\.\/)+|^\/+/, '');
+};
+
+// Declaration file that describes a JavaScript file
+const declarationFor = (filePath: string): string | undefined => {
+  if (/\.d\.[cm]?ts$/.test(filePath)) return filePath;
+  if (/\.mjs$/.test(filePath)) return filePath.replace(/\.mjs$/, '.d.mts');
+  if (/\.cjs$/.test(filePath)) return filePath.replace(/\.cjs$/, '.d.cts');
+  if (/\.js$/.test(filePath)) return filePath.replace(/\.js$/, '.d.ts');
+  return undefined;
+};
+
+// Every "types" condition or declaration target in an exports map
+const exportedTypes = (exportsField: unknown, key?: string): string[] => {
+  if (typeof exportsField === 'string') {
+    if (exportsField.includes('*')) return [];
+    if (key === 'types' || key === 'typings') return [exportsField];
+    const declaration = declarationFor(exportsField);
+    return declaration ? [declaration] : [];
+  }
+  if (Array.isArray(exportsField)) {
+    return exportsField.flatMap(entry => exportedTypes(entry, key));
+  }
+  if (exportsField && typeof exportsField === 'object') {
+    return Object.entries(exportsField).flatMap(([name, value]) => exportedTypes(value, name));
+  }
+  return [];
+};
+
+// Type entry points in the order TypeScript would consider them
+const typeEntryPoints = (manifest: PackageManifest): string[] => {
+  const candidates = [
+    manifest.types,
+    manifest.typings,
+    ...exportedTypes(manifest.exports),
+    manifest.main && declarationFor(manifest.main),
+    manifest.module && declarationFor(manifest.module),
+    'index.d.ts',
+  ];
+  return [...new Set(candidates.filter((entry): entry is string => !!entry).map(cleanPath))];
+};
+
+// Files held in memory after unpacking an npm tarball
+class TarballFiles implements PackageFiles {
+  private readonly files: Map<string, Buffer>;
+
+  constructor(entries: Map<string, Buffer>) {
+    // npm packs everything below a single top-level directory (usually "package/")
+    const roots = new Set([...entries.keys()].map(entry => entry.split('/')[0]));
+    const [root] = roots;
+    const strip = roots.size === 1 && [...entries.keys()].every(entry => entry.includes('/'))
+      ? `${root}/`
+      : '';
+
+    this.files = new Map(
+      [...entries].map(([entry, content]) => [entry.substring(strip.length), content])
+    );
+  }
+
+  async readFile(filePath: string): Promise<string | null> {
+    return this.files.get(cleanPath(filePath))?.toString('utf8') ?? null;
+  }
+
+  async listDirectory(dir: string): Promise<RepoEntry[] | null> {
+    const prefix = cleanPath(dir) === '.' || cleanPath(dir) === '' ? '' : `${cleanPath(dir)}/`;
+    const entries = new Map<string, RepoEntry>();
+
+    for (const filePath of this.files.keys()) {
+      if (!filePath.startsWith(prefix)) continue;
+      const [name, ...rest] = filePath.substring(prefix.length).split('/');
+      entries.set(name, {
+        name,
+        path: `${prefix}${name}`,
+        type: rest.length > 0 ? 'dir' : 'file',
+      });
+    }
+
+    if (entries.size === 0) return null;
+    return [...entries.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+}
+
+/**
+ * A published npm package: an installed `node_modules/<pkg>` directory or
+ * a `.tgz` tarball (local path or URL). Reads exactly what was shipped, so
+ * the API surface matches the installed version rather than the repository.
+ */
+export class PackageSource implements RepositorySource {
+  readonly kind = 'package' as const;
+  readonly url: string;
+  readonly name: string;
+  private readonly files: PackageFiles;
+  private manifestPromise?: Promise<PackageManifest>;
+
+  private constructor(url: string, name: string, files: PackageFiles) {
+    this.url = url;
+    this.name = name;
+    this.files = files;
+  }
+
+  static async open(repoUrl: string): Promise<PackageSource> {
+    const name = packageSourceName(repoUrl);
+
+    if (/^https?:\/\//.test(repoUrl)) {
+      // Remote tarballs can be requested through /api/generate, so their size is capped before and after unpacking
+      const response = await cachedFetch(repoUrl, {}, { maxBytes: MAX_TARBALL_BYTES });
+      if (!response.ok) {
+        throw new Error(`Failed to download package tarball: ${response.status} ${response.statusText} (${repoUrl})`);
+      }
+      const entries = readTarball(await readBody(response, repoUrl, MAX_TARBALL_BYTES));
+      logToolExecution('package-source', { action: 'downloaded_tarball', url: repoUrl, files: entries.size });
+      return new PackageSource(repoUrl, name, new TarballFiles(entries));
+    }
+
+    const location = resolveLocalPath(repoUrl);
+    if (!fs.existsSync(location)) {
+      throw new Error(`Package not found: ${location}`);
+    }
+
+    if (fs.statSync(location).isFile()) {
+      const entries = readTarball(await fs.promises.readFile(location));
+      logToolExecution('package-source', { action: 'unpacked_tarball', path: location, files: entries.size });
+      return new PackageSource(repoUrl, name, new TarballFiles(entries));
+    }
+
+    return new PackageSource(repoUrl, name, await LocalSource.open(location, undefined, name));
+  }
+
+  async getMetadata(): Promise<RepoMetadata> {
+    const manifest = await this.manifest();
+    const hasTypes = (await this.declarationFiles(1)).length > 0;
+
+    return {
+      name: manifest.name || this.name,
+      fullName: manifest.version ? `${manifest.name || this.name}@${manifest.version}` : manifest.name || this.name,
+      description: manifest.description,
+      homepage: manifest.homepage,
+      language: hasTypes ? 'TypeScript' : 'JavaScript',
+      languages: {},
+      defaultBranch: await this.getDefaultBranch(),
+    };
+  }
+
+  // Packages have no branches; the published version stands in for one
+  async getDefaultBranch(): Promise<string> {
+    return (await this.manifest()).version || 'latest';
+  }
+
+  async listTags(): Promise<string[]> {
+    const { version } = await this.manifest();
+    return version ? [version] : [];
+  }
+
+  async listDirectory(dir: string): Promise<RepoEntry[] | null> {
+    return this.files.listDirectory(dir);
+  }
+
+  async listTree(): Promise<RepoEntry[] | null> {
+    return walkTree(dir => this.files.listDirectory(dir));
+  }
+
+  async readFile(filePath: string): Promise<string | null> {
+    return this.files.readFile(filePath);
+  }
+
+  // Published packages are not tied to a commit
+  async resolveCommit(): Promise<string | null> {
+    return null;
+  }
+
+  // Version from package.json, if the package declares one
+  async getVersion(): Promise<string | undefined> {
+    return (await this.manifest()).version;
+  }
+
+  /**
+   * Declaration files reachable from the package's `types`/`typings`,
+   * `exports` conditions and `main`, following relative imports,
+   * re-exports and triple-slash references up to `limit` files.
+   */
+  async declarationFiles(limit: number): Promise<Array<{ path: string; content: string }>> {
+    const queue = typeEntryPoints(await this.manifest());
+    const seen = new Set<string>();
+    // Dual ESM/CJS packages ship identical .d.ts/.d.mts/.d.cts twins; keep one
+    const modules = new Set<string>();
+    const results: Array<{ path: string; content: string }> = [];
+
+    while (queue.length > 0 && results.length < limit) {
+      const candidate = queue.shift()!;
+      if (seen.has(candidate)) continue;
+      seen.add(candidate);
+
+      const resolved = await this.resolveDeclaration(candidate);
+      if (!resolved) continue;
+
+      const moduleName = resolved.path.replace(/\.d\.[cm]?ts$/, '');
+      if (modules.has(moduleName)) continue;
+      modules.add(moduleName);
+      results.push(resolved);
+
+      const dir = path.posix.dirname(resolved.path);
+      for (const pattern of SPECIFIER_PATTERNS) {
+        for (const match of resolved.content.matchAll(pattern)) {
+          queue.push(cleanPath(path.posix.join(dir, match[1])));
+        }
+      }
+    }
+
+    return results;
+  }
+
+  // JavaScript entry point, for packages that ship no declarations
+  async entryFile(): Promise<{ path: string; content: string } | null> {
+    const manifest = await this.manifest();
+    const rootExport = typeof manifest.exports === 'string' ? manifest.exports : undefined;
+
+    for (const candidate of [manifest.module, manifest.main, rootExport, 'index.js']) {
+      if (!candidate) continue;
+      // "main" may omit the extension or name a directory
+      for (const filePath of [cleanPath(candidate), `${cleanPath(candidate)}.js`, `${cleanPath(candidate)}/index.js`]) {
+        const content = await this.files.readFile(filePath);
+        if (content !== null) {
+          return { path: filePath, content };
+        }
+      }
+    }
+    return null;
+  }
+
+  private manifest(): Promise<PackageManifest> {
+    if (!this.manifestPromise) {
+      this.manifestPromise = this.files.readFile('package.json').then(content => {
+        if (content === null) {
+          throw new Error(`No package.json found in ${this.url}`);
+        }
+        return JSON.parse(content) as PackageManifest;
+      });
+    }
+    return this.manifestPromise;
+  }
+
+  // Try the specifier as written, then with declaration extensions
+  private async resolveDeclaration(specifier: string): Promise<{ path: string; content: string } | null> {
+    // Imports of sibling packages are outside this package
+    if (specifier === '..' || specifier.startsWith('../')) return null;
+
+    const declaration = declarationFor(specifier);
+    const candidates = declaration
+      ? [declaration]
+      : [specifier, `${specifier}.d.ts`, `${specifier}/index.d.ts`].filter(candidate => /\.d\.[cm]?ts$/.test(candidate));
+
+    for (const candidate of candidates) {
+      const content = await this.files.readFile(candidate);
+      if (content !== null) {
+        return { path: candidate, content };
+      }
+    }
+    return null;
+  }
+}
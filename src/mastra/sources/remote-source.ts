@@ -0,0 +1,135 @@
+import { cachedFetch } from '../utils/http-cache';
+import { walkTree } from './tree';
+import type { RepoEntry, RepoMetadata, RepositorySource, SourceKind } from './types';
+
+// Location of a repository on an HTTP git host
+export interface RemoteLocation {
+  url: string;
+  origin: string;
+  // Path segments after the host, without .git suffix or UI routes
+  segments: string[];
+}
+
+// Parse an https URL into origin and repository path segments
+export const parseRemoteUrl = (repoUrl: string): RemoteLocation => {
+  const parsed = new URL(repoUrl);
+  const segments = parsed.pathname
+    .replace(/\.git$/, '')
+    .split('/')
+    .filter(Boolean);
+
+  // GitLab puts UI routes behind a "-" segment (/group/project/-/tree/main)
+  const uiRoute = segments.indexOf('-');
+  const repoSegments = uiRoute >= 0 ? segments.slice(0, uiRoute) : segments;
+
+  return {
+    url: repoUrl.replace(/\/$/, ''),
+    origin: parsed.origin,
+    segments: repoSegments,
+  };
+};
+
+/**
+ * Shared plumbing for hosts read over an HTTP API: lazily cached metadata,
+ * ref resolution and JSON/text requests that treat 404 as "missing".
+ * Requests go through the shared HTTP cache, so reads pinned to the
+ * resolved commit are only ever fetched once.
+ */
+export abstract class RemoteSource implements RepositorySource {
+  abstract readonly kind: SourceKind;
+  readonly url: string;
+  readonly name: string;
+  protected readonly ref?: string;
+  private metadata?: Promise<RepoMetadata>;
+  private commit?: string;
+
+  constructor(url: string, name: string, ref?: string) {
+    this.url = url;
+    this.name = name;
+    this.ref = ref;
+  }
+
+  getMetadata(): Promise<RepoMetadata> {
+    if (!this.metadata) {
+      this.metadata = this.fetchMetadata().catch(error => {
+        // Allow a later call to retry instead of caching the failure
+        this.metadata = undefined;
+        throw error;
+      });
+    }
+    return this.metadata;
+  }
+
+  async getDefaultBranch(): Promise<string> {
+    return (await this.getMetadata()).defaultBranch;
+  }
+
+  async resolveCommit(): Promise<string | null> {
+    if (!this.commit) {
+      const ref = await this.currentRef();
+      const sha = await this.fetchCommit(ref);
+      if (!sha) {
+        throw new Error(`Ref "${ref}" not found in ${this.url}`);
+      }
+      this.commit = sha;
+    }
+    return this.commit;
+  }
+
+  abstract listTags(): Promise<string[]>;
+  abstract listDirectory(dir: string): Promise<RepoEntry[] | null>;
+  abstract readFile(path: string): Promise<string | null>;
+
+  // Hosts with a recursive tree API override this with a single listing
+  async listTree(): Promise<RepoEntry[] | null> {
+    return walkTree(dir => this.listDirectory(dir));
+  }
+
+  protected abstract fetchMetadata(): Promise<RepoMetadata>;
+  // Commit SHA of a branch, tag or commit; null when the ref does not exist
+  protected abstract fetchCommit(ref: string): Promise<string | null>;
+
+  // Authentication and content negotiation headers for every request
+  protected headers(): Record<string, string> {
+    return {};
+  }
+
+  // Ref every read is pinned to: the resolved commit once known, otherwise
+  // the requested ref or the default branch
+  protected async currentRef(): Promise<string> {
+    return this.commit || this.ref || this.getDefaultBranch();
+  }
+
+  protected async request(url: string, headers: Record<string, string> = {}): Promise<Response | null> {
+    const response = await cachedFetch(url, {
+      headers: { ...this.headers(), ...headers },
+    });
+
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`${this.kind} request failed: ${response.status} ${response.statusText} (${url})`);
+    }
+    return response;
+  }
+
+  protected async getJson<T = any>(url: string, headers?: Record<string, string>): Promise<T | null> {
+    const response = await this.request(url, headers);
+    return response ? response.json() as Promise<T> : null;
+  }
+
+  protected async getText(url: string, headers?: Record<string, string>): Promise<string | null> {
+    const response = await this.request(url, headers);
+    return response ? response.text() : null;
+  }
+
+  // Encode each segment of a repository path while keeping the slashes
+  protected encodePath(filePath: string): string {
+    return filePath
+      .split('/')
+      .filter(Boolean)
+      .map(encodeURIComponent)
+      .join('/');
+  }
+}
@@ -0,0 +1,80 @@
+import * as path from 'node:path';
+import { gunzipSync } from 'node:zlib';
+
+const BLOCK_SIZE = 512;
+
+// Unpacked size past which an archive is refused; published packages stay far below it
+export const MAX_UNPACKED_BYTES = 256 * 1024 * 1024;
+
+// Read a NUL-terminated string field from a tar header
+const field = (header: Buffer, offset: number, length: number): string => {
+  const raw = header.subarray(offset, offset + length);
+  const end = raw.indexOf(0);
+  return raw.subarray(0, end === -1 ? raw.length : end).toString('utf8');
+};
+
+// Extended (pax) headers are "<length> <key>=<value>\n" records
+const paxPath = (data: Buffer): string | undefined => {
+  const match = data.toString('utf8').match(/^\d+ path=(.*)$/m);
+  return match?.[1];
+};
+
+// Decompress without ever holding more than `maxBytes`, so a gzip bomb fails instead of filling memory
+const gunzipLimited = (archive: Buffer, maxBytes: number): Buffer => {
+  try {
+    return gunzipSync(archive, { maxOutputLength: maxBytes });
+  } catch (error) {
+    if (error instanceof RangeError || (error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+      throw new Error(`Tarball unpacks to more than the ${maxBytes} bytes allowed`);
+    }
+    throw error;
+  }
+};
+
+/**
+ * Unpack a (gzipped) tar archive into memory, keyed by normalized path.
+ * Only regular files are kept; entries escaping the archive root are
+ * dropped. Handles ustar prefixes, pax and GNU long names, which covers
+ * tarballs produced by `npm pack`, yarn and pnpm. Archives that unpack to
+ * more than `maxBytes` are refused.
+ */
+export const readTarball = (archive: Buffer, maxBytes = MAX_UNPACKED_BYTES): Map<string, Buffer> => {
+  const data = archive[0] === 0x1f && archive[1] === 0x8b ? gunzipLimited(archive, maxBytes) : archive;
+  if (data.length > maxBytes) {
+    throw new Error(`Tarball is more than the ${maxBytes} bytes allowed`);
+  }
+  const files = new Map<string, Buffer>();
+  let offset = 0;
+  let longName: string | undefined;
+
+  while (offset + BLOCK_SIZE <= data.length) {
+    const header = data.subarray(offset, offset + BLOCK_SIZE);
+    // Two zero blocks end the archive; one is enough to stop
+    if (header.every(byte => byte === 0)) break;
+
+    const size = parseInt(field(header, 124, 12).trim() || '0', 8);
+    const type = String.fromCharCode(header[156] || 0x30);
+    const prefix = field(header, 345, 155);
+    const name = longName || (prefix ? `${prefix}/${field(header, 0, 100)}` : field(header, 0, 100));
+    const body = data.subarray(offset + BLOCK_SIZE, offset + BLOCK_SIZE + size);
+
+    offset += BLOCK_SIZE + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+    longName = undefined;
+
+    if (type === 'x') {
+      longName = paxPath(body);
+      continue;
+    }
+    if (type === 'L') {
+      longName = field(body, 0, body.length);
+      continue;
+    }
+    if (type !== '0') continue;
+
+    const normalized = path.posix.normalize(name.replace(/\\/g, '/')).replace(/^\/+/, '');
+    if (normalized === '..' || normalized.startsWith('../')) continue;
+    files.set(normalized, Buffer.from(body));
+  }
+
+  return files;
+};
@@ -0,0 +1,38 @@
+import type { RepoEntry } from './types';
+
+// Stop listing past this many files; nothing ranks that far down anyway
+export const MAX_TREE_FILES = 100000;
+
+/**
+ * List every file below the root one directory at a time, for hosts
+ * without a recursive listing. Directories are walked breadth first, so
+ * a repository too large to list completely keeps its top levels.
+ */
+export const walkTree = async (
+  listDirectory: (dir: string) => Promise<RepoEntry[] | null>,
+  limit = MAX_TREE_FILES
+): Promise<RepoEntry[] | null> => {
+  const root = await listDirectory('');
+  if (!root) return null;
+
+  const files: RepoEntry[] = [];
+  const queue = [...root];
+  while (queue.length > 0 && files.length < limit) {
+    const entry = queue.shift()!;
+    if (entry.type === 'file') {
+      files.push(entry);
+    } else if (!entry.name.startsWith('.')) {
+      // Hidden directories (.git, .github, .venv) hold nothing worth ranking
+      queue.push(...(await listDirectory(entry.path) || []));
+    }
+  }
+  return files;
+};
+
+// "src/core/index.ts" -> { name: "index.ts", path, type: "file" }
+export const treeFile = (filePath: string, size?: number): RepoEntry => ({
+  name: filePath.split('/').pop() || filePath,
+  path: filePath,
+  type: 'file',
+  size,
+});
@@ -0,0 +1,47 @@
+// Hosts (and local readers) a repository can be read from
+export type SourceKind = 'github' | 'gitlab' | 'bitbucket' | 'gitea' | 'git' | 'local' | 'package';
+
+// Entry returned when listing a directory of a repository
+export interface RepoEntry {
+  name: string;
+  path: string;
+  type: 'file' | 'dir';
+  // Bytes, when the host reports it
+  size?: number;
+}
+
+// Host-independent repository metadata
+export interface RepoMetadata {
+  name: string;
+  fullName: string;
+  description?: string;
+  homepage?: string;
+  language?: string;
+  // Language name to relative weight (bytes or percentage, depending on host)
+  languages: Record<string, number>;
+  defaultBranch: string;
+  wikiUrl?: string;
+}
+
+/**
+ * Read-only view of a repository at a single ref. Tools resolve an
+ * implementation from the repository URL with `resolveSource`.
+ */
+export interface RepositorySource {
+  readonly kind: SourceKind;
+  readonly name: string;
+  readonly url: string;
+  getMetadata(): Promise<RepoMetadata>;
+  getDefaultBranch(): Promise<string>;
+  listTags(): Promise<string[]>;
+  // Direct children of a directory ('' for the root); null when missing
+  listDirectory(dir: string): Promise<RepoEntry[] | null>;
+  // Every file in the repository, recursively, in as few requests as the
+  // host allows; null when the root cannot be listed
+  listTree(): Promise<RepoEntry[] | null>;
+  // File content relative to the repository root; null when missing
+  readFile(path: string): Promise<string | null>;
+  // Commit SHA the ref points at; later reads are pinned to it. null when
+  // reading a plain directory or working tree, which has no single commit
+  resolveCommit(): Promise<string | null>;
+}
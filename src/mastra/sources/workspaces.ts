@@ -0,0 +1,293 @@
+import { z } from 'zod';
+import { logError } from '../config/logger';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { globToRegExp } from '../utils/glob';
+import { parseYaml, type YamlValue } from '../utils/yaml';
+import type { RepoEntry, RepositorySource } from './types';
+
+// Member manifests read at the same time
+const MEMBER_CONCURRENCY = 8;
+
+// Files that declare the packages of a workspace, by the tool that reads them
+export const workspaceToolSchema = z.enum(['npm', 'pnpm', 'lerna', 'nx', 'cargo', 'go']);
+
+export type WorkspaceTool = z.infer<typeof workspaceToolSchema>;
+
+export const workspacePackageSchema = z.object({
+  name: z.string(),
+  // Directory relative to the repository root; '' for the root itself
+  path: z.string(),
+  // package.json, project.json, Cargo.toml or go.mod
+  manifest: z.string(),
+  language: z.enum(['javascript', 'rust', 'go']),
+  version: z.string().optional(),
+  tool: workspaceToolSchema
+});
+
+export type WorkspacePackage = z.infer<typeof workspacePackageSchema>;
+
+export interface Workspaces {
+  // Every workspace definition found at the root
+  tools: WorkspaceTool[];
+  // Publishable packages, by path
+  packages: WorkspacePackage[];
+  // Members that are never published: private packages, publish = false crates, Nx applications
+  skipped: Array<{ name: string; path: string; reason: string }>;
+}
+
+// A directory some workspace definition names, with the manifest that makes it a package
+interface Candidate {
+  tool: WorkspaceTool;
+  dir: string;
+  manifest: string;
+}
+
+type Member = { package: WorkspacePackage } | { skipped: { name: string; path: string; reason: string } };
+
+const normalizeDir = (dir: string) => dir.trim().replace(/^\.\//, '').replace(/^\.$/, '').replace(/\/+$/, '');
+
+const manifestPath = (dir: string, manifest: string) => (dir ? `${dir}/${manifest}` : manifest);
+
+/**
+ * Directories holding `manifest` that the workspace globs select.
+ * Patterns follow npm, pnpm and Cargo: each names package directories,
+ * `**` reaches any depth and a leading `!` excludes what it matches.
+ */
+const matchDirectories = (tree: RepoEntry[], patterns: string[], manifest: string, exclude: string[] = []): string[] => {
+  const negated = [...exclude, ...patterns.filter(pattern => pattern.startsWith('!')).map(pattern => pattern.substring(1))];
+  const included = patterns.filter(pattern => !pattern.startsWith('!'));
+
+  // The root has no slash to anchor the glob, so it only ever matches exactly
+  const matches = (pattern: string, filePath: string) => {
+    const dir = normalizeDir(pattern);
+    return dir ? globToRegExp(manifestPath(dir, manifest)).test(filePath) : filePath === manifest;
+  };
+
+  return tree
+    .filter(entry => entry.type === 'file' && (entry.path === manifest || entry.path.endsWith(`/${manifest}`)))
+    .filter(entry => !entry.path.split('/').includes('node_modules'))
+    .filter(entry => included.some(pattern => matches(pattern, entry.path)) && !negated.some(pattern => matches(pattern, entry.path)))
+    .map(entry => entry.path.substring(0, entry.path.length - manifest.length).replace(/\/$/, ''));
+};
+
+const stringList = (value: unknown): string[] => {
+  return Array.isArray(value) ? value.filter((entry): entry is string => typeof entry === 'string') : [];
+};
+
+const readJson = async (source: RepositorySource, filePath: string): Promise<Record<string, any> | undefined> => {
+  const content = await source.readFile(filePath);
+  if (content === null) return undefined;
+  try {
+    const parsed = JSON.parse(content);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : undefined;
+  } catch (error) {
+    logError('workspaces', error, { action: 'parse_json', path: filePath });
+    return undefined;
+  }
+};
+
+/**
+ * Keys of one `[section]` of a TOML file as raw value text, enough for
+ * Cargo manifests: arrays may span lines, nothing else is interpreted.
+ */
+const tomlSection = (content: string, section: string): Record<string, string> => {
+  const values: Record<string, string> = {};
+  let current = '';
+  let open: string | undefined;
+
+  for (const raw of content.split(/\r?\n/)) {
+    const line = raw.replace(/(^|\s)#.*$/, '').trim();
+    if (!line) continue;
+
+    if (open) {
+      values[open] += ` ${line}`;
+      if (line.includes(']')) open = undefined;
+      continue;
+    }
+
+    const header = line.match(/^\[\[?\s*([^\]]+?)\s*\]\]?$/);
+    if (header) {
+      current = header[1];
+      continue;
+    }
+
+    const assignment = current === section ? line.match(/^([\w.-]+)\s*=\s*(.*)$/) : null;
+    if (assignment) {
+      values[assignment[1]] = assignment[2];
+      if (assignment[2].startsWith('[') && !assignment[2].includes(']')) open = assignment[1];
+    }
+  }
+  return values;
+};
+
+const tomlStrings = (value?: string): string[] => {
+  return [...(value || '').matchAll(/"((?:[^"\\]|\\.)*)"|'([^']*)'/g)].map(match => match[1] ?? match[2]);
+};
+
+// "use ./a" lines and "use ( ./a ./b )" blocks of a go.work file
+const goWorkUses = (content: string): string[] => {
+  const text = content.replace(/\/\/.*$/gm, '');
+  const uses: string[] = [];
+  for (const block of text.matchAll(/^\s*use\s*\(([^)]*)\)/gm)) {
+    uses.push(...block[1].split('\n'));
+  }
+  for (const line of text.matchAll(/^\s*use\s+([^\s(].*)$/gm)) {
+    uses.push(line[1]);
+  }
+  return uses.map(use => use.trim().replace(/^["`]|["`]$/g, '')).filter(use => use && !use.startsWith('..'));
+};
+
+// Members of npm/Yarn, pnpm, Lerna and Nx workspaces, from the definitions at the root
+const javaScriptCandidates = async (source: RepositorySource, tree: RepoEntry[], rootFiles: Set<string>): Promise<Candidate[]> => {
+  const candidates: Candidate[] = [];
+  const add = (tool: WorkspaceTool, patterns: string[]) => {
+    for (const dir of matchDirectories(tree, patterns, 'package.json')) {
+      candidates.push({ tool, dir, manifest: 'package.json' });
+    }
+  };
+
+  // "workspaces": ["packages/*"], or Yarn's { "packages": [...], "nohoist": [...] }
+  const rootManifest = rootFiles.has('package.json') ? await readJson(source, 'package.json') : undefined;
+  const workspaces = rootManifest?.workspaces;
+  if (workspaces) {
+    add('npm', stringList(Array.isArray(workspaces) ? workspaces : workspaces.packages));
+  }
+
+  if (rootFiles.has('pnpm-workspace.yaml')) {
+    const content = await source.readFile('pnpm-workspace.yaml');
+    let parsed: YamlValue = null;
+    try {
+      parsed = content === null ? null : parseYaml(content);
+    } catch (error) {
+      logError('workspaces', error, { action: 'parse_yaml', path: 'pnpm-workspace.yaml' });
+    }
+    const packages = parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed.packages : undefined;
+    add('pnpm', stringList(packages));
+  }
+
+  // Without "packages", Lerna uses the package manager's workspaces, else packages/*
+  if (rootFiles.has('lerna.json')) {
+    const lerna = await readJson(source, 'lerna.json');
+    add('lerna', lerna?.packages ? stringList(lerna.packages) : workspaces || lerna?.useWorkspaces ? [] : ['packages/*']);
+  }
+
+  // Nx finds projects by their project.json, under the layout directories by default
+  if (rootFiles.has('nx.json')) {
+    const nx = await readJson(source, 'nx.json');
+    const layout = nx?.workspaceLayout || {};
+    const roots = [layout.appsDir || 'apps', layout.libsDir || 'libs', 'packages'];
+    const patterns = roots.map((dir: string) => `${normalizeDir(dir)}/**`);
+    add('nx', patterns);
+    for (const dir of matchDirectories(tree, patterns, 'project.json')) {
+      if (!tree.some(entry => entry.path === manifestPath(dir, 'package.json'))) {
+        candidates.push({ tool: 'nx', dir, manifest: 'project.json' });
+      }
+    }
+  }
+
+  return candidates;
+};
+
+// Cargo [workspace] members, plus the root crate when the manifest has a [package] too
+const cargoCandidates = async (source: RepositorySource, tree: RepoEntry[]): Promise<Candidate[]> => {
+  const content = await source.readFile('Cargo.toml');
+  if (content === null) return [];
+
+  if (!/^\s*\[workspace\]/m.test(content)) return [];
+
+  const workspace = tomlSection(content, 'workspace');
+  const dirs = matchDirectories(tree, tomlStrings(workspace.members), 'Cargo.toml', tomlStrings(workspace.exclude));
+  if (Object.keys(tomlSection(content, 'package')).length > 0) dirs.unshift('');
+  return dirs.map(dir => ({ tool: 'cargo', dir, manifest: 'Cargo.toml' }));
+};
+
+// Modules a go.work file uses; these are paths, not globs
+const goCandidates = async (source: RepositorySource, tree: RepoEntry[]): Promise<Candidate[]> => {
+  const content = await source.readFile('go.work');
+  if (content === null) return [];
+
+  const uses = goWorkUses(content).map(normalizeDir);
+  return tree
+    .filter(entry => entry.type === 'file' && uses.some(dir => entry.path === manifestPath(dir, 'go.mod')))
+    .map(entry => ({ tool: 'go', dir: normalizeDir(entry.path.replace(/go\.mod$/, '')), manifest: 'go.mod' }));
+};
+
+// Read a member's manifest for its name and version, and whether it is ever published
+const readMember = async (source: RepositorySource, candidate: Candidate, rootCargo: string | null): Promise<Member | undefined> => {
+  const { tool, dir, manifest } = candidate;
+  const filePath = manifestPath(dir, manifest);
+  const fallbackName = dir.split('/').pop() || source.name;
+
+  if (manifest === 'package.json' || manifest === 'project.json') {
+    const json = await readJson(source, filePath);
+    if (!json) return undefined;
+    const name = typeof json.name === 'string' ? json.name : fallbackName;
+    if (json.private === true) return { skipped: { name, path: dir, reason: 'private' } };
+    if (json.projectType === 'application') return { skipped: { name, path: dir, reason: 'application' } };
+    const version = typeof json.version === 'string' ? json.version : undefined;
+    return { package: { name, path: dir, manifest, language: 'javascript', version, tool } };
+  }
+
+  const content = await source.readFile(filePath);
+  if (content === null) return undefined;
+
+  if (manifest === 'Cargo.toml') {
+    const crate = tomlSection(content, 'package');
+    const [name = fallbackName] = tomlStrings(crate.name);
+    if (/^(false|\[\s*\])$/.test((crate.publish || '').trim())) return { skipped: { name, path: dir, reason: 'publish = false' } };
+    // version.workspace = true inherits [workspace.package]
+    const [version] = tomlStrings(crate.version ?? (rootCargo ? tomlSection(rootCargo, 'workspace.package').version : undefined));
+    return { package: { name, path: dir, manifest, language: 'rust', version, tool } };
+  }
+
+  const module = content.match(/^\s*module\s+"?([^\s"]+)"?/m);
+  return { package: { name: module ? module[1] : fallbackName, path: dir, manifest, language: 'go', tool } };
+};
+
+/**
+ * Detect the workspaces of a monorepo from the definitions at its root:
+ * npm/Yarn `workspaces`, pnpm-workspace.yaml, lerna.json, nx.json, a
+ * Cargo `[workspace]` and go.work. Returns every publishable member
+ * package, or undefined when the repository declares no workspace.
+ */
+export const detectWorkspaces = async (source: RepositorySource, tree: RepoEntry[]): Promise<Workspaces | undefined> => {
+  const rootFiles = new Set(tree.filter(entry => !entry.path.includes('/')).map(entry => entry.path));
+  const candidates = [
+    ...await javaScriptCandidates(source, tree, rootFiles),
+    ...rootFiles.has('Cargo.toml') ? await cargoCandidates(source, tree) : [],
+    ...rootFiles.has('go.work') ? await goCandidates(source, tree) : [],
+  ];
+
+  const tools = workspaceToolSchema.options.filter(tool =>
+    candidates.some(candidate => candidate.tool === tool) ||
+    (tool === 'pnpm' && rootFiles.has('pnpm-workspace.yaml')) ||
+    (tool === 'lerna' && rootFiles.has('lerna.json')) ||
+    (tool === 'nx' && rootFiles.has('nx.json')) ||
+    (tool === 'go' && rootFiles.has('go.work'))
+  );
+  if (tools.length === 0) return undefined;
+
+  // Several definitions usually list the same directories; the first one to name a manifest keeps it
+  const unique = new Map<string, Candidate>();
+  for (const candidate of candidates) {
+    const key = manifestPath(candidate.dir, candidate.manifest);
+    if (!unique.has(key)) unique.set(key, candidate);
+  }
+
+  const rootCargo = candidates.some(candidate => candidate.tool === 'cargo') ? await source.readFile('Cargo.toml') : null;
+  // The root package.json of a JavaScript workspace is the workspace itself, not a package
+  const members = await mapWithConcurrency(
+    [...unique.values()].filter(candidate => candidate.dir || candidate.manifest !== 'package.json'),
+    MEMBER_CONCURRENCY,
+    candidate => readMember(source, candidate, rootCargo)
+  );
+  const packages: WorkspacePackage[] = [];
+  const skipped: Workspaces['skipped'] = [];
+  for (const member of members) {
+    if (member && 'package' in member) packages.push(member.package);
+    if (member && 'skipped' in member) skipped.push(member.skipped);
+  }
+
+  packages.sort((a, b) => a.path.localeCompare(b.path) || a.manifest.localeCompare(b.manifest));
+  return { tools, packages, skipped };
+};
@@ -1,6 +1,7 @@
 import { Tool } from '@mastra/core/tools';
 import { z } from 'zod';
 import { logToolExecution, logError } from '../config/logger';
+import { detectWorkspaces, resolveSource, type RepositorySource } from '../sources';
 
 // Common documentation patterns across languages
 const DOC_PATTERNS = {
@@ -62,7 +63,7 @@ export const analyzeRepository = new Tool({
   id: 'analyze-repository',
   description: 'Analyze a repository to detect language, documentation sources, and project structure',
   inputSchema: z.object({
-    repoUrl: z.string().describe('The GitHub repository URL'),
+    repoUrl: z.string().describe('The repository URL, local path or file:// URL'),
   }),
   outputSchema: z.object({
     primaryLanguage: z.string().describe('Primary programming language'),
@@ -85,6 +86,7 @@ export const analyzeRepository = new Tool({
       type: z.enum(['monorepo', 'standard', 'multi-package']),
       mainPath: z.string().optional(),
       packages: z.array(z.string()).optional(),
+      workspaces: z.array(z.string()).optional().describe('Workspace definitions the packages were read from: npm, pnpm, lerna, nx, cargo, go'),
       hasDocs: z.boolean(),
       hasTests: z.boolean(),
       hasExamples: z.boolean(),
@@ -98,38 +100,20 @@ export const analyzeRepository = new Tool({
     logToolExecution('analyze-repository', { repoUrl });
     
     try {
-      // Parse GitHub URL
-      const parts = repoUrl.replace('https://github.com/', '').split('/');
-      const owner = parts[0];
-      const repo = parts[1];
-      
-      // Fetch repository metadata from GitHub API
-      const repoApiUrl = `https://api.github.com/repos/${owner}/${repo}`;
-      const repoResponse = await fetch(repoApiUrl, {
-        headers: { 'Accept': 'application/vnd.github.v3+json' }
-      });
-      
-      if (!repoResponse.ok) {
-        throw new Error(`Failed to fetch repository metadata: ${repoResponse.status}`);
-      }
-      
-      const repoData = await repoResponse.json();
+      // Resolve the host and fetch repository metadata
+      const source = await resolveSource(repoUrl);
+      const repoData = await source.getMetadata();
       
       // Get language statistics
-      const languagesUrl = `https://api.github.com/repos/${owner}/${repo}/languages`;
-      const languagesResponse = await fetch(languagesUrl, {
-        headers: { 'Accept': 'application/vnd.github.v3+json' }
-      });
-      
-      const languagesData = await languagesResponse.json();
-      const totalBytes = Object.values(languagesData).reduce((sum: number, bytes: any) => sum + bytes, 0) as number;
+      const languagesData = repoData.languages;
+      const totalBytes = Object.values(languagesData).reduce((sum, bytes) => sum + bytes, 0);
       
-      const languages = Object.entries(languagesData).map(([name, bytes]: [string, any]) => ({
+      const languages = Object.entries(languagesData).map(([name, bytes]) => ({
         name,
         percentage: Math.round((bytes / totalBytes) * 100)
       })).sort((a, b) => b.percentage - a.percentage);
       
-      const primaryLanguage = languages[0]?.name.toLowerCase() || 'unknown';
+      const primaryLanguage = (languages[0]?.name || repoData.language)?.toLowerCase() || 'unknown';
       
       // Find documentation sources
       const documentationSources = [];
@@ -143,28 +127,25 @@ export const analyzeRepository = new Tool({
         });
       }
       
-      // 2. Check for GitHub wiki
-      if (repoData.has_wiki) {
+      // 2. Check for a wiki on the host
+      if (repoData.wikiUrl) {
         documentationSources.push({
           type: 'wiki' as const,
-          url: `${repoUrl}/wiki`,
+          url: repoData.wikiUrl,
           priority: 3
         });
       }
       
       // 3. Fetch README to find documentation links
-      const readmeUrl = `https://api.github.com/repos/${owner}/${repo}/readme`;
       try {
-        const readmeResponse = await fetch(readmeUrl, {
-          headers: { 'Accept': 'application/vnd.github.v3.raw' }
-        });
+        const rootEntries = await source.listDirectory('') || [];
+        const readmeEntry = rootEntries.find(entry => entry.type === 'file' && /^readme/i.test(entry.name));
+        const readmeContent = readmeEntry ? await source.readFile(readmeEntry.path) : null;
         
-        if (readmeResponse.ok) {
-          const readmeContent = await readmeResponse.text();
-          
+        if (readmeEntry && readmeContent !== null) {
           documentationSources.push({
             type: 'readme' as const,
-            path: 'README.md',
+            path: readmeEntry.path,
             priority: 2
           });
           
@@ -208,15 +189,11 @@ export const analyzeRepository = new Tool({
       let packageName = repoData.name;
       
       // Get repository contents to check for package files
-      const contentsUrl = `https://api.github.com/repos/${owner}/${repo}/contents`;
       try {
-        const contentsResponse = await fetch(contentsUrl, {
-          headers: { 'Accept': 'application/vnd.github.v3+json' }
-        });
+        const contents = await source.listDirectory('');
         
-        if (contentsResponse.ok) {
-          const contents = await contentsResponse.json();
-          const fileNames = contents.map((item: any) => item.name);
+        if (contents) {
+          const fileNames = contents.map(item => item.name);
           
           // Check for package manager files
           for (const [file, info] of Object.entries(PACKAGE_MANAGERS)) {
@@ -273,7 +250,7 @@ export const analyzeRepository = new Tool({
       }
       
       // 5. Determine project structure
-      const projectStructure = await determineProjectStructure(owner, repo);
+      const projectStructure = await determineProjectStructure(source);
       
       // Sort documentation sources by priority
       documentationSources.sort((a, b) => a.priority - b.priority);
@@ -311,14 +288,11 @@ export const analyzeRepository = new Tool({
 });
 
 // Helper function to determine project structure
-async function determineProjectStructure(owner: string, repo: string) {
+async function determineProjectStructure(source: RepositorySource) {
   try {
-    const contentsUrl = `https://api.github.com/repos/${owner}/${repo}/contents`;
-    const response = await fetch(contentsUrl, {
-      headers: { 'Accept': 'application/vnd.github.v3+json' }
-    });
+    const contents = await source.listDirectory('');
     
-    if (!response.ok) {
+    if (!contents) {
       return {
         type: 'standard' as const,
         hasDocs: false,
@@ -327,16 +301,16 @@ async function determineProjectStructure(owner: string, repo: string) {
       };
     }
     
-    const contents = await response.json();
-    const fileNames = contents.map((item: any) => item.name.toLowerCase());
-    const dirNames = contents.filter((item: any) => item.type === 'dir').map((item: any) => item.name.toLowerCase());
+    const fileNames = contents.map(item => item.name.toLowerCase());
+    const dirNames = contents.filter(item => item.type === 'dir').map(item => item.name.toLowerCase());
     
-    // Check for monorepo indicators
-    const isMonorepo = fileNames.includes('lerna.json') || 
-                      fileNames.includes('rush.json') || 
-                      fileNames.includes('pnpm-workspace.yaml') ||
-                      fileNames.includes('nx.json') ||
-                      dirNames.includes('packages');
+    // Workspace definitions list the packages; rush.json is only an indicator
+    const tree = await source.listTree().catch(error => {
+      logError('determine-project-structure', error, { action: 'list_tree' });
+      return null;
+    });
+    const workspaces = tree ? await detectWorkspaces(source, tree) : undefined;
+    const isMonorepo = workspaces !== undefined || fileNames.includes('rush.json');
     
     // Check for multi-package structure
     const isMultiPackage = dirNames.filter((name: string) => 
@@ -368,30 +342,14 @@ async function determineProjectStructure(owner: string, repo: string) {
       mainPath = 'app/';
     }
     
-    // Get packages if monorepo
-    let packages = undefined;
-    if (isMonorepo && dirNames.includes('packages')) {
-      try {
-        const packagesUrl = `https://api.github.com/repos/${owner}/${repo}/contents/packages`;
-        const packagesResponse = await fetch(packagesUrl, {
-          headers: { 'Accept': 'application/vnd.github.v3+json' }
-        });
-        
-        if (packagesResponse.ok) {
-          const packagesData = await packagesResponse.json();
-          packages = packagesData
-            .filter((item: any) => item.type === 'dir')
-            .map((item: any) => item.name);
-        }
-      } catch (error) {
-        // Ignore error, packages will be undefined
-      }
-    }
+    // Publishable packages of every workspace definition
+    const packages = workspaces?.packages.map(entry => entry.name);
     
     return {
       type: isMonorepo ? 'monorepo' as const : isMultiPackage ? 'multi-package' as const : 'standard' as const,
       mainPath,
       packages,
+      workspaces: workspaces?.tools,
       hasDocs,
       hasTests,
       hasExamples
@@ -1,6 +1,9 @@
 import { Tool } from '@mastra/core/tools';
 import { z } from 'zod';
 import { logToolExecution, logError } from '../config/logger';
+import { extractTypeScriptApis } from '../extractors/typescript';
+import { parseDocComment, precedingDocComment, pythonDocstring, withDocComment } from '../extractors/doc-comments';
+import { apiEntryFromSignature, apiEntrySchema, createApiEntry, dedupeApiEntries, parseParameters, type ApiEntry } from '../apis';
 
 export const extractAllApis = new Tool({
   id: 'extract-all-apis',
@@ -9,22 +12,32 @@ export const extractAllApis = new Tool({
     content: z.string().describe('The content to extract APIs from'),
     contentType: z.string().describe('Type of content (md, d.ts, js, ts, py, java, rust, go, rb, cpp, cs, php, swift, kt)'),
     language: z.string().optional().describe('Programming language for context'),
+    path: z.string().optional().describe('Path of the file within the repository'),
+    importPath: z.string().optional().describe('Module specifier the file is imported from, e.g. the package name for its types entry'),
+    files: z.array(z.object({
+      path: z.string(),
+      content: z.string(),
+    })).optional().describe('Other TypeScript files of the repository, used to resolve imports and re-exports'),
   }),
   outputSchema: z.object({
-    apis: z.array(z.object({
-      signature: z.string().describe('Method signature'),
-      description: z.string().describe('Brief description'),
-      category: z.string().optional().describe('API category'),
-    })).describe('Extracted API methods'),
+    apis: z.array(apiEntrySchema).describe('Extracted API entries'),
     success: z.boolean().describe('Whether extraction was successful'),
   }),
   execute: async (ctx) => {
-    const { content, contentType, language } = ctx.context;
+    const { content, contentType, language, path: filePath, files, importPath } = ctx.context;
     
     logToolExecution('extract-all-apis', { contentType, contentLength: content.length });
     
     try {
-      const apis = [];
+      const apis: ApiEntry[] = [];
+      const location = filePath ? { path: filePath } : undefined;
+      const isPython = contentType === 'py' || contentType === 'python';
+      
+      // Attach the doc comment above the match (or the docstring below a Python def/class)
+      const documented = (entry: ApiEntry, match: RegExpExecArray): ApiEntry => {
+        const doc = (isPython && pythonDocstring(content, match.index + match[0].length)) || precedingDocComment(content, match.index, { plainLineComments: contentType === 'go' });
+        return doc ? withDocComment(entry, parseDocComment(doc)) : entry;
+      };
       
       if (contentType === 'md' || contentType === 'rst') {
         // Extract APIs from markdown/restructured text documentation
@@ -46,11 +59,7 @@ export const extractAllApis = new Tool({
             while ((funcMatch = pattern.exec(codeBlock)) !== null) {
               const sig = funcMatch[0].trim();
               if (sig && !sig.startsWith('//') && !sig.startsWith('#')) {
-                apis.push({
-                  signature: sig,
-                  description: 'Extracted from code block',
-                  category: 'code-block',
-                });
+                apis.push(apiEntryFromSignature(sig, 'docs', { location }));
               }
             }
           }
@@ -68,13 +77,8 @@ export const extractAllApis = new Tool({
           let match;
           while ((match = pattern.exec(content)) !== null) {
             const signature = match[1];
-            const description = match[2] || 'API method';
             if (signature && !signature.includes(' ') || signature.includes('(')) {
-              apis.push({
-                signature,
-                description: description.trim(),
-                category: 'inline',
-              });
+              apis.push(apiEntryFromSignature(signature, 'docs', { location, doc: match[2]?.trim() }));
             }
           }
         }
@@ -89,13 +93,7 @@ export const extractAllApis = new Tool({
         for (const pattern of listPatterns) {
           let match;
           while ((match = pattern.exec(content)) !== null) {
-            const signature = match[1].trim();
-            const description = match[2].trim();
-            apis.push({
-              signature,
-              description: description || 'API method',
-              category: 'list',
-            });
+            apis.push(apiEntryFromSignature(match[1].trim(), 'docs', { location, doc: match[2].trim() || undefined }));
           }
         }
         
@@ -105,11 +103,7 @@ export const extractAllApis = new Tool({
           const signature = match[1].trim();
           const description = match[2].trim();
           if (signature && (signature.includes('(') || signature.includes('.') || signature.includes('::'))) {
-            apis.push({
-              signature,
-              description: description || 'API method',
-              category: 'table',
-            });
+            apis.push(apiEntryFromSignature(signature, 'docs', { location, doc: description || undefined }));
           }
         }
         
@@ -118,58 +112,17 @@ export const extractAllApis = new Tool({
         while ((match = headerRegex.exec(content)) !== null) {
           const signature = match[1].trim();
           if (signature && (signature.includes('(') || signature.includes('.'))) {
-            apis.push({
-              signature,
-              description: 'API section',
-              category: 'header',
-            });
-          }
-        }
-      } else if (contentType === 'd.ts' || contentType === 'ts') {
-        // Extract from TypeScript definitions
-        const exportRegex = /export\s+(?:declare\s+)?(?:function|const|let|var|class|interface|type|enum)\s+([a-zA-Z_$][a-zA-Z0-9_$]*)/g;
-        const methodRegex = /(?:export\s+)?(?:function\s+)?([a-zA-Z_$][a-zA-Z0-9_$]*)\s*(<[^>]*>)?\s*\(([^)]*)\)\s*:\s*([^;{]+)/g;
-        const propertyRegex = /([a-zA-Z_$][a-zA-Z0-9_$]*)\s*:\s*\(([^)]*)\)\s*=>\s*([^;,}]+)/g;
-        
-        // Extract function signatures
-        let match;
-        while ((match = methodRegex.exec(content)) !== null) {
-          const name = match[1];
-          const generics = match[2] || '';
-          const params = match[3];
-          const returnType = match[4];
-          
-          apis.push({
-            signature: `${name}${generics}(${params})`,
-            description: `Returns ${returnType.trim()}`,
-            category: 'function',
-          });
-        }
-        
-        // Extract property methods
-        while ((match = propertyRegex.exec(content)) !== null) {
-          const name = match[1];
-          const params = match[2];
-          const returnType = match[3];
-          
-          apis.push({
-            signature: `${name}(${params})`,
-            description: `Returns ${returnType.trim()}`,
-            category: 'method',
-          });
-        }
-        
-        // Extract exports
-        while ((match = exportRegex.exec(content)) !== null) {
-          const name = match[1];
-          if (!apis.some(api => api.signature.includes(name))) {
-            apis.push({
-              signature: name,
-              description: 'Exported entity',
-              category: 'export',
-            });
+            apis.push(apiEntryFromSignature(signature, 'docs', { location }));
           }
         }
+      } else if (contentType === 'd.ts' || contentType === 'ts' || contentType === 'tsx' || contentType === 'mts' || contentType === 'cts') {
+        // Walk the exported symbols with the TypeScript compiler; re-exports
+        // resolve into the other files passed alongside this one
+        apis.push(...extractTypeScriptApis(content, {
+          path: filePath || (contentType === 'd.ts' ? 'index.d.ts' : `index.${contentType}`),
+          files,
+          importPath,
+        }));
       } else if (contentType === 'js') {
         // Extract from JavaScript
         const functionRegex = /(?:export\s+)?(?:async\s+)?function\s+([a-zA-Z_$][a-zA-Z0-9_$]*)\s*\(([^)]*)\)/g;
@@ -181,39 +134,51 @@ export const extractAllApis = new Tool({
         
         // Extract regular functions
         while ((match = functionRegex.exec(content)) !== null) {
-          apis.push({
+          apis.push(documented(createApiEntry({
+            kind: 'function',
+            name: match[1],
             signature: `${match[1]}(${match[2]})`,
-            description: 'Function',
-            category: 'function',
-          });
+            parameters: parseParameters(match[2]),
+            location,
+            origin: 'source',
+          }), match));
         }
         
         // Extract arrow functions
         while ((match = arrowRegex.exec(content)) !== null) {
-          apis.push({
+          apis.push(documented(createApiEntry({
+            kind: 'function',
+            name: match[1],
             signature: `${match[1]}(${match[2]})`,
-            description: 'Arrow function',
-            category: 'function',
-          });
+            parameters: parseParameters(match[2]),
+            location,
+            origin: 'source',
+          }), match));
         }
         
         // Extract object methods
         while ((match = methodRegex.exec(content)) !== null) {
-          apis.push({
+          apis.push(documented(createApiEntry({
+            kind: 'method',
+            name: match[1],
             signature: `${match[1]}(${match[2]})`,
-            description: 'Method',
-            category: 'method',
-          });
+            parameters: parseParameters(match[2]),
+            location,
+            origin: 'source',
+          }), match));
         }
         
         // Extract class methods
         while ((match = classMethodRegex.exec(content)) !== null) {
           if (!['constructor', 'if', 'for', 'while', 'switch'].includes(match[1])) {
-            apis.push({
+            apis.push(documented(createApiEntry({
+              kind: 'method',
+              name: match[1],
               signature: `${match[1]}(${match[2]})`,
-              description: 'Class method',
-              category: 'method',
-            });
+              parameters: parseParameters(match[2]),
+              location,
+              origin: 'source',
+            }), match));
           }
         }
       } else if (contentType === 'py' || contentType === 'python') {
@@ -226,32 +191,28 @@ export const extractAllApis = new Tool({
         
         // Extract classes
         while ((match = classRegex.exec(content)) !== null) {
-          apis.push({
-            signature: `class ${match[1]}`,
-            description: 'Python class',
-            category: 'class',
-          });
+          apis.push(documented(createApiEntry({ kind: 'class', name: match[1], signature: `class ${match[1]}`, location, origin: 'source' }), match));
         }
         
         // Extract functions
         while ((match = functionRegex.exec(content)) !== null) {
           const name = match[1];
           const params = match[2];
-          const returnType = match[3] || '';
-          apis.push({
+          const returnType = match[3]?.trim();
+          apis.push(documented(createApiEntry({
+            kind: 'function',
+            name,
             signature: `def ${name}(${params})${returnType ? ' -> ' + returnType : ''}`,
-            description: 'Python function',
-            category: 'function',
-          });
+            parameters: parseParameters(params),
+            returnType,
+            location,
+            origin: 'source',
+          }), match));
         }
         
         // Extract decorators
         while ((match = decoratorRegex.exec(content)) !== null) {
-          apis.push({
-            signature: `@${match[1]}`,
-            description: 'Python decorator',
-            category: 'decorator',
-          });
+          apis.push(documented(createApiEntry({ kind: 'decorator', name: match[1], signature: `@${match[1]}`, location, origin: 'source' }), match));
         }
       } else if (contentType === 'java') {
         // Extract from Java source
@@ -264,20 +225,12 @@ export const extractAllApis = new Tool({
         
         // Extract classes
         while ((match = classRegex.exec(content)) !== null) {
-          apis.push({
-            signature: `class ${match[1]}`,
-            description: 'Java class',
-            category: 'class',
-          });
+          apis.push(documented(createApiEntry({ kind: 'class', name: match[1], signature: `class ${match[1]}`, location, origin: 'source' }), match));
         }
         
         // Extract interfaces
         while ((match = interfaceRegex.exec(content)) !== null) {
-          apis.push({
-            signature: `interface ${match[1]}`,
-            description: 'Java interface',
-            category: 'interface',
-          });
+          apis.push(documented(createApiEntry({ kind: 'interface', name: match[1], signature: `interface ${match[1]}`, location, origin: 'source' }), match));
         }
         
         // Extract methods
@@ -285,11 +238,14 @@ export const extractAllApis = new Tool({
           const name = match[1];
           const params = match[2];
           if (!['if', 'for', 'while', 'switch', 'catch'].includes(name)) {
-            apis.push({
+            apis.push(documented(createApiEntry({
+              kind: 'method',
+              name,
               signature: `${name}(${params})`,
-              description: 'Java method',
-              category: 'method',
-            });
+              parameters: parseParameters(params, 'type-first'),
+              location,
+              origin: 'source',
+            }), match));
           }
         }
       } else if (contentType === 'rs' || contentType === 'rust') {
@@ -304,41 +260,33 @@ export const extractAllApis = new Tool({
         
         // Extract structs
         while ((match = structRegex.exec(content)) !== null) {
-          apis.push({
-            signature: `struct ${match[1]}`,
-            description: 'Rust struct',
-            category: 'struct',
-          });
+          apis.push(documented(createApiEntry({ kind: 'struct', name: match[1], signature: `struct ${match[1]}`, location, origin: 'source' }), match));
         }
         
         // Extract enums
         while ((match = enumRegex.exec(content)) !== null) {
-          apis.push({
-            signature: `enum ${match[1]}`,
-            description: 'Rust enum',
-            category: 'enum',
-          });
+          apis.push(documented(createApiEntry({ kind: 'enum', name: match[1], signature: `enum ${match[1]}`, location, origin: 'source' }), match));
         }
         
         // Extract functions
         while ((match = fnRegex.exec(content)) !== null) {
           const name = match[1];
           const params = match[2];
-          const returnType = match[3] || '';
-          apis.push({
-            signature: `fn ${name}(${params})${returnType ? ' -> ' + returnType.trim() : ''}`,
-            description: 'Rust function',
-            category: 'function',
-          });
+          const returnType = match[3]?.trim();
+          apis.push(documented(createApiEntry({
+            kind: 'function',
+            name,
+            signature: `fn ${name}(${params})${returnType ? ' -> ' + returnType : ''}`,
+            parameters: parseParameters(params),
+            returnType,
+            location,
+            origin: 'source',
+          }), match));
         }
         
         // Extract traits
         while ((match = traitRegex.exec(content)) !== null) {
-          apis.push({
-            signature: `trait ${match[1]}`,
-            description: 'Rust trait',
-            category: 'trait',
-          });
+          apis.push(documented(createApiEntry({ kind: 'trait', name: match[1], signature: `trait ${match[1]}`, location, origin: 'source' }), match));
         }
       } else if (contentType === 'go') {
         // Extract from Go source
@@ -352,20 +300,19 @@ export const extractAllApis = new Tool({
         while ((match = funcRegex.exec(content)) !== null) {
           const name = match[1];
           const params = match[2];
-          apis.push({
+          apis.push(documented(createApiEntry({
+            kind: 'function',
+            name,
             signature: `func ${name}(${params})`,
-            description: 'Go function',
-            category: 'function',
-          });
+            parameters: parseParameters(params, 'name-first'),
+            location,
+            origin: 'source',
+          }), match));
         }
         
         // Extract types
         while ((match = typeRegex.exec(content)) !== null) {
-          apis.push({
-            signature: `type ${match[1]}`,
-            description: 'Go type',
-            category: 'type',
-          });
+          apis.push(documented(createApiEntry({ kind: 'type', name: match[1], signature: `type ${match[1]}`, location, origin: 'source' }), match));
         }
       } else if (contentType === 'rb' || contentType === 'ruby') {
         // Extract from Ruby source
@@ -378,31 +325,26 @@ export const extractAllApis = new Tool({
         
         // Extract classes
         while ((match = classRegex.exec(content)) !== null) {
-          apis.push({
-            signature: `class ${match[1]}`,
-            description: 'Ruby class',
-            category: 'class',
-          });
+          apis.push(documented(createApiEntry({ kind: 'class', name: match[1], signature: `class ${match[1]}`, location, origin: 'source' }), match));
         }
         
         // Extract modules
         while ((match = moduleRegex.exec(content)) !== null) {
-          apis.push({
-            signature: `module ${match[1]}`,
-            description: 'Ruby module',
-            category: 'module',
-          });
+          apis.push(documented(createApiEntry({ kind: 'module', name: match[1], signature: `module ${match[1]}`, location, origin: 'source' }), match));
         }
         
         // Extract methods
         while ((match = methodRegex.exec(content)) !== null) {
           const name = match[1];
           const params = match[2] || '';
-          apis.push({
+          apis.push(documented(createApiEntry({
+            kind: 'method',
+            name,
             signature: `def ${name}${params ? '(' + params + ')' : ''}`,
-            description: 'Ruby method',
-            category: 'method',
-          });
+            parameters: parseParameters(params),
+            location,
+            origin: 'source',
+          }), match));
         }
       } else if (contentType === 'cpp' || contentType === 'cc' || contentType === 'h' || contentType === 'hpp') {
         // Extract from C++ source
@@ -416,29 +358,17 @@ export const extractAllApis = new Tool({
         
         // Extract classes
         while ((match = classRegex.exec(content)) !== null) {
-          apis.push({
-            signature: `class ${match[1]}`,
-            description: 'C++ class',
-            category: 'class',
-          });
+          apis.push(documented(createApiEntry({ kind: 'class', name: match[1], signature: `class ${match[1]}`, location, origin: 'source' }), match));
         }
         
         // Extract structs
         while ((match = structRegex.exec(content)) !== null) {
-          apis.push({
-            signature: `struct ${match[1]}`,
-            description: 'C++ struct',
-            category: 'struct',
-          });
+          apis.push(documented(createApiEntry({ kind: 'struct', name: match[1], signature: `struct ${match[1]}`, location, origin: 'source' }), match));
         }
         
         // Extract templates
         while ((match = templateRegex.exec(content)) !== null) {
-          apis.push({
-            signature: `template ${match[1]}`,
-            description: 'C++ template',
-            category: 'template',
-          });
+          apis.push(documented(createApiEntry({ kind: 'template', name: match[1], signature: `template ${match[1]}`, location, origin: 'source' }), match));
         }
       } else if (contentType === 'cs' || contentType === 'csharp') {
         // Extract from C# source
@@ -451,20 +381,12 @@ export const extractAllApis = new Tool({
         
         // Extract classes
         while ((match = classRegex.exec(content)) !== null) {
-          apis.push({
-            signature: `class ${match[1]}`,
-            description: 'C# class',
-            category: 'class',
-          });
+          apis.push(documented(createApiEntry({ kind: 'class', name: match[1], signature: `class ${match[1]}`, location, origin: 'source' }), match));
         }
         
         // Extract interfaces
         while ((match = interfaceRegex.exec(content)) !== null) {
-          apis.push({
-            signature: `interface ${match[1]}`,
-            description: 'C# interface',
-            category: 'interface',
-          });
+          apis.push(documented(createApiEntry({ kind: 'interface', name: match[1], signature: `interface ${match[1]}`, location, origin: 'source' }), match));
         }
         
         // Extract methods
@@ -472,11 +394,14 @@ export const extractAllApis = new Tool({
           const name = match[1];
           const params = match[2];
           if (!['if', 'for', 'while', 'switch', 'catch'].includes(name)) {
-            apis.push({
+            apis.push(documented(createApiEntry({
+              kind: 'method',
+              name,
               signature: `${name}(${params})`,
-              description: 'C# method',
-              category: 'method',
-            });
+              parameters: parseParameters(params, 'type-first'),
+              location,
+              origin: 'source',
+            }), match));
           }
         }
       } else if (contentType === 'php') {
@@ -490,37 +415,41 @@ export const extractAllApis = new Tool({
         
         // Extract classes
         while ((match = classRegex.exec(content)) !== null) {
-          apis.push({
-            signature: `class ${match[1]}`,
-            description: 'PHP class',
-            category: 'class',
-          });
+          apis.push(documented(createApiEntry({ kind: 'class', name: match[1], signature: `class ${match[1]}`, location, origin: 'source' }), match));
         }
         
         // Extract functions
         while ((match = functionRegex.exec(content)) !== null) {
           const name = match[1];
           const params = match[2];
-          apis.push({
+          apis.push(documented(createApiEntry({
+            kind: 'function',
+            name,
             signature: `function ${name}(${params})`,
-            description: 'PHP function',
-            category: 'function',
-          });
+            parameters: parseParameters(params),
+            location,
+            origin: 'source',
+          }), match));
         }
       } else if (contentType === 'json' && content.includes('package.json')) {
         // Extract from package.json
         try {
           const pkg = JSON.parse(content);
+          const manifestEntry = (name: string, doc: string, subpath = '.') => createApiEntry({
+            kind: 'export',
+            name,
+            signature: name,
+            importPath: pkg.name ? `${pkg.name}${subpath.replace(/^\./, '')}` : undefined,
+            doc,
+            location,
+            origin: 'manifest',
+          });
           
           // Check exports field
           if (pkg.exports) {
             const addExport = (key: string, value: any) => {
               if (typeof value === 'string') {
-                apis.push({
-                  signature: key === '.' ? 'default export' : key,
-                  description: `Exported from ${value}`,
-                  category: 'export',
-                });
+                apis.push(manifestEntry(key === '.' ? 'default export' : key, `Exported from ${value}`, key.startsWith('.') ? key : '.'));
               } else if (typeof value === 'object') {
                 Object.entries(value).forEach(([k, v]: [string, any]) => {
                   addExport(k, v);
@@ -537,20 +466,12 @@ export const extractAllApis = new Tool({
           
           // Check main field
           if (pkg.main) {
-            apis.push({
-              signature: 'main',
-              description: `Main entry: ${pkg.main}`,
-              category: 'export',
-            });
+            apis.push(manifestEntry('main', `Main entry: ${pkg.main}`));
           }
           
           // Check types field
           if (pkg.types || pkg.typings) {
-            apis.push({
-              signature: 'types',
-              description: `TypeScript definitions: ${pkg.types || pkg.typings}`,
-              category: 'export',
-            });
+            apis.push(manifestEntry('types', `TypeScript definitions: ${pkg.types || pkg.typings}`));
           }
         } catch (error) {
           logError('extract-all-apis', error, { action: 'parse_package_json' });
@@ -558,16 +479,7 @@ export const extractAllApis = new Tool({
       }
       
       // Deduplicate APIs by signature
-      const uniqueApis = [];
-      const seen = new Set();
-      
-      for (const api of apis) {
-        const key = api.signature;
-        if (!seen.has(key)) {
-          seen.add(key);
-          uniqueApis.push(api);
-        }
-      }
+      const uniqueApis = dedupeApiEntries(apis);
       
       const result = {
         apis: uniqueApis,
@@ -1,480 +1,258 @@
 import { Tool } from '@mastra/core/tools';
 import { z } from 'zod';
 import { logToolExecution, logError } from '../config/logger';
+import { mergeProjectConfigs, projectConfigSchema, projectLimits, readProjectConfig, MAX_LIMITS, type ProjectConfig } from '../config/project';
+import { fileCategorySchema, resolveSource, selectRepositoryFiles, PackageSource, type FileCategory } from '../sources';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { OfflineCacheMissError } from '../utils/http-cache';
+import { RateLimitError } from '../utils/http-retry';
+import { matchesAnyGlob } from '../utils/glob';
+import { estimateTokens } from '../utils/tokens';
 
-// Helper to estimate token count (rough estimate: 4 chars = 1 token)
-const estimateTokens = (text: string): number => {
-  return Math.ceil(text.length / 4);
+// File type label used by the extractors
+export const fileTypeOf = (path: string): string => {
+  return /\.d\.[cm]?ts$/.test(path) ? 'd.ts' : path.split('.').pop() || 'unknown';
 };
 
-// Files to skip for API documentation
-const SKIP_FILES = [
-  'CHANGELOG.md',
-  'CONTRIBUTING.md', 
-  'CODE_OF_CONDUCT.md',
-  'SECURITY.md',
-  'LICENSE',
-  'LICENSE.md',
-  'PATENTS',
-  '.github',
-  'HISTORY.md',
-  'CHANGES.md',
-  'NEWS.md'
-];
+// Files the root package.json points at, matched against the tree: "main"
+// may omit its extension or name a directory
+const manifestEntryPoints = (content: string | null, paths: Set<string>): string[] => {
+  if (content === null) return [];
+  try {
+    const manifest = JSON.parse(content);
+    return [manifest.types, manifest.typings, manifest.main, manifest.module]
+      .filter((entry): entry is string => typeof entry === 'string')
+      .map(entry => entry.replace(/^\.\//, '').replace(/\/$/, ''))
+      .flatMap(entry => [entry, `${entry}.js`, `${entry}/index.js`, `${entry}.d.ts`])
+      .filter(entry => paths.has(entry));
+  } catch (error) {
+    logError('fetch-all-docs', error, { action: 'parse_package_json' });
+    return [];
+  }
+};
+
+// Published packages declare their entry points, so nothing has to be guessed:
+// README, package.json, the declarations reachable from "types"/"exports",
+// or the JavaScript entry point when no declarations are shipped
+const fetchPackageFiles = async (
+  source: PackageSource,
+  searchType: 'docs' | 'types' | 'source' | 'all',
+  maxFiles: number,
+  config: ProjectConfig
+) => {
+  const files: Array<{ path: string; content: string; type: string; estimatedTokens: number }> = [];
+  const add = (path: string, content: string) => {
+    if (config.exclude?.length && matchesAnyGlob(path, config.exclude)) return;
+    if (files.length < maxFiles) {
+      files.push({ path, content, type: fileTypeOf(path), estimatedTokens: estimateTokens(content) });
+    }
+  };
+
+  if (searchType === 'docs' || searchType === 'all') {
+    const root = await source.listDirectory('') || [];
+    // Prefer README.md over translations such as README-es.md
+    const [readme] = root
+      .filter(entry => entry.type === 'file' && /^readme/i.test(entry.name))
+      .sort((a, b) => a.name.length - b.name.length);
+    const content = readme ? await source.readFile(readme.path) : null;
+    if (readme && content !== null) add(readme.path, content);
+  }
+
+  if (searchType === 'source' || searchType === 'all') {
+    const manifest = await source.readFile('package.json');
+    if (manifest !== null) add('package.json', manifest);
+  }
+
+  if (searchType === 'types' || searchType === 'all' || searchType === 'source') {
+    const declarations = await source.declarationFiles(Math.max(maxFiles - files.length, 0));
+    for (const declaration of declarations) {
+      add(declaration.path, declaration.content);
+    }
 
-// Check if file should be skipped
-const shouldSkipFile = (path: string): boolean => {
-  const upperPath = path.toUpperCase();
-  return SKIP_FILES.some(skip => upperPath.includes(skip.toUpperCase()));
+    if (declarations.length === 0) {
+      const entry = await source.entryFile();
+      if (entry) add(entry.path, entry.content);
+    }
+  }
+
+  return files;
 };
 
 export const fetchAllDocs = new Tool({
   id: 'fetch-all-docs',
-  description: 'Fetch all documentation files from a GitHub repository including README, API docs, TypeScript definitions, and source files',
+  description: 'Fetch all documentation files from a repository (GitHub, GitLab, Bitbucket, Gitea, any git remote or local checkout) including README, API docs, TypeScript definitions, and source files',
   inputSchema: z.object({
-    repoUrl: z.string().describe('The GitHub repository URL'),
+    repoUrl: z.string().describe('The repository URL, local path or file:// URL (optionally suffixed with @ref)'),
     searchType: z.enum(['docs', 'types', 'source', 'all']).optional().describe('Type of files to search for'),
     maxFiles: z.number().optional().describe('Maximum number of files to fetch'),
+    ref: z.string().optional().describe('Branch, tag or commit to read (defaults to the default branch)'),
+    config: projectConfigSchema.optional().describe('Project configuration, ahead of the repository\'s own docsgen.config'),
+    packagePath: z.string().optional().describe('Workspace package directory to read instead of the whole repository'),
   }),
   outputSchema: z.object({
     files: z.array(z.object({
       path: z.string(),
       content: z.string(),
       type: z.string(),
+      category: fileCategorySchema.optional().describe('What the file is in the repository: docs, types, source, examples...'),
+      estimatedTokens: z.number().optional(),
     })).describe('Array of fetched files with their content'),
     success: z.boolean().describe('Whether the fetch was successful'),
     error: z.string().optional().describe('Error message if fetch failed'),
     totalFound: z.number().optional().describe('Total number of relevant files found'),
+    categories: z.record(z.number()).optional().describe('Number of files in the repository tree per category'),
+    commitSha: z.string().optional().describe('Commit every file was read at (absent for local working trees)'),
+    version: z.string().optional().describe('Published version, for installed packages and tarballs'),
+    config: projectConfigSchema.optional().describe('Project configuration in effect: the repository\'s docsgen.config (file selection and output only) under the one passed in'),
   }),
   execute: async (ctx) => {
-    const { repoUrl, searchType = 'all', maxFiles = 50 } = ctx.context;
+    const { repoUrl, searchType = 'all', ref } = ctx.context;
+    // Paths inside a workspace package are read relative to its directory
+    const packageDir = (ctx.context.packagePath || '').replace(/^\.\//, '').replace(/^\.$/, '').replace(/\/+$/, '');
+    const prefix = packageDir ? `${packageDir}/` : '';
     
-    logToolExecution('fetch-all-docs', { repoUrl, searchType, maxFiles });
+    logToolExecution('fetch-all-docs', { repoUrl, searchType, maxFiles: ctx.context.maxFiles, ref, packagePath: packageDir || undefined });
     
     try {
-      const files = [];
-      
-      // Convert GitHub URL to API URL
-      const parts = repoUrl.replace('https://github.com/', '').split('/');
-      const owner = parts[0];
-      const repo = parts[1];
+      const files: Array<{ path: string; content: string; type: string; category?: FileCategory; estimatedTokens: number }> = [];
+      const source = await resolveSource(repoUrl, ref);
       
-      // Paths to check based on search type
-      let docPaths = [];
+      // Pin every read below to one commit so the files are consistent
+      const commitSha = await source.resolveCommit() || undefined;
       
-      if (searchType === 'docs' || searchType === 'all') {
-        docPaths.push(
-          'README.md',
-          'readme.md',
-          'README.rst',
-          'API.md',
-          'api.md',
-          'REFERENCE.md',
-          'reference.md',
-          'docs/API.md',
-          'docs/api.md',
-          'docs/reference.md',
-          'docs/getting-started.md',
-          'docs/quick-start.md',
-          'documentation.md',
-          'DOCUMENTATION.md',
-          'USAGE.md',
-          'GUIDE.md'
-          // Explicitly excluding CHANGELOG.md and similar files
-        );
+      // The repository's docsgen.config, then the package's own, with the caller's settings on top
+      const projectConfig = await readProjectConfig(source);
+      const packageConfig = packageDir ? await readProjectConfig(source, packageDir) : undefined;
+      const config = mergeProjectConfigs(projectConfig?.config, packageConfig?.config, ctx.context.config);
+      const limits = projectLimits(config);
+      const maxFiles = Math.min(ctx.context.maxFiles ?? limits.maxFiles, MAX_LIMITS.maxFiles);
+      for (const read of [projectConfig, packageConfig]) {
+        if (!read) continue;
+        logToolExecution('fetch-all-docs', { action: 'read_project_config', file: read.file, ignored: read.ignored });
+        if (read.ignored.length > 0) {
+          console.warn(`WARNING: ${read.file} cannot set ${read.ignored.join(', ')}; pass them with --config or the API's config instead`);
+        }
       }
       
-      if (searchType === 'types' || searchType === 'all') {
-        docPaths.push(
-          'index.d.ts',
-          'types/index.d.ts',
-          'dist/index.d.ts',
-          'lib/index.d.ts',
-          'typings/index.d.ts',
-          'lodash.d.ts',  // For lodash specifically
-          'types.d.ts'
-        );
+      // Installed packages and tarballs: read exactly what was published
+      if (source instanceof PackageSource) {
+        if (packageDir) {
+          throw new Error(`${repoUrl} is a published package; it has no workspace packages to read`);
+        }
+        const packageFiles = await fetchPackageFiles(source, searchType, maxFiles, config);
+        const version = await source.getVersion();
+        
+        logToolExecution('fetch-all-docs', { repoUrl }, {
+          success: packageFiles.length > 0,
+          filesCount: packageFiles.length,
+          source: source.kind,
+          version
+        });
+        
+        return {
+          files: packageFiles,
+          success: packageFiles.length > 0,
+          error: packageFiles.length === 0 ? 'No documentation or declaration files found in package' : undefined,
+          totalFound: packageFiles.length,
+          version,
+          config,
+        };
       }
       
-      if (searchType === 'source' || searchType === 'all') {
-        docPaths.push(
-          'package.json',
-          'index.js',
-          'index.ts',
-          'src/index.js',
-          'src/index.ts',
-          'lib/index.js',
-          'dist/index.js',
-          'lodash.js',  // For lodash specifically
-          'main.js',
-          'main.ts'
-        );
+      // Every file at the ref in one listing, classified and ranked; nothing is guessed
+      const repoTree = await source.listTree();
+      if (!repoTree) {
+        throw new Error(`Could not list the files in ${repoUrl}`);
       }
       
-      // Try to fetch from GitHub API for repository contents
-      const baseUrl = repoUrl
-        .replace('github.com', 'raw.githubusercontent.com')
-        .replace(/\/$/, '');
-      
-      // Try main branch first, then master
-      const branches = ['main', 'master'];
-      let branch = 'main';
-      
-      for (const currentBranch of branches) {
-        const testUrl = `${baseUrl}/${currentBranch}/README.md`;
-        const response = await fetch(testUrl);
-        if (response.ok) {
-          branch = currentBranch;
-          break;
-        }
+      const tree = prefix
+        ? repoTree.filter(entry => entry.path.startsWith(prefix)).map(entry => ({ ...entry, path: entry.path.substring(prefix.length) }))
+        : repoTree;
+      if (tree.length === 0) {
+        throw new Error(`No files under ${packageDir} in ${repoUrl}`);
       }
       
-      // Fetch each documentation file
-      for (const path of docPaths) {
-        // Skip if we've reached max files
-        if (files.length >= maxFiles) break;
-        
-        // Skip unwanted files
-        if (shouldSkipFile(path)) {
-          console.log(`Skipping non-API file: ${path}`);
-          continue;
-        }
-        
-        try {
-          const rawUrl = `${baseUrl}/${branch}/${path}`;
-          const response = await fetch(rawUrl);
-          
-          if (response.ok) {
-            const content = await response.text();
-            const fileType = path.split('.').pop() || 'unknown';
-            const tokens = estimateTokens(content);
-            
-            // Warn about large files
-            if (tokens > 50000) {
-              console.warn(`WARNING: ${path} is very large (${tokens} tokens, ${content.length} chars). Will need chunking.`);
-              
-              // Don't truncate package.json as we need to parse it later
-              if (path === 'package.json') {
-                files.push({
-                  path,
-                  content,
-                  type: fileType,
-                  estimatedTokens: tokens,
-                  largeFile: true
-                });
-              } else {
-                // For other files, truncate to first 200KB
-                const truncatedContent = content.substring(0, 200000);
-                files.push({
-                  path,
-                  content: truncatedContent,
-                  type: fileType,
-                  truncated: true,
-                  originalSize: content.length,
-                  estimatedTokens: tokens
-                });
-              }
-            } else {
-              files.push({
-                path,
-                content,
-                type: fileType,
-                estimatedTokens: tokens
-              });
-            }
-            
-            logToolExecution('fetch-all-docs', { 
-              action: 'fetched_file', 
-              path, 
-              contentLength: content.length,
-              tokens
-            });
-          }
-        } catch (error) {
-          // Continue with other files if one fails
-          logError('fetch-all-docs', error, { path });
-        }
-      }
+      const rootManifest = tree.some(entry => entry.path === 'package.json') ? await source.readFile(`${prefix}package.json`) : null;
+      const entryPoints = manifestEntryPoints(rootManifest, new Set(tree.map(entry => entry.path)));
+      const selection = selectRepositoryFiles(tree, {
+        searchType,
+        maxFiles,
+        entryPoints,
+        pinned: config.entryPoints,
+        include: config.include,
+        exclude: config.exclude,
+        priorities: config.priorities
+      });
+      
+      logToolExecution('fetch-all-docs', {
+        action: 'listed_tree',
+        treeFiles: tree.length,
+        categories: selection.categories,
+        selected: selection.files.length
+      });
       
-      // Try to fetch from GitHub API to discover more files
-      if (files.length < maxFiles && (searchType === 'all' || searchType === 'docs')) {
+      // Read in parallel, at most limits.concurrency at a time; results keep the ranked order
+      const fetchStart = Date.now();
+      const fetched = await mapWithConcurrency(selection.files, limits.concurrency, async file => {
+        const startTime = Date.now();
         try {
-          // First, try to discover the repository structure
-          const repoApiUrl = `https://api.github.com/repos/${owner}/${repo}`;
-          const repoResponse = await fetch(repoApiUrl, {
-            headers: { 'Accept': 'application/vnd.github.v3+json' }
-          });
-          
-          if (repoResponse.ok) {
-            const repoData = await repoResponse.json();
-            console.log(`Repository: ${repoData.full_name}, Language: ${repoData.language}`);
-          }
+          const content = file.path === 'package.json' ? rootManifest : await source.readFile(`${prefix}${file.path}`);
+          if (content === null) return null;
           
-          // Try common documentation directories
-          const docDirs = ['docs', 'documentation', 'doc', 'api-docs'];
+          const tokens = estimateTokens(content);
           
-          for (const dir of docDirs) {
-            if (files.length >= maxFiles) break;
-            
-            const docsUrl = `https://api.github.com/repos/${owner}/${repo}/contents/${dir}`;
-            const docsResponse = await fetch(docsUrl, {
-              headers: { 'Accept': 'application/vnd.github.v3+json' }
-            });
-            
-            if (docsResponse.ok) {
-              const docsContents = await docsResponse.json();
-              for (const file of docsContents) {
-                if (files.length >= maxFiles) break;
-                
-                if (file.type === 'file' && (file.name.endsWith('.md') || file.name.endsWith('.rst'))) {
-                  const filePath = `${dir}/${file.name}`;
-                  
-                  // Skip unwanted files
-                  if (shouldSkipFile(filePath)) {
-                    console.log(`Skipping non-API file: ${filePath}`);
-                    continue;
-                  }
-                  
-                  try {
-                    const fileResponse = await fetch(file.download_url);
-                    if (fileResponse.ok) {
-                      const content = await fileResponse.text();
-                      const tokens = estimateTokens(content);
-                      
-                      // Handle large files
-                      if (tokens > 50000) {
-                        console.warn(`WARNING: ${filePath} is very large (${tokens} tokens). Truncating.`);
-                        const truncatedContent = content.substring(0, 200000);
-                        files.push({
-                          path: filePath,
-                          content: truncatedContent,
-                          type: file.name.split('.').pop() || 'unknown',
-                          truncated: true,
-                          originalSize: content.length,
-                          estimatedTokens: tokens
-                        });
-                      } else {
-                        files.push({
-                          path: filePath,
-                          content,
-                          type: file.name.split('.').pop() || 'unknown',
-                          estimatedTokens: tokens
-                        });
-                      }
-                    }
-                  } catch (error) {
-                    logError('fetch-all-docs', error, { file: file.name });
-                  }
-                }
-              }
-            }
+          // Truncate very large files (by default to their first 200KB); package.json is parsed later, so it stays whole
+          const truncate = tokens > limits.maxFileTokens && file.path !== 'package.json';
+          if (truncate) {
+            console.warn(`WARNING: ${file.path} is very large (${tokens} tokens, ${content.length} chars). Truncating.`);
           }
-        } catch (error) {
-          logError('fetch-all-docs', error, { action: 'fetch_docs_directory' });
-        }
-      }
-      
-      // Try to fetch TypeScript definitions from multiple locations
-      if (files.length < maxFiles && (searchType === 'types' || searchType === 'all')) {
-        try {
-          // Check multiple common locations for type definitions
-          const typeLocations = ['', 'types', 'typings', 'dist', 'lib', '@types'];
           
-          for (const location of typeLocations) {
-            if (files.length >= maxFiles) break;
-            
-            const url = location 
-              ? `https://api.github.com/repos/${owner}/${repo}/contents/${location}`
-              : `https://api.github.com/repos/${owner}/${repo}/contents`;
-              
-            const response = await fetch(url, {
-              headers: { 'Accept': 'application/vnd.github.v3+json' }
-            });
-            
-            if (response.ok) {
-              const contents = await response.json();
-              
-              // For directories, look for .d.ts files
-              if (Array.isArray(contents)) {
-                for (const file of contents) {
-                  if (files.length >= maxFiles) break;
-                  
-                  if (file.type === 'file' && file.name.endsWith('.d.ts')) {
-                    try {
-                      const fileResponse = await fetch(file.download_url);
-                      if (fileResponse.ok) {
-                        const content = await fileResponse.text();
-                        const filePath = location ? `${location}/${file.name}` : file.name;
-                        files.push({
-                          path: filePath,
-                          content,
-                          type: 'd.ts',
-                        });
-                        
-                        logToolExecution('fetch-all-docs', { 
-                          action: 'fetched_type_definition', 
-                          path: filePath,
-                          contentLength: content.length 
-                        });
-                      }
-                    } catch (error) {
-                      logError('fetch-all-docs', error, { file: file.name });
-                    }
-                  }
-                }
-              }
-            }
-          }
-        } catch (error) {
-          logError('fetch-all-docs', error, { action: 'fetch_type_definitions' });
-        }
-      }
-      
-      // Check if it's a monorepo and handle packages directory
-      if (files.length < maxFiles && (searchType === 'types' || searchType === 'all')) {
-        try {
-          const packagesUrl = `https://api.github.com/repos/${owner}/${repo}/contents/packages`;
-          const packagesResponse = await fetch(packagesUrl, {
-            headers: { 'Accept': 'application/vnd.github.v3+json' }
+          logToolExecution('fetch-all-docs', { 
+            action: 'fetched_file', 
+            path: file.path, 
+            category: file.category,
+            contentLength: content.length,
+            tokens,
+            durationMs: Date.now() - startTime
           });
           
-          if (packagesResponse.ok) {
-            const packages = await packagesResponse.json();
-            console.log(`Found monorepo with ${packages.length} packages`);
-            
-            // For monorepos, look for main packages
-            for (const pkg of packages) {
-              if (files.length >= maxFiles) break;
-              
-              if (pkg.type === 'dir') {
-                // Try to fetch package.json and type definitions from each package
-                const pkgJsonUrl = `https://api.github.com/repos/${owner}/${repo}/contents/packages/${pkg.name}/package.json`;
-                const pkgJsonResponse = await fetch(pkgJsonUrl, {
-                  headers: { 'Accept': 'application/vnd.github.v3+json' }
-                });
-                
-                if (pkgJsonResponse.ok) {
-                  const pkgJsonData = await pkgJsonResponse.json();
-                  const pkgJsonContent = Buffer.from(pkgJsonData.content, 'base64').toString();
-                  
-                  files.push({
-                    path: `packages/${pkg.name}/package.json`,
-                    content: pkgJsonContent,
-                    type: 'json',
-                  });
-                  
-                  // Try to find type definitions in this package
-                  const pkgTypesUrl = `https://api.github.com/repos/${owner}/${repo}/contents/packages/${pkg.name}`;
-                  const pkgTypesResponse = await fetch(pkgTypesUrl, {
-                    headers: { 'Accept': 'application/vnd.github.v3+json' }
-                  });
-                  
-                  if (pkgTypesResponse.ok && files.length < maxFiles) {
-                    const pkgContents = await pkgTypesResponse.json();
-                    for (const file of pkgContents) {
-                      if (files.length >= maxFiles) break;
-                      
-                      if (file.type === 'file' && (file.name === 'index.d.ts' || file.name === 'index.ts' || file.name === 'index.js')) {
-                        try {
-                          const fileResponse = await fetch(file.download_url);
-                          if (fileResponse.ok) {
-                            const content = await fileResponse.text();
-                            files.push({
-                              path: `packages/${pkg.name}/${file.name}`,
-                              content,
-                              type: file.name.split('.').pop() || 'unknown',
-                            });
-                          }
-                        } catch (error) {
-                          logError('fetch-all-docs', error, { file: file.name });
-                        }
-                      }
-                    }
-                  }
-                }
-              }
-            }
-          }
+          return {
+            path: file.path,
+            content: truncate ? content.substring(0, limits.truncateAt) : content,
+            type: fileTypeOf(file.path),
+            category: file.category,
+            estimatedTokens: tokens
+          };
         } catch (error) {
-          // Not a monorepo, continue with regular processing
-          console.log('Not a monorepo structure');
+          // An uncached file offline or a used-up rate limit must fail the run with its message, not drop files
+          if (error instanceof OfflineCacheMissError || error instanceof RateLimitError) throw error;
+          // Continue with other files if one fails
+          logError('fetch-all-docs', error, { path: file.path, durationMs: Date.now() - startTime });
+          return null;
         }
-      }
+      });
+      files.push(...fetched.filter(file => file !== null));
       
-      // Try to fetch main source file if specified in package.json
-      if (searchType === 'source' || searchType === 'all') {
-        const packageJsonFile = files.find(f => f.path === 'package.json');
-        if (packageJsonFile) {
-          // Skip parsing if the file was truncated to avoid JSON parse errors
-          if (packageJsonFile.truncated) {
-            console.log('Skipping package.json parsing - file was truncated');
-          } else {
-            try {
-              const pkg = JSON.parse(packageJsonFile.content);
-              const mainFile = pkg.main || pkg.module || pkg.browser;
-              const typesFile = pkg.types || pkg.typings;
-            
-            if (mainFile && files.length < maxFiles) {
-              const mainUrl = `${baseUrl}/${branch}/${mainFile}`;
-              try {
-                const response = await fetch(mainUrl);
-                if (response.ok) {
-                  const content = await response.text();
-                  files.push({
-                    path: mainFile,
-                    content,
-                    type: mainFile.split('.').pop() || 'js',
-                  });
-                  
-                  logToolExecution('fetch-all-docs', { 
-                    action: 'fetched_main_file', 
-                    path: mainFile,
-                    contentLength: content.length 
-                  });
-                }
-              } catch (error) {
-                logError('fetch-all-docs', error, { file: mainFile });
-              }
-            }
-            
-            if (typesFile && files.length < maxFiles) {
-              const typesUrl = `${baseUrl}/${branch}/${typesFile}`;
-              try {
-                const response = await fetch(typesUrl);
-                if (response.ok) {
-                  const content = await response.text();
-                  files.push({
-                    path: typesFile,
-                    content,
-                    type: 'd.ts',
-                  });
-                  
-                  logToolExecution('fetch-all-docs', { 
-                    action: 'fetched_types_file', 
-                    path: typesFile,
-                    contentLength: content.length 
-                  });
-                }
-              } catch (error) {
-                logError('fetch-all-docs', error, { file: typesFile });
-              }
-            }
-            } catch (error) {
-              logError('fetch-all-docs', error, { action: 'parse_package_json' });
-            }
-          }
-        }
-      }
+      logToolExecution('fetch-all-docs', {
+        action: 'fetched_files',
+        files: files.length,
+        concurrency: limits.concurrency,
+        durationMs: Date.now() - fetchStart
+      });
       
       const result = {
         files,
         success: files.length > 0,
         error: files.length === 0 ? 'No documentation files found' : undefined,
-        totalFound: files.length,
+        totalFound: selection.candidates,
+        categories: selection.categories,
+        commitSha,
+        config,
       };
       
       logToolExecution('fetch-all-docs', { repoUrl }, { 
         success: result.success, 
+        commitSha,
         filesCount: files.length,
         totalSize: files.reduce((sum, f) => sum + f.content.length, 0),
         searchType
@@ -1,6 +1,8 @@
 import { Tool } from '@mastra/core/tools';
 import { z } from 'zod';
 import { logToolExecution, logError } from '../config/logger';
+import { cachedFetch } from '../utils/http-cache';
+import { apiEntryFromSignature, apiEntrySchema, createApiEntry, type ApiEntry } from '../apis';
 
 // Package registry configurations
 const REGISTRIES = {
@@ -95,11 +97,7 @@ export const fetchRegistryDocs = new Tool({
       documentation: z.string().optional(),
     }).describe('Package metadata'),
     readme: z.string().optional().describe('Package README content'),
-    apis: z.array(z.object({
-      signature: z.string(),
-      description: z.string(),
-      category: z.string().optional(),
-    })).optional().describe('APIs extracted from package docs'),
+    apis: z.array(apiEntrySchema).optional().describe('APIs extracted from package docs'),
     types: z.string().optional().describe('TypeScript type definitions'),
     success: z.boolean(),
     error: z.string().optional(),
@@ -116,12 +114,12 @@ export const fetchRegistryDocs = new Tool({
       };
       let readme: string | undefined;
       let types: string | undefined;
-      let apis: any[] = [];
+      let apis: ApiEntry[] = [];
       
       switch (registry) {
         case 'npm': {
           // Fetch from npm registry
-          const response = await fetch((registryConfig as any).packageUrl(packageName));
+          const response = await cachedFetch((registryConfig as any).packageUrl(packageName));
           
           if (!response.ok) {
             throw new Error(`Package not found: ${packageName}`);
@@ -149,7 +147,7 @@ export const fetchRegistryDocs = new Tool({
             try {
               const typesPackageName = (registryConfig as any).typesPackage?.(packageName);
               if (!typesPackageName) break;
-              const typesResponse = await fetch((registryConfig as any).packageUrl(typesPackageName));
+              const typesResponse = await cachedFetch((registryConfig as any).packageUrl(typesPackageName));
               
               if (typesResponse.ok) {
                 const typesData = await typesResponse.json();
@@ -158,7 +156,7 @@ export const fetchRegistryDocs = new Tool({
                 if (latestTypesVersion) {
                   // Fetch the actual .d.ts file from unpkg
                   const unpkgUrl = `https://unpkg.com/${typesPackageName}@${latestTypesVersion}/index.d.ts`;
-                  const dtsResponse = await fetch(unpkgUrl);
+                  const dtsResponse = await cachedFetch(unpkgUrl, {}, { immutable: true });
                   
                   if (dtsResponse.ok) {
                     types = await dtsResponse.text();
@@ -175,7 +173,7 @@ export const fetchRegistryDocs = new Tool({
         }
         
         case 'pypi': {
-          const response = await fetch((registryConfig as any).packageUrl(packageName));
+          const response = await cachedFetch((registryConfig as any).packageUrl(packageName));
           
           if (!response.ok) {
             throw new Error(`Package not found: ${packageName}`);
@@ -202,25 +200,13 @@ export const fetchRegistryDocs = new Tool({
             
             let match;
             while ((match = functionPattern.exec(readme || '')) !== null) {
-              apis.push({
-                signature: match[1],
-                description: 'Python function',
-                category: 'function'
-              });
+              apis.push(apiEntryFromSignature(match[1], 'registry', { kind: 'function' }));
             }
             while ((match = classPattern.exec(readme || '')) !== null) {
-              apis.push({
-                signature: match[1],
-                description: 'Python class',
-                category: 'class'
-              });
+              apis.push(apiEntryFromSignature(match[1], 'registry', { kind: 'class' }));
             }
             while ((match = methodPattern.exec(readme || '')) !== null) {
-              apis.push({
-                signature: match[1],
-                description: 'Python method',
-                category: 'method'
-              });
+              apis.push(apiEntryFromSignature(match[1], 'registry', { kind: 'method' }));
             }
           }
           
@@ -228,7 +214,7 @@ export const fetchRegistryDocs = new Tool({
         }
         
         case 'cargo': {
-          const response = await fetch((registryConfig as any).packageUrl(packageName));
+          const response = await cachedFetch((registryConfig as any).packageUrl(packageName));
           
           if (!response.ok) {
             throw new Error(`Package not found: ${packageName}`);
@@ -251,7 +237,7 @@ export const fetchRegistryDocs = new Tool({
           // Try to fetch API docs from docs.rs
           try {
             const docsUrl = `${(registryConfig as any).docsUrl?.(packageName)}/latest/${packageName}/`;
-            const docsResponse = await fetch(docsUrl);
+            const docsResponse = await cachedFetch(docsUrl);
             
             if (docsResponse.ok) {
               const docsHtml = await docsResponse.text();
@@ -263,25 +249,13 @@ export const fetchRegistryDocs = new Tool({
               
               let match;
               while ((match = structPattern.exec(docsHtml)) !== null) {
-                apis.push({
-                  signature: `struct ${match[1]}`,
-                  description: 'Rust struct',
-                  category: 'struct'
-                });
+                apis.push(createApiEntry({ kind: 'struct', name: match[1], signature: `struct ${match[1]}`, origin: 'registry' }));
               }
               while ((match = fnPattern.exec(docsHtml)) !== null) {
-                apis.push({
-                  signature: `fn ${match[1]}`,
-                  description: 'Rust function',
-                  category: 'function'
-                });
+                apis.push(createApiEntry({ kind: 'function', name: match[1], signature: `fn ${match[1]}`, origin: 'registry' }));
               }
               while ((match = traitPattern.exec(docsHtml)) !== null) {
-                apis.push({
-                  signature: `trait ${match[1]}`,
-                  description: 'Rust trait',
-                  category: 'trait'
-                });
+                apis.push(createApiEntry({ kind: 'trait', name: match[1], signature: `trait ${match[1]}`, origin: 'registry' }));
               }
             }
           } catch (error) {
@@ -292,7 +266,7 @@ export const fetchRegistryDocs = new Tool({
         }
         
         case 'rubygems': {
-          const response = await fetch((registryConfig as any).packageUrl(packageName));
+          const response = await cachedFetch((registryConfig as any).packageUrl(packageName));
           
           if (!response.ok) {
             throw new Error(`Package not found: ${packageName}`);
@@ -318,7 +292,7 @@ export const fetchRegistryDocs = new Tool({
         case 'go': {
           // Fetch from Go proxy
           try {
-            const proxyResponse = await fetch((registryConfig as any).proxyUrl?.(packageName));
+            const proxyResponse = await cachedFetch((registryConfig as any).proxyUrl?.(packageName));
             
             if (proxyResponse.ok) {
               const data = await proxyResponse.json();
@@ -343,7 +317,7 @@ export const fetchRegistryDocs = new Tool({
           
           // Try to scrape pkg.go.dev for API docs
           try {
-            const docsResponse = await fetch((registryConfig as any).packageUrl(packageName));
+            const docsResponse = await cachedFetch((registryConfig as any).packageUrl(packageName));
             
             if (docsResponse.ok) {
               const html = await docsResponse.text();
@@ -354,18 +328,10 @@ export const fetchRegistryDocs = new Tool({
               
               let match;
               while ((match = funcPattern.exec(html)) !== null) {
-                apis.push({
-                  signature: `func ${match[1]}`,
-                  description: 'Go function',
-                  category: 'function'
-                });
+                apis.push(createApiEntry({ kind: 'function', name: match[1], signature: `func ${match[1]}`, origin: 'registry' }));
               }
               while ((match = typePattern.exec(html)) !== null) {
-                apis.push({
-                  signature: `type ${match[1]}`,
-                  description: 'Go type',
-                  category: 'type'
-                });
+                apis.push(createApiEntry({ kind: 'type', name: match[1], signature: `type ${match[1]}`, origin: 'registry' }));
               }
             }
           } catch (error) {
@@ -383,7 +349,7 @@ export const fetchRegistryDocs = new Tool({
             throw new Error('Maven packages require format: groupId:artifactId');
           }
           
-          const response = await fetch((registryConfig as any).packageUrl(group, artifact));
+          const response = await cachedFetch((registryConfig as any).packageUrl(group, artifact));
           
           if (!response.ok) {
             throw new Error(`Package not found: ${packageName}`);
@@ -420,21 +386,23 @@ export const fetchRegistryDocs = new Tool({
           const code = match[1];
           
           // Extract function-like patterns
-          const funcPatterns = [
-            /(?:function|def|fn|func)\s+(\w+)\s*\([^)]*\)/g,
-            /(\w+)\s*:\s*\([^)]*\)\s*=>/g,
-            /class\s+(\w+)/g,
-            /interface\s+(\w+)/g,
+          const funcPatterns: Array<[RegExp, ApiEntry['kind']]> = [
+            [/(?:function|def|fn|func)\s+(\w+)\s*\([^)]*\)/g, 'function'],
+            [/(\w+)\s*:\s*\([^)]*\)\s*=>/g, 'function'],
+            [/class\s+(\w+)/g, 'class'],
+            [/interface\s+(\w+)/g, 'interface'],
           ];
           
-          for (const pattern of funcPatterns) {
+          for (const [pattern, kind] of funcPatterns) {
             let funcMatch;
             while ((funcMatch = pattern.exec(code)) !== null) {
-              apis.push({
+              apis.push(createApiEntry({
+                kind,
+                name: funcMatch[1],
                 signature: funcMatch[0],
-                description: 'Extracted from README',
-                category: 'readme'
-              });
+                location: { path: 'README' },
+                origin: 'registry'
+              }));
             }
           }
         }
@@ -2,13 +2,15 @@
 import { Tool } from '@mastra/core/tools';
 import { z } from 'zod';
 import { logToolExecution, logError } from '../config/logger';
+import { resolveSource } from '../sources';
 
 export const fetchRepoContent = new Tool({
   id: 'fetch-repo-content',
-  description: 'Fetch content from a GitHub repository',
+  description: 'Fetch content from a repository (GitHub, GitLab, Bitbucket, Gitea, any git remote or local checkout)',
   inputSchema: z.object({
-    repoUrl: z.string().describe('The GitHub repository URL'),
+    repoUrl: z.string().describe('The repository URL, local path or file:// URL (optionally suffixed with @ref)'),
     filePath: z.string().describe('The file path to fetch (e.g., README.md)'),
+    ref: z.string().optional().describe('Branch, tag or commit to read (defaults to the default branch)'),
   }),
   outputSchema: z.object({
     content: z.string().describe('The raw content of the file'),
@@ -17,56 +19,32 @@ export const fetchRepoContent = new Tool({
   }),
   execute: async (ctx) => {
     
-    const { repoUrl, filePath } = ctx.context;
+    const { repoUrl, filePath, ref } = ctx.context;
     
-    logToolExecution('fetch-repo-content', { repoUrl, filePath });
+    logToolExecution('fetch-repo-content', { repoUrl, filePath, ref });
     
     try {
-      // Convert GitHub URL to raw content URL
-      const baseUrl = repoUrl
-        .replace('github.com', 'raw.githubusercontent.com')
-        .replace(/\/$/, '');
+      const source = await resolveSource(repoUrl, ref);
+      const content = await source.readFile(filePath);
       
-      // Try main branch first, then master
-      const branches = ['main', 'master'];
-      let lastError = '';
-      
-      for (const branch of branches) {
-        const rawUrl = `${baseUrl}/${branch}/${filePath}`;
-        logToolExecution('fetch-repo-content', { action: 'fetching', rawUrl, branch });
-        
-        const response = await fetch(rawUrl);
-        
-        if (response.ok) {
-          const content = await response.text();
-          const result = {
-            content,
-            success: true,
-          };
-          
-          logToolExecution('fetch-repo-content', { repoUrl, filePath }, { 
-            success: true, 
-            contentLength: content.length,
-            branch 
-          });
-          
-          return result;
-        }
-        
-        // If 404, don't log as error - it's expected for non-existent files
-        if (response.status === 404) {
-          lastError = `File not found: ${filePath}`;
-        } else {
-          lastError = `Failed to fetch ${rawUrl}: ${response.status} ${response.statusText}`;
-          logError('fetch-repo-content', new Error(lastError), { rawUrl, status: response.status });
-        }
+      if (content === null) {
+        return {
+          content: '',
+          success: false,
+          error: `File not found: ${filePath}`,
+        };
       }
       
-      // If we get here, both branches failed
+      logToolExecution('fetch-repo-content', { repoUrl, filePath }, { 
+        success: true, 
+        contentLength: content.length,
+        source: source.kind,
+        ref
+      });
+      
       return {
-        content: '',
-        success: false,
-        error: lastError,
+        content,
+        success: true,
       };
     } catch (error) {
       logError('fetch-repo-content', error, { repoUrl, filePath });
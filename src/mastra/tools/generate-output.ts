@@ -2,10 +2,20 @@
 import { Tool } from '@mastra/core/tools';
 import { z } from 'zod';
 import { logToolExecution, logError } from '../config/logger';
+import { apiEntrySchema } from '../apis';
+import { budgetReportSchema, outputFormatSchema, renderContextIndex, renderWithinBudget, type ContextIndex, type IndexItem } from '../renderers';
+import { apiBullet } from '../renderers/sections';
+
+// Section whose content is its bullets
+const bulletSection = (title: string, items: IndexItem[]) => ({
+  title,
+  content: items.map(item => `* **${item.name}** - ${item.description}`).join('\n'),
+  items,
+});
 
 export const generateOutput = new Tool({
   id: 'generate-output',
-  description: 'Generate the final condensed context index in markdown format',
+  description: 'Generate the final condensed context index in markdown or another output format',
   inputSchema: z.object({
     repoName: z.string().describe('The name of the repository'),
     repoUrl: z.string().describe('The URL of the repository'),
@@ -14,64 +24,72 @@ export const generateOutput = new Tool({
       name: z.string(),
       description: z.string(),
     })).describe('Core concepts and capabilities'),
-    apis: z.array(z.object({
-      signature: z.string(),
-      description: z.string(),
-    })).describe('Key APIs, components, and configuration'),
+    apis: z.array(apiEntrySchema).describe('Key APIs, components, and configuration'),
     patterns: z.array(z.object({
       pattern: z.string(),
       description: z.string(),
     })).describe('Common patterns, best practices, and pitfalls'),
+    format: outputFormatSchema.optional().describe('Output format (default: markdown)'),
+    tokenBudget: z.number().optional().describe('Compress the output to fit this many tokens'),
   }),
   outputSchema: z.object({
     markdown: z.string().describe('The generated markdown content'),
+    content: z.string().describe('The index in the requested format'),
+    fileName: z.string().describe('Suggested file name for the requested format'),
+    budget: budgetReportSchema.optional().describe('What was cut to fit the token budget'),
+    appendices: z.array(z.object({
+      fileName: z.string(),
+      content: z.string(),
+    })).optional().describe('APIs moved out of the output to fit the token budget'),
   }),
   execute: async (ctx) => {
     
-    const { repoName, repoUrl, purpose, concepts, apis, patterns } = ctx.context;
+    const { repoName, repoUrl, purpose, concepts, apis, patterns, format = 'markdown', tokenBudget } = ctx.context;
     
     logToolExecution('generate-output', { 
       repoName, 
       repoUrl,
+      format,
+      tokenBudget,
       conceptCount: concepts.length,
       apiCount: apis.length,
       patternCount: patterns.length
     });
     
     try {
-      let markdown = `## ${repoName} - Condensed Context Index\n\n`;
-    
-    // Overall Purpose
-    markdown += `## Overall Purpose\n${purpose}\n\n`;
-    
-    // Core Concepts & Capabilities
-    markdown += `## Core Concepts & Capabilities\n`;
-    for (const concept of concepts) {
-      markdown += `${concept.name} - ${concept.description}\n\n`;
-    }
-    
-    // Key APIs / Components / Configuration
-    markdown += `## Key APIs / Components / Configuration\n`;
-    for (const api of apis) {
-      markdown += `${api.signature} - ${api.description}\n\n`;
-    }
-    
-    // Common Patterns & Best Practices / Pitfalls
-    markdown += `## Common Patterns & Best Practices / Pitfalls\n`;
-    for (const pattern of patterns) {
-      markdown += `${pattern.pattern} - ${pattern.description}\n\n`;
-    }
-    
-    // Concluding remark
-    markdown += `This index summarizes the core concepts, APIs, and patterns for ${repoName}. Consult the full source documentation (${repoUrl}) for exhaustive details.\n`;
-    
-      const result = { markdown };
+      const index: ContextIndex = {
+        name: repoName,
+        repoUrl,
+        purpose,
+        sections: [
+          { title: 'Overall Purpose', content: purpose, items: [] },
+          bulletSection('Core Concepts & Capabilities', concepts),
+          { title: 'Key APIs / Components / Configuration', content: apis.map(apiBullet).join('\n'), items: [] },
+          bulletSection('Common Patterns & Best Practices / Pitfalls', patterns.map(({ pattern, description }) => ({ name: pattern, description }))),
+        ],
+        apis,
+      };
+      
+      const markdown = renderContextIndex(index, 'markdown').content;
+      const budgeted = tokenBudget ? renderWithinBudget(index, format, tokenBudget) : undefined;
+      const output = budgeted?.output || renderContextIndex(index, format);
+      
+      const result = {
+        markdown,
+        content: output.content,
+        fileName: output.fileName,
+        budget: budgeted?.report,
+        appendices: budgeted?.appendices.map(({ fileName, content }) => ({ fileName, content })),
+      };
       
       logToolExecution('generate-output',
         { repoName },
         { 
+          format,
           markdownLength: markdown.length,
-          sectionsGenerated: 4
+          contentLength: output.content.length,
+          tokensCut: budgeted ? budgeted.report.tokensBefore - budgeted.report.tokensAfter : 0,
+          sectionsGenerated: index.sections.length
         }
       );
       
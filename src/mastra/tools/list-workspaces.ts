@@ -0,0 +1,61 @@
+import { Tool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { logToolExecution, logError } from '../config/logger';
+import { detectWorkspaces, resolveSource, workspacePackageSchema, workspaceToolSchema } from '../sources';
+
+export const listWorkspaces = new Tool({
+  id: 'list-workspaces',
+  description: 'List the publishable packages of a monorepo from its npm/Yarn workspaces, pnpm-workspace.yaml, lerna.json, nx.json, Cargo workspace or go.work',
+  inputSchema: z.object({
+    repoUrl: z.string().describe('The repository URL, local path or file:// URL (optionally suffixed with @ref)'),
+    ref: z.string().optional().describe('Branch, tag or commit to read (defaults to the default branch)'),
+  }),
+  outputSchema: z.object({
+    tools: z.array(workspaceToolSchema).describe('Workspace definitions found at the repository root'),
+    packages: z.array(workspacePackageSchema).describe('Publishable packages, by path'),
+    skipped: z.array(z.object({
+      name: z.string(),
+      path: z.string(),
+      reason: z.string(),
+    })).describe('Members that are never published'),
+    commitSha: z.string().optional(),
+    success: z.boolean(),
+    error: z.string().optional(),
+  }),
+  execute: async (ctx) => {
+    const { repoUrl, ref } = ctx.context;
+
+    logToolExecution('list-workspaces', { repoUrl, ref });
+
+    try {
+      const source = await resolveSource(repoUrl, ref);
+      const commitSha = await source.resolveCommit() || undefined;
+      const tree = await source.listTree();
+      if (!tree) {
+        throw new Error(`Could not list the files in ${repoUrl}`);
+      }
+
+      const workspaces = await detectWorkspaces(source, tree);
+      if (!workspaces) {
+        throw new Error(`${repoUrl} declares no workspaces (package.json "workspaces", pnpm-workspace.yaml, lerna.json, nx.json, a Cargo [workspace] or go.work)`);
+      }
+
+      logToolExecution('list-workspaces', { repoUrl }, {
+        tools: workspaces.tools,
+        packages: workspaces.packages.map(entry => entry.name),
+        skipped: workspaces.skipped.length
+      });
+
+      return { ...workspaces, commitSha, success: true };
+    } catch (error) {
+      logError('list-workspaces', error, { repoUrl, ref });
+      return {
+        tools: [],
+        packages: [],
+        skipped: [],
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  },
+});
@@ -0,0 +1,70 @@
+import { Tool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { logToolExecution, logError } from '../config/logger';
+import { dependencySource, readProjectDependencies } from '../dependencies';
+import { resolveLocalPath } from '../sources';
+
+export const resolveDependencies = new Tool({
+  id: 'resolve-dependencies',
+  description: 'Resolve the direct dependencies of a project to exact versions using package.json and its lockfile (package-lock.json, pnpm-lock.yaml or yarn.lock)',
+  inputSchema: z.object({
+    projectPath: z.string().describe('Path to the project directory containing package.json'),
+    includeDev: z.boolean().optional().describe('Include devDependencies'),
+  }),
+  outputSchema: z.object({
+    projectName: z.string(),
+    lockfile: z.string().optional().describe('Lockfile the versions were read from'),
+    dependencies: z.array(z.object({
+      name: z.string(),
+      packageName: z.string(),
+      range: z.string(),
+      dev: z.boolean(),
+      version: z.string().optional(),
+      source: z.string().optional().describe('Installed package directory or tarball URL to document'),
+      unresolvedReason: z.string().optional(),
+    })),
+    success: z.boolean(),
+    error: z.string().optional(),
+  }),
+  execute: async (ctx) => {
+    const { projectPath, includeDev = false } = ctx.context;
+
+    logToolExecution('resolve-dependencies', { projectPath, includeDev });
+
+    try {
+      const projectDir = resolveLocalPath(projectPath);
+      const project = await readProjectDependencies(projectDir, { includeDev });
+
+      const dependencies = project.dependencies.map(dependency => ({
+        name: dependency.name,
+        packageName: dependency.packageName,
+        range: dependency.range,
+        dev: dependency.dev,
+        version: dependency.version,
+        source: dependencySource(projectDir, dependency),
+        unresolvedReason: dependency.unresolvedReason,
+      }));
+
+      logToolExecution('resolve-dependencies', { projectPath }, {
+        lockfile: project.lockfile,
+        total: dependencies.length,
+        resolved: dependencies.filter(dependency => dependency.version).length
+      });
+
+      return {
+        projectName: project.projectName,
+        lockfile: project.lockfile,
+        dependencies,
+        success: true,
+      };
+    } catch (error) {
+      logError('resolve-dependencies', error, { projectPath });
+      return {
+        projectName: projectPath,
+        dependencies: [],
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  },
+});
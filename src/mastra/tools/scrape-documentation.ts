@@ -1,6 +1,8 @@
 import { Tool } from '@mastra/core/tools';
 import { z } from 'zod';
 import { logToolExecution, logError } from '../config/logger';
+import { cachedFetch } from '../utils/http-cache';
+import { apiEntryFromSignature, apiEntrySchema, type ApiEntry } from '../apis';
 
 // Documentation site patterns for intelligent scraping
 const SITE_PATTERNS = {
@@ -138,6 +140,99 @@ const GENERIC_PATTERNS = {
   ]
 };
 
+// Site-specific patterns for a documentation URL, or null for the generic ones
+export const sitePatternsFor = (url: string) => {
+  const sitePattern = Object.entries(SITE_PATTERNS).find(([domain]) => url.includes(domain));
+  return sitePattern ? sitePattern[1] : null;
+};
+
+/**
+ * Extract API entries from one documentation page. Pages of known sites
+ * use that site's selectors; anything else falls back to the generic ones.
+ */
+export const extractApisFromHtml = (html: string, pageUrl: string, patterns = sitePatternsFor(pageUrl)): ApiEntry[] => {
+  const pageApis: ApiEntry[] = [];
+  
+  if (patterns) {
+    // Use site-specific patterns; the heading text may be wrapped in <code> (lodash)
+    const methodPattern = new RegExp(`<(${patterns.methodSelector.split(', ').join('|')})[^>]*>\\s*(?:<code[^>]*>)?([^<]+)<`, 'gi');
+    let methodMatch;
+    
+    while ((methodMatch = methodPattern.exec(html)) !== null) {
+      const methodName = methodMatch[2].trim();
+      
+      // Skip if it's not an API method name
+      if (methodName.length < 2 || methodName.length > 100) continue;
+      if (!/^[a-zA-Z_$]/.test(methodName)) continue;
+      
+      // Look for signature and description near the method
+      const contextStart = Math.max(0, methodMatch.index - 500);
+      const contextEnd = Math.min(html.length, methodMatch.index + 2000);
+      const context = html.substring(contextStart, contextEnd);
+      
+      // Extract signature
+      let signature = methodName;
+      const sigPattern = new RegExp(`<(?:${patterns.signatureSelector.split(', ').join('|').replace(/\./g, '[^>]*class="[^"]*').replace(/$/g, '[^"]*"')})[^>]*>([^<]+)<`, 'i');
+      const sigMatch = context.match(sigPattern);
+      if (sigMatch) {
+        signature = sigMatch[1].trim();
+      }
+      
+      // Extract description
+      let description = '';
+      const descPattern = new RegExp(`<(?:${patterns.descriptionSelector.split(', ').join('|').replace(/\./g, '[^>]*class="[^"]*').replace(/$/g, '[^"]*"')})[^>]*>([^<]+)<`, 'i');
+      const descMatch = context.match(descPattern);
+      if (descMatch) {
+        description = descMatch[1].trim().substring(0, 200);
+      }
+      
+      pageApis.push(apiEntryFromSignature(signature, 'scrape', {
+        name: methodName,
+        doc: description || undefined,
+        location: { path: pageUrl }
+      }));
+    }
+  } else {
+    // Use generic patterns for unknown sites
+    // Try each method selector
+    for (const selector of GENERIC_PATTERNS.methodSelectors) {
+      const pattern = new RegExp(`<[^>]*(?:class|id)="[^"]*${selector.replace('.', '')}[^"]*"[^>]*>([^<]+)<`, 'gi');
+      let match;
+      
+      while ((match = pattern.exec(html)) !== null) {
+        const methodName = match[1].trim();
+        
+        // Basic validation
+        if (methodName.length < 2 || methodName.length > 100) continue;
+        if (!/^[a-zA-Z_$]/.test(methodName)) continue;
+        
+        // Look for code blocks near this heading
+        const contextStart = Math.max(0, match.index);
+        const contextEnd = Math.min(html.length, match.index + 1500);
+        const context = html.substring(contextStart, contextEnd);
+        
+        // Find signature in code blocks
+        const codePattern = /<(?:pre|code)[^>]*>([^<]+)</i;
+        const codeMatch = context.match(codePattern);
+        const signature = codeMatch ? codeMatch[1].trim() : methodName;
+        
+        // Find description in paragraphs
+        const paraPattern = /<p[^>]*>([^<]+)</i;
+        const paraMatch = context.match(paraPattern);
+        const description = paraMatch ? paraMatch[1].trim().substring(0, 200) : '';
+        
+        pageApis.push(apiEntryFromSignature(signature, 'scrape', {
+          name: methodName,
+          doc: description || undefined,
+          location: { path: pageUrl }
+        }));
+      }
+    }
+  }
+  
+  return pageApis;
+};
+
 export const scrapeDocumentation = new Tool({
   id: 'scrape-documentation',
   description: 'Scrape API documentation from a website',
@@ -147,13 +242,7 @@ export const scrapeDocumentation = new Tool({
     language: z.string().optional().describe('Programming language for context'),
   }),
   outputSchema: z.object({
-    apis: z.array(z.object({
-      name: z.string(),
-      signature: z.string(),
-      description: z.string(),
-      url: z.string().optional(),
-      category: z.string().optional(),
-    })).describe('Scraped API methods'),
+    apis: z.array(apiEntrySchema).describe('Scraped API entries; location.path is the page URL'),
     pagesScraped: z.number().describe('Number of pages scraped'),
     success: z.boolean(),
     error: z.string().optional(),
@@ -164,17 +253,13 @@ export const scrapeDocumentation = new Tool({
     logToolExecution('scrape-documentation', { url, maxPages, language });
     
     try {
-      const apis: any[] = [];
+      const apis: ApiEntry[] = [];
       const visitedUrls = new Set<string>();
       const urlsToVisit: string[] = [url];
       let pagesScraped = 0;
       
       // Determine which patterns to use based on URL
-      const sitePattern = Object.entries(SITE_PATTERNS).find(([domain]) => 
-        url.includes(domain)
-      );
-      
-      const patterns = sitePattern ? sitePattern[1] : null;
+      const patterns = sitePatternsFor(url);
       
       // Helper function to extract text content
       const extractText = (html: string, selector: string): string => {
@@ -184,94 +269,6 @@ export const scrapeDocumentation = new Tool({
         return match ? match[0].replace(/<[^>]+>/g, '').trim() : '';
       };
       
-      // Helper function to extract APIs from HTML
-      const extractAPIsFromHTML = (html: string, pageUrl: string) => {
-        const pageApis: any[] = [];
-        
-        if (patterns) {
-          // Use site-specific patterns
-          const methodPattern = new RegExp(`<(${patterns.methodSelector.split(', ').join('|')})[^>]*>([^<]+)<`, 'gi');
-          let methodMatch;
-          
-          while ((methodMatch = methodPattern.exec(html)) !== null) {
-            const methodName = methodMatch[2].trim();
-            
-            // Skip if it's not an API method name
-            if (methodName.length < 2 || methodName.length > 100) continue;
-            if (!/^[a-zA-Z_$]/.test(methodName)) continue;
-            
-            // Look for signature and description near the method
-            const contextStart = Math.max(0, methodMatch.index - 500);
-            const contextEnd = Math.min(html.length, methodMatch.index + 2000);
-            const context = html.substring(contextStart, contextEnd);
-            
-            // Extract signature
-            let signature = methodName;
-            const sigPattern = new RegExp(`<(?:${patterns.signatureSelector.split(', ').join('|').replace(/\./g, '[^>]*class="[^"]*').replace(/$/g, '[^"]*"')})[^>]*>([^<]+)<`, 'i');
-            const sigMatch = context.match(sigPattern);
-            if (sigMatch) {
-              signature = sigMatch[1].trim();
-            }
-            
-            // Extract description
-            let description = '';
-            const descPattern = new RegExp(`<(?:${patterns.descriptionSelector.split(', ').join('|').replace(/\./g, '[^>]*class="[^"]*').replace(/$/g, '[^"]*"')})[^>]*>([^<]+)<`, 'i');
-            const descMatch = context.match(descPattern);
-            if (descMatch) {
-              description = descMatch[1].trim().substring(0, 200);
-            }
-            
-            pageApis.push({
-              name: methodName,
-              signature: signature,
-              description: description || 'API method',
-              url: pageUrl,
-              category: patterns.structure
-            });
-          }
-        } else {
-          // Use generic patterns for unknown sites
-          // Try each method selector
-          for (const selector of GENERIC_PATTERNS.methodSelectors) {
-            const pattern = new RegExp(`<[^>]*(?:class|id)="[^"]*${selector.replace('.', '')}[^"]*"[^>]*>([^<]+)<`, 'gi');
-            let match;
-            
-            while ((match = pattern.exec(html)) !== null) {
-              const methodName = match[1].trim();
-              
-              // Basic validation
-              if (methodName.length < 2 || methodName.length > 100) continue;
-              if (!/^[a-zA-Z_$]/.test(methodName)) continue;
-              
-              // Look for code blocks near this heading
-              const contextStart = Math.max(0, match.index);
-              const contextEnd = Math.min(html.length, match.index + 1500);
-              const context = html.substring(contextStart, contextEnd);
-              
-              // Find signature in code blocks
-              const codePattern = /<(?:pre|code)[^>]*>([^<]+)</i;
-              const codeMatch = context.match(codePattern);
-              const signature = codeMatch ? codeMatch[1].trim() : methodName;
-              
-              // Find description in paragraphs
-              const paraPattern = /<p[^>]*>([^<]+)</i;
-              const paraMatch = context.match(paraPattern);
-              const description = paraMatch ? paraMatch[1].trim().substring(0, 200) : '';
-              
-              pageApis.push({
-                name: methodName,
-                signature: signature,
-                description: description || 'API method',
-                url: pageUrl,
-                category: 'generic'
-              });
-            }
-          }
-        }
-        
-        return pageApis;
-      };
-      
       // Helper function to extract links from HTML
       const extractLinks = (html: string, baseUrl: string): string[] => {
         const links: string[] = [];
@@ -320,7 +317,7 @@ export const scrapeDocumentation = new Tool({
         
         try {
           // Fetch the page
-          const response = await fetch(currentUrl, {
+          const response = await cachedFetch(currentUrl, {
             headers: {
               'User-Agent': 'Mozilla/5.0 (compatible; DocScraper/1.0)',
               'Accept': 'text/html,application/xhtml+xml'
@@ -336,7 +333,7 @@ export const scrapeDocumentation = new Tool({
           pagesScraped++;
           
           // Extract APIs from this page
-          const pageApis = extractAPIsFromHTML(html, currentUrl);
+          const pageApis = extractApisFromHtml(html, currentUrl, patterns);
           apis.push(...pageApis);
           
           // Extract links for further scraping
@@ -0,0 +1,25 @@
+/**
+ * Map over items with at most `limit` calls in flight. Results keep the
+ * order of the input regardless of completion order. A rejected call
+ * rejects the whole map, so callers that want to keep going should catch
+ * inside `fn`.
+ */
+export const mapWithConcurrency = async <T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker);
+  await Promise.all(workers);
+  return results;
+};
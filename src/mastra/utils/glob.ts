@@ -0,0 +1,53 @@
+// Compiled patterns, shared by every file a config is matched against
+const compiled = new Map<string, RegExp>();
+
+/**
+ * Regular expression for a path glob: `*` and `?` stay within one path
+ * segment, `**` spans any number of them and `{a,b}` matches either
+ * alternative. As in .gitignore, a pattern without a slash matches the
+ * file name at any depth and a trailing slash matches everything below
+ * a directory.
+ */
+export const globToRegExp = (pattern: string): RegExp => {
+  const cached = compiled.get(pattern);
+  if (cached) return cached;
+
+  let glob = pattern.trim().replace(/^\.\//, '').replace(/^\/+/, '');
+  if (glob.endsWith('/')) glob += '**';
+  if (!glob.includes('/')) glob = `**/${glob}`;
+
+  let source = '';
+  let alternatives = 0;
+  for (let index = 0; index < glob.length; index++) {
+    const char = glob[index];
+    if (char === '*' && glob[index + 1] === '*') {
+      // "**/" matches zero or more whole directories; a trailing "**" anything below
+      const slash = glob[index + 2] === '/';
+      source += slash ? '(?:[^/]+/)*' : '.*';
+      index += slash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      alternatives++;
+      source += '(?:';
+    } else if (char === '}' && alternatives > 0) {
+      alternatives--;
+      source += ')';
+    } else if (char === ',' && alternatives > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$|()[\]\\]/g, '\\$&');
+    }
+  }
+
+  const expression = new RegExp(`^${source}$`);
+  compiled.set(pattern, expression);
+  return expression;
+};
+
+// Whether a repository-relative path matches any of the globs
+export const matchesAnyGlob = (filePath: string, patterns: string[]): boolean => {
+  return patterns.some(pattern => globToRegExp(pattern).test(filePath));
+};
@@ -0,0 +1,214 @@
+import { createHash } from 'node:crypto';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { z } from 'zod';
+import { fetchWithRetry } from './http-retry';
+
+// on: serve fresh entries, revalidate the rest; off: always fetch; offline: serve only from the cache
+export const httpCacheModeSchema = z.enum(['on', 'off', 'offline']);
+
+export type HttpCacheMode = z.infer<typeof httpCacheModeSchema>;
+
+// Seconds an entry without an ETag or Last-Modified is trusted before it is fetched again
+const DEFAULT_TTL = 3600;
+
+// Only headers that change the response body are part of the key; tokens are not
+const KEY_HEADERS = ['accept'];
+
+// Set from the CLI; ahead of DOCSGEN_HTTP_CACHE and DOCSGEN_HTTP_CACHE_DIR
+let configured: { mode?: HttpCacheMode; dir?: string } = {};
+
+export const configureHttpCache = (settings: { mode?: HttpCacheMode; dir?: string }) => {
+  configured = { ...settings };
+};
+
+export const httpCacheSettings = (): { mode: HttpCacheMode; dir: string; ttl: number } => {
+  const fromEnv = httpCacheModeSchema.safeParse(process.env.DOCSGEN_HTTP_CACHE?.trim() || 'on');
+  if (!configured.mode && !fromEnv.success) {
+    throw new Error(`Invalid DOCSGEN_HTTP_CACHE value "${process.env.DOCSGEN_HTTP_CACHE}". Use on, off or offline`);
+  }
+  const ttl = Number(process.env.DOCSGEN_HTTP_CACHE_TTL);
+  return {
+    mode: configured.mode || (fromEnv.success ? fromEnv.data : 'on'),
+    dir: configured.dir || process.env.DOCSGEN_HTTP_CACHE_DIR || path.join(process.env.XDG_CACHE_HOME || path.join(os.homedir(), '.cache'), 'docsgen', 'http'),
+    ttl: Number.isFinite(ttl) && ttl >= 0 ? ttl : DEFAULT_TTL,
+  };
+};
+
+// Thrown in offline mode for a request that was never cached, so a run never silently misses files
+export class OfflineCacheMissError extends Error {
+  constructor(readonly url: string) {
+    super(`Offline and ${url} is not in the HTTP cache. Run once online (without --offline) to fill it`);
+    this.name = 'OfflineCacheMissError';
+  }
+}
+
+// What this process served from the cache, for the run summary
+const stats = { hits: 0, revalidated: 0, fetched: 0 };
+
+export const httpCacheStats = () => ({ ...stats });
+
+interface CacheEntry {
+  url: string;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  // sha256 of the body under blobs/; absent for bodiless responses such as 404s
+  body?: string;
+  storedAt: string;
+  // Pinned to a commit SHA or exact version, so never revalidated
+  immutable: boolean;
+}
+
+// A full commit SHA in the URL pins it: raw files and contents API reads at a resolved commit
+const isPinnedUrl = (url: string) => /(?:^|[/=@])[0-9a-f]{40}(?:$|[/?&#])/.test(url);
+
+const sha256 = (data: string | Buffer) => createHash('sha256').update(data).digest('hex');
+
+const entryFile = (dir: string, key: string) => path.join(dir, 'entries', key.substring(0, 2), `${key}.json`);
+const blobFile = (dir: string, hash: string) => path.join(dir, 'blobs', hash.substring(0, 2), hash);
+
+// Write next to the target and rename, so a concurrent reader never sees half a file
+const writeAtomic = async (file: string, data: string | Buffer) => {
+  await fs.promises.mkdir(path.dirname(file), { recursive: true });
+  const temporary = `${file}.${process.pid}.${Date.now()}.tmp`;
+  await fs.promises.writeFile(temporary, data);
+  await fs.promises.rename(temporary, file);
+};
+
+const readEntry = async (dir: string, key: string): Promise<{ entry: CacheEntry; body?: Buffer } | undefined> => {
+  try {
+    const entry: CacheEntry = JSON.parse(await fs.promises.readFile(entryFile(dir, key), 'utf8'));
+    const body = entry.body ? await fs.promises.readFile(blobFile(dir, entry.body)) : undefined;
+    return { entry, body };
+  } catch {
+    // Missing, half-written or pruned entries are refetched
+    return undefined;
+  }
+};
+
+/**
+ * Read a response body, giving up as soon as it passes `maxBytes` rather
+ * than after the whole body is in memory. The Content-Length, when sent,
+ * is checked before anything is read.
+ */
+export const readBody = async (response: Response, url: string, maxBytes = Infinity): Promise<Buffer> => {
+  const declared = Number(response.headers.get('content-length'));
+  if (declared > maxBytes) {
+    throw new Error(`${url} is ${declared} bytes, more than the ${maxBytes} allowed`);
+  }
+  if (!response.body) return Buffer.alloc(0);
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    size += chunk.value.length;
+    if (size > maxBytes) {
+      await reader.cancel().catch(() => undefined);
+      throw new Error(`${url} is more than the ${maxBytes} bytes allowed`);
+    }
+    chunks.push(chunk.value);
+  }
+  return Buffer.concat(chunks);
+};
+
+const toResponse = (entry: CacheEntry, body?: Buffer): Response => {
+  return new Response(body ? new Uint8Array(body) : null, {
+    status: entry.status,
+    statusText: entry.statusText,
+    headers: { ...entry.headers, 'x-docsgen-cache': 'hit' },
+  });
+};
+
+/**
+ * fetch() for GET requests through an on-disk cache shared by every
+ * source and tool. Entries are keyed by URL (which carries the ref or
+ * commit) and Accept header; bodies are stored once per content hash.
+ * 200 and 404 responses are kept. URLs pinned to a commit SHA, and
+ * requests marked immutable (exact package versions), are served without
+ * asking again; others are revalidated with their ETag or Last-Modified,
+ * or refetched after DOCSGEN_HTTP_CACHE_TTL seconds when they have none.
+ * With `maxBytes`, a larger body is refused before it is stored.
+ */
+export const cachedFetch = async (
+  url: string,
+  init: RequestInit = {},
+  options: { immutable?: boolean; maxBytes?: number } = {}
+): Promise<Response> => {
+  const { mode, dir, ttl } = httpCacheSettings();
+  const method = (init.method || 'GET').toUpperCase();
+  if (mode === 'off' || method !== 'GET') {
+    stats.fetched++;
+    return fetchWithRetry(url, init);
+  }
+
+  const headers = new Headers(init.headers);
+  const key = sha256(JSON.stringify([url, ...KEY_HEADERS.map(name => headers.get(name) || '')]));
+  const cached = await readEntry(dir, key);
+
+  if (mode === 'offline') {
+    if (!cached) throw new OfflineCacheMissError(url);
+    stats.hits++;
+    return toResponse(cached.entry, cached.body);
+  }
+
+  const age = cached ? (Date.now() - Date.parse(cached.entry.storedAt)) / 1000 : Infinity;
+  const validators = cached && {
+    etag: cached.entry.headers.etag,
+    lastModified: cached.entry.headers['last-modified'],
+  };
+  if (cached && (cached.entry.immutable || (!validators?.etag && !validators?.lastModified && age < ttl))) {
+    stats.hits++;
+    return toResponse(cached.entry, cached.body);
+  }
+
+  if (validators?.etag) headers.set('If-None-Match', validators.etag);
+  if (validators?.lastModified) headers.set('If-Modified-Since', validators.lastModified);
+  const response = await fetchWithRetry(url, { ...init, headers });
+
+  // Not modified: GitHub does not count these against the rate limit
+  if (response.status === 304 && cached) {
+    stats.revalidated++;
+    await writeAtomic(entryFile(dir, key), JSON.stringify({ ...cached.entry, storedAt: new Date().toISOString() })).catch(() => undefined);
+    return toResponse(cached.entry, cached.body);
+  }
+
+  stats.fetched++;
+  if (response.status !== 200 && response.status !== 404) {
+    return response;
+  }
+
+  const body = await readBody(response, url, options.maxBytes);
+  const entryHeaders: Record<string, string> = {};
+  // The body is stored decoded, so its transfer encoding and length no longer apply
+  response.headers.forEach((value, name) => {
+    if (!['set-cookie', 'content-encoding', 'content-length', 'transfer-encoding'].includes(name)) entryHeaders[name] = value;
+  });
+  const entry: CacheEntry = {
+    url,
+    status: response.status,
+    statusText: response.statusText,
+    headers: entryHeaders,
+    body: response.status === 200 ? sha256(body) : undefined,
+    storedAt: new Date().toISOString(),
+    immutable: Boolean(options.immutable) || isPinnedUrl(url),
+  };
+
+  // A read-only or full cache directory only costs speed
+  try {
+    if (entry.body && !fs.existsSync(blobFile(dir, entry.body))) {
+      await writeAtomic(blobFile(dir, entry.body), body);
+    }
+    await writeAtomic(entryFile(dir, key), JSON.stringify(entry));
+  } catch {
+    // Served uncached
+  }
+
+  return new Response(response.status === 200 ? new Uint8Array(body) : null, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: entryHeaders,
+  });
+};
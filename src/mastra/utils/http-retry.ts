@@ -0,0 +1,131 @@
+import { logToolExecution } from '../config/logger';
+
+// First backoff step; each retry doubles it, up to MAX_BACKOFF_MS
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 30000;
+
+// Statuses worth asking again; 403 only counts when it carries rate-limit headers
+const RETRY_STATUSES = [429, 500, 502, 503, 504];
+
+// Warn once per host when fewer than this share of its requests are left
+const LOW_REMAINING_SHARE = 0.1;
+
+// DOCSGEN_HTTP_RETRIES attempts after the first; waits longer than DOCSGEN_HTTP_MAX_WAIT seconds are not made
+export const httpRetrySettings = (): { retries: number; maxWait: number } => {
+  const retries = Number(process.env.DOCSGEN_HTTP_RETRIES);
+  const maxWait = Number(process.env.DOCSGEN_HTTP_MAX_WAIT);
+  return {
+    retries: Number.isInteger(retries) && retries >= 0 ? retries : 3,
+    maxWait: Number.isFinite(maxWait) && maxWait >= 0 ? maxWait : 60,
+  };
+};
+
+// Token setting that raises each host's limit
+const tokenHint = (host: string): string => {
+  if (host.includes('github')) return 'Set GITHUB_TOKEN to raise the limit from 60 to 5,000 requests an hour';
+  if (host.includes('gitlab')) return 'Set GITLAB_TOKEN to raise the limit';
+  if (host.includes('bitbucket')) return 'Set BITBUCKET_TOKEN to raise the limit';
+  return 'Set the host\'s access token (GITHUB_TOKEN, GITLAB_TOKEN, GITEA_TOKEN or BITBUCKET_TOKEN) to raise the limit';
+};
+
+// Thrown when a host's rate limit is used up and it resets later than we are willing to wait
+export class RateLimitError extends Error {
+  constructor(readonly host: string, readonly resetAt?: Date) {
+    super(`${host} rate limit exhausted${resetAt ? `; it resets at ${resetAt.toISOString()}` : ''}. ${tokenHint(host)}`);
+    this.name = 'RateLimitError';
+  }
+}
+
+// Latest rate-limit headers seen per host, for the run summary
+const limits = new Map<string, { limit: number; remaining: number; resetAt?: Date }>();
+const warned = new Set<string>();
+
+export const rateLimitStatus = () => new Map(limits);
+
+// GitHub and Gitea send X-RateLimit-*, GitLab RateLimit-*
+const header = (response: Response, name: string) =>
+  response.headers.get(`x-ratelimit-${name}`) ?? response.headers.get(`ratelimit-${name}`);
+
+const recordLimit = (host: string, response: Response) => {
+  const limit = Number(header(response, 'limit'));
+  const remaining = Number(header(response, 'remaining'));
+  if (!header(response, 'remaining') || !Number.isFinite(remaining)) return undefined;
+
+  const reset = Number(header(response, 'reset'));
+  const status = {
+    limit: Number.isFinite(limit) ? limit : remaining,
+    remaining,
+    // An epoch second; small values are seconds from now
+    resetAt: Number.isFinite(reset) && reset > 0 ? new Date(reset > 1e9 ? reset * 1000 : Date.now() + reset * 1000) : undefined,
+  };
+  limits.set(host, status);
+
+  if (status.limit > 0 && remaining < status.limit * LOW_REMAINING_SHARE && !warned.has(host)) {
+    warned.add(host);
+    logToolExecution('http', { action: 'rate_limit_low', host, remaining, limit: status.limit, resetAt: status.resetAt });
+    console.warn(`WARNING: ${remaining} of ${status.limit} ${host} requests left${status.resetAt ? ` until ${status.resetAt.toISOString()}` : ''}. ${tokenHint(host)}`);
+  }
+  return status;
+};
+
+// Retry-After as seconds or an HTTP date, in milliseconds from now
+const retryAfter = (response: Response): number | undefined => {
+  const value = response.headers.get('retry-after');
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// Full jitter: anywhere up to the exponential step, so parallel callers do not retry in lockstep
+const backoff = (attempt: number) => Math.random() * Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * fetch() that retries network errors, 5xx responses and rate limiting
+ * with jittered exponential backoff. Retry-After and the rate-limit reset
+ * headers override the backoff; when the limit is exhausted until later
+ * than DOCSGEN_HTTP_MAX_WAIT seconds, a RateLimitError says so instead of
+ * waiting. Other responses, including errors, are returned as they are.
+ */
+export const fetchWithRetry = async (url: string, init: RequestInit = {}): Promise<Response> => {
+  const { retries, maxWait } = httpRetrySettings();
+  const host = new URL(url).host;
+
+  for (let attempt = 0; ; attempt++) {
+    let response: Response;
+    try {
+      response = await fetch(url, init);
+    } catch (error) {
+      if (attempt >= retries) throw error;
+      const delay = backoff(attempt);
+      logToolExecution('http', { action: 'retry', url, attempt: attempt + 1, reason: error instanceof Error ? error.message : String(error), delay: Math.round(delay) });
+      await sleep(delay);
+      continue;
+    }
+
+    const status = recordLimit(host, response);
+    const exhausted = status?.remaining === 0 && (response.status === 403 || response.status === 429);
+    const limited = exhausted || response.status === 429 || (response.status === 403 && response.headers.has('retry-after'));
+    if (!limited && !RETRY_STATUSES.includes(response.status)) {
+      return response;
+    }
+
+    // Wait for the reset when the whole quota is gone, otherwise as told or by backoff
+    const resetWait = exhausted && status?.resetAt ? Math.max(0, status.resetAt.getTime() - Date.now()) : undefined;
+    const delay = resetWait ?? retryAfter(response) ?? backoff(attempt);
+    if (limited && (attempt >= retries || delay > maxWait * 1000)) {
+      await response.body?.cancel();
+      throw new RateLimitError(host, status?.resetAt);
+    }
+    if (attempt >= retries) {
+      return response;
+    }
+
+    await response.body?.cancel();
+    logToolExecution('http', { action: 'retry', url, attempt: attempt + 1, status: response.status, delay: Math.round(delay) });
+    await sleep(delay);
+  }
+};
@@ -0,0 +1,12 @@
+// Rough token count: about 4 characters per token for English text and code
+export const estimateTokens = (text: string): number => {
+  return Math.ceil(text.length / 4);
+};
+
+// "8k", "32K", "128000" -> tokens; undefined when the value is not a budget
+export const parseTokenBudget = (value: string): number | undefined => {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*(k)?$/i);
+  if (!match) return undefined;
+  const tokens = Math.round(Number(match[1]) * (match[2] ? 1000 : 1));
+  return tokens > 0 ? tokens : undefined;
+};
@@ -0,0 +1,244 @@
+export type YamlValue = string | boolean | null | YamlValue[] | { [key: string]: YamlValue };
+
+interface YamlLine {
+  indent: number;
+  content: string;
+}
+
+// Remove a trailing " # comment" that is not inside quotes
+const stripComment = (line: string): string => {
+  let quote: string | null = null;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '#' && (i === 0 || /\s/.test(line[i - 1]))) {
+      return line.substring(0, i).trimEnd();
+    }
+  }
+  return line.trimEnd();
+};
+
+// Index of the ":" separating a mapping key from its value, or -1
+const keySeparator = (content: string): number => {
+  let quote: string | null = null;
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if ((char === '"' || char === "'") && i === 0) {
+      quote = char;
+    } else if (char === ':' && (i === content.length - 1 || content[i + 1] === ' ')) {
+      return i;
+    } else if ((char === '{' || char === '[') && i === 0) {
+      return -1;
+    }
+  }
+  return -1;
+};
+
+const unquote = (value: string): string => {
+  if (value.startsWith('"') && value.endsWith('"') && value.length >= 2) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value.slice(1, -1);
+    }
+  }
+  if (value.startsWith("'") && value.endsWith("'") && value.length >= 2) {
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  return value;
+};
+
+// Plain scalars stay strings so versions like 1.10 are not turned into numbers
+const parseScalar = (raw: string): YamlValue => {
+  const value = raw.trim();
+  if (value === '' || value === '~' || value === 'null') return null;
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  if (value.startsWith('{') || value.startsWith('[')) return parseFlow(value, 0)[0];
+  return unquote(value);
+};
+
+// Flow collections such as {integrity: sha512-..., tarball: x} or [a, b]
+const parseFlow = (text: string, start: number): [YamlValue, number] => {
+  let i = start;
+  const skipSpaces = () => {
+    while (i < text.length && /\s/.test(text[i])) i++;
+  };
+  const readToken = (stops: string): string => {
+    skipSpaces();
+    if (text[i] === '"' || text[i] === "'") {
+      const quote = text[i];
+      let end = i + 1;
+      while (end < text.length && !(text[end] === quote && text[end - 1] !== '\\')) end++;
+      const token = text.substring(i, end + 1);
+      i = end + 1;
+      return token;
+    }
+    const begin = i;
+    while (i < text.length && !stops.includes(text[i])) i++;
+    return text.substring(begin, i).trim();
+  };
+
+  skipSpaces();
+  const open = text[i];
+
+  if (open === '[') {
+    const items: YamlValue[] = [];
+    i++;
+    while (i < text.length) {
+      skipSpaces();
+      if (text[i] === ']') return [items, i + 1];
+      if (text[i] === '{' || text[i] === '[') {
+        const [value, end] = parseFlow(text, i);
+        items.push(value);
+        i = end;
+      } else {
+        items.push(parseScalar(readToken(',]')));
+      }
+      skipSpaces();
+      if (text[i] === ',') i++;
+    }
+    return [items, i];
+  }
+
+  if (open === '{') {
+    const map: { [key: string]: YamlValue } = {};
+    i++;
+    while (i < text.length) {
+      skipSpaces();
+      if (text[i] === '}') return [map, i + 1];
+      const key = unquote(readToken(':,}'));
+      let value: YamlValue = null;
+      if (text[i] === ':') {
+        i++;
+        skipSpaces();
+        if (text[i] === '{' || text[i] === '[') {
+          const [nested, end] = parseFlow(text, i);
+          value = nested;
+          i = end;
+        } else {
+          value = parseScalar(readToken(',}'));
+        }
+      }
+      if (key) map[key] = value;
+      skipSpaces();
+      if (text[i] === ',') i++;
+    }
+    return [map, i];
+  }
+
+  return [parseScalar(readToken('')), text.length];
+};
+
+/**
+ * Parse the YAML subset used by lockfiles and workspace manifests
+ * (pnpm-lock.yaml, Yarn Berry yarn.lock, pnpm-workspace.yaml): block
+ * mappings and sequences, quoted and plain scalars, flow collections and
+ * literal/folded block scalars. Anchors, tags and multi-document streams
+ * are not supported.
+ */
+export const parseYaml = (text: string): YamlValue => {
+  const lines: YamlLine[] = [];
+  const rawLines = text.replace(/\r\n?/g, '\n').split('\n');
+
+  for (let index = 0; index < rawLines.length; index++) {
+    const raw = rawLines[index];
+    const content = stripComment(raw).trim();
+    if (!content || content === '---' || content === '...') continue;
+
+    const indent = raw.length - raw.trimStart().length;
+    const separator = keySeparator(content);
+    const value = separator === -1 ? content : content.substring(separator + 1).trim();
+
+    // Literal (|) and folded (>) block scalars: keep the indented lines verbatim
+    if (/^[|>][+-]?$/.test(value)) {
+      const block: string[] = [];
+      while (index + 1 < rawLines.length) {
+        const next = rawLines[index + 1];
+        if (next.trim() && next.length - next.trimStart().length <= indent) break;
+        block.push(next.trim());
+        index++;
+      }
+      const joined = block.join(value.startsWith('>') ? ' ' : '\n').trim();
+      const head = separator === -1 ? '' : `${content.substring(0, separator + 1)} `;
+      lines.push({ indent, content: `${head}${JSON.stringify(joined)}` });
+      continue;
+    }
+
+    lines.push({ indent, content });
+  }
+
+  const parseBlock = (start: number, indent: number): [YamlValue, number] => {
+    if (start >= lines.length) return [null, start];
+
+    // Block sequence
+    if (lines[start].content === '-' || lines[start].content.startsWith('- ')) {
+      const items: YamlValue[] = [];
+      let i = start;
+      while (i < lines.length && lines[i].indent === indent && (lines[i].content === '-' || lines[i].content.startsWith('- '))) {
+        const item = lines[i].content.substring(1).trimStart();
+        if (!item) {
+          const child = lines[i + 1];
+          if (child && child.indent > indent) {
+            const [value, next] = parseBlock(i + 1, child.indent);
+            items.push(value);
+            i = next;
+          } else {
+            items.push(null);
+            i++;
+          }
+        } else if (keySeparator(item) !== -1) {
+          // "- key: value" starts a mapping indented to the item's column
+          const column = indent + lines[i].content.length - item.length;
+          lines[i] = { indent: column, content: item };
+          const [value, next] = parseBlock(i, column);
+          items.push(value);
+          i = next;
+        } else {
+          items.push(parseScalar(item));
+          i++;
+        }
+      }
+      return [items, i];
+    }
+
+    // Block mapping
+    const map: { [key: string]: YamlValue } = {};
+    let i = start;
+    while (i < lines.length && lines[i].indent === indent) {
+      const { content } = lines[i];
+      const separator = keySeparator(content);
+      if (separator === -1) {
+        // A bare scalar document
+        return [parseScalar(content), i + 1];
+      }
+
+      const key = unquote(content.substring(0, separator).trim());
+      const rest = content.substring(separator + 1).trim();
+      i++;
+
+      if (rest) {
+        map[key] = parseScalar(rest);
+        continue;
+      }
+
+      const child = lines[i];
+      const childIsSequence = child && (child.content === '-' || child.content.startsWith('- '));
+      if (child && (child.indent > indent || (child.indent === indent && childIsSequence))) {
+        const [value, next] = parseBlock(i, child.indent);
+        map[key] = value;
+        i = next;
+      } else {
+        map[key] = null;
+      }
+    }
+    return [map, i];
+  };
+
+  return lines.length > 0 ? parseBlock(0, lines[0].indent)[0] : null;
+};
@@ -0,0 +1,295 @@
+import { z } from 'zod';
+import { describeApi, type ApiEntry } from '../apis';
+import { isApiSection, isConceptSection, isPatternSection, isPurposeSection } from '../renderers/sections';
+
+export const findingSeveritySchema = z.enum(['error', 'warning']);
+
+export const formatRuleSchema = z.enum([
+  'title',
+  'heading-level',
+  'missing-section',
+  'duplicate-section',
+  'empty-section',
+  'bullet-format',
+  'api-backticks',
+  'api-coverage',
+  'unclosed-fence',
+]);
+
+export const formatFindingSchema = z.object({
+  rule: formatRuleSchema,
+  severity: findingSeveritySchema,
+  message: z.string(),
+  section: z.string().optional(),
+  // 1-based line in the checked markdown
+  line: z.number().optional(),
+});
+
+export const formatReportSchema = z.object({
+  // No error findings; warnings alone keep an index valid
+  valid: z.boolean(),
+  findings: z.array(formatFindingSchema),
+  sections: z.array(z.string()),
+  apiBullets: z.number(),
+  // Share of the extracted API names mentioned in the API section, 0-1
+  apiCoverage: z.number(),
+});
+
+export type FindingSeverity = z.infer<typeof findingSeveritySchema>;
+export type FormatRule = z.infer<typeof formatRuleSchema>;
+export type FormatFinding = z.infer<typeof formatFindingSchema>;
+export type FormatReport = z.infer<typeof formatReportSchema>;
+
+// Below this share of extracted names, the API list counts as truncated
+const MIN_API_COVERAGE = 0.9;
+
+// Sections every index has, in order (README "Generated Documentation Format")
+const REQUIRED_SECTIONS: Array<{ title: string; matches: (section: { title: string }) => boolean }> = [
+  { title: 'Overall Purpose', matches: isPurposeSection },
+  { title: 'Core Concepts & Capabilities', matches: isConceptSection },
+  { title: 'Key APIs', matches: isApiSection },
+  { title: 'Common Patterns & Best Practices', matches: isPatternSection },
+];
+
+interface ParsedSection {
+  title: string;
+  level: number;
+  // Line of the heading, 1-based
+  line: number;
+  lines: string[];
+}
+
+// Headings outside code fences, with the lines below each
+const parseSections = (markdown: string): { title?: { text: string; line: number }; sections: ParsedSection[]; unclosedFence?: number } => {
+  const sections: ParsedSection[] = [];
+  let title: { text: string; line: number } | undefined;
+  let fence: number | undefined;
+
+  markdown.split('\n').forEach((line, position) => {
+    if (/^\s*```/.test(line)) {
+      fence = fence === undefined ? position + 1 : undefined;
+    }
+    const heading = fence === undefined ? line.match(/^(#{1,6})\s+(.+?)\s*$/) : null;
+    if (heading && /condensed context index/i.test(heading[2]) && !title) {
+      title = { text: heading[2], line: position + 1 };
+    } else if (heading) {
+      sections.push({ title: heading[2], level: heading[1].length, line: position + 1, lines: [] });
+    } else if (sections.length > 0) {
+      sections[sections.length - 1].lines.push(line);
+    }
+  });
+
+  return { title, sections, unclosedFence: fence };
+};
+
+export const isBullet = (line: string) => /^\s*[*+-]\s+/.test(line);
+
+// Declaration keywords and modifiers in front of the symbol path
+const LEADING_KEYWORDS = /^(?:(?:export|declare|default|public|private|protected|static|abstract|readonly|async|function|def|fn|func|class|interface|type|enum|struct|trait|namespace|module|const|let|var|new|pub)\s+)+/;
+
+// `Router.use(path, fn)`, `Foo#bar()`, `Foo::bar` -> ['Router', 'use'], ['Foo', 'bar']
+export const symbolPath = (signature: string): string[] => {
+  const match = signature.trim().replace(LEADING_KEYWORDS, '').match(/^[\w$]+(?:(?:\.|#|::|->)[\w$]+)*/);
+  return match ? match[0].split(/\.|#|::|->/) : [];
+};
+
+// Symbol each bullet lists, from its first code span: `z.object(shape)` -> "z.object".
+// Parameter and type names further along the signature are not listed APIs
+export const listedPaths = (bullets: string[]): string[] => {
+  return bullets
+    .map(line => symbolPath(line.match(/`([^`\n]+)`/)?.[1] || '').join('.'))
+    .filter(Boolean);
+};
+
+// The listed path names the entry itself, possibly behind a module prefix (`z.object` for object)
+export const isListed = (entry: ApiEntry, paths: string[]) => {
+  const qualified = symbolPath(entry.qualifiedName).join('.') || entry.qualifiedName;
+  return paths.some(listed => listed === qualified || listed.endsWith(`.${qualified}`));
+};
+
+/**
+ * Lint a generated index against the documented format: one
+ * "## Name - Condensed Context Index" title, `###` sections for purpose,
+ * concepts, APIs and patterns, `* **Name** - description` bullets,
+ * backticked API signatures, and an API list covering the extracted APIs.
+ */
+export const validateIndexMarkdown = (markdown: string, options: { apis?: ApiEntry[] } = {}): FormatReport => {
+  const findings: FormatFinding[] = [];
+  const { title, sections, unclosedFence } = parseSections(markdown);
+  const apiSections = sections.filter(isApiSection);
+  const apiLines = apiSections.flatMap(section => section.lines.filter(isBullet));
+
+  if (!title) {
+    findings.push({ rule: 'title', severity: 'error', message: 'Missing "## <name> - Condensed Context Index" title' });
+  } else if (!markdown.split('\n')[title.line - 1].startsWith('## ')) {
+    findings.push({ rule: 'heading-level', severity: 'error', message: 'The title must be a level 2 heading', line: title.line });
+  }
+
+  for (const section of sections) {
+    if (section.level !== 3) {
+      findings.push({
+        rule: 'heading-level',
+        severity: section.level < 3 ? 'error' : 'warning',
+        message: `"${section.title}" is a level ${section.level} heading; sections use ###`,
+        section: section.title,
+        line: section.line,
+      });
+    }
+    if (section.lines.every(line => !line.trim())) {
+      findings.push({ rule: 'empty-section', severity: 'warning', message: `"${section.title}" is empty`, section: section.title, line: section.line });
+    }
+  }
+
+  for (const required of REQUIRED_SECTIONS) {
+    const matching = sections.filter(required.matches);
+    if (matching.length === 0) {
+      findings.push({ rule: 'missing-section', severity: 'error', message: `Missing the "${required.title}" section`, section: required.title });
+    } else if (matching.length > 1 && required.title !== 'Key APIs') {
+      findings.push({ rule: 'duplicate-section', severity: 'warning', message: `"${required.title}" appears ${matching.length} times`, section: required.title, line: matching[1].line });
+    }
+  }
+
+  // Concept and pattern bullets name what they describe in bold
+  for (const section of sections.filter(section => !apiSections.includes(section))) {
+    section.lines.forEach((line, offset) => {
+      if (isBullet(line) && !/^\s*[*+-]\s+\*\*.+?\*\*/.test(line)) {
+        findings.push({
+          rule: 'bullet-format',
+          severity: 'warning',
+          message: 'Bullet does not start with a **bold** name',
+          section: section.title,
+          line: section.line + offset + 1,
+        });
+      }
+    });
+  }
+
+  for (const section of apiSections) {
+    section.lines.forEach((line, offset) => {
+      if (isBullet(line) && !line.includes('`')) {
+        findings.push({
+          rule: 'api-backticks',
+          severity: 'error',
+          message: `API entry without a backticked signature: ${line.trim().substring(0, 80)}`,
+          section: section.title,
+          line: section.line + offset + 1,
+        });
+      }
+    });
+  }
+
+  // Coverage counts distinct names, so overloads and re-exports count once
+  const expected = [...new Map((options.apis || []).map(entry => [entry.qualifiedName, entry])).values()];
+  const paths = listedPaths(apiLines);
+  const covered = expected.filter(entry => isListed(entry, paths)).length;
+  const apiCoverage = expected.length > 0 ? covered / expected.length : 1;
+  if (apiCoverage < MIN_API_COVERAGE) {
+    findings.push({
+      rule: 'api-coverage',
+      severity: 'error',
+      message: `The API list mentions ${covered} of ${expected.length} extracted APIs (${apiLines.length} bullets)`,
+      section: apiSections[0]?.title,
+    });
+  }
+
+  if (unclosedFence !== undefined) {
+    findings.push({ rule: 'unclosed-fence', severity: 'error', message: 'Code fence is never closed', line: unclosedFence });
+  }
+
+  return {
+    valid: !findings.some(finding => finding.severity === 'error'),
+    findings,
+    sections: sections.map(section => section.title),
+    apiBullets: apiLines.length,
+    apiCoverage,
+  };
+};
+
+// "* **`sig`** - description" bullet as the generator is asked to write it
+const apiLine = (entry: ApiEntry) => `* **\`${entry.signature}\`** - ${describeApi(entry)}`;
+
+/**
+ * Fix what can be fixed without the model: text around the index, the
+ * title, heading levels, unclosed fences and API bullets without
+ * backticks. With `apis`, missing extracted APIs are added back too (see
+ * addMissingApis). Missing prose sections are left for a retry.
+ */
+export const repairIndexMarkdown = (markdown: string, options: { name: string; apis?: ApiEntry[] }): string => {
+  let text = markdown.trim();
+
+  // Whole answer wrapped in ```markdown ... ```
+  const wrapped = text.match(/^```(?:markdown|md)?\s*\n([\s\S]*?)\n```$/);
+  if (wrapped) {
+    text = wrapped[1].trim();
+  }
+
+  let lines = text.split('\n');
+  const titleAt = lines.findIndex(line => /^#{1,6}\s+.*condensed context index/i.test(line));
+  // Chatter before the title goes
+  if (titleAt > 0) {
+    lines = lines.slice(titleAt);
+  }
+  if (titleAt === -1) {
+    lines = [`## ${options.name} - Condensed Context Index`, '', ...lines];
+  }
+  lines[0] = lines[0].replace(/^#{1,6}\s+/, '## ');
+
+  let fence = false;
+  let inApiSection = false;
+  lines = lines.map((line, position) => {
+    if (/^\s*```/.test(line)) fence = !fence;
+    if (fence || position === 0) return line;
+
+    const heading = line.match(/^#{1,6}\s+(.+?)\s*$/);
+    if (heading) {
+      inApiSection = isApiSection({ title: heading[1] });
+      return `### ${heading[1]}`;
+    }
+    if (!inApiSection || !isBullet(line) || line.includes('`')) return line;
+
+    // "* **name(x)** - desc" or "* name(x) - desc" -> "* **`name(x)`** - desc"
+    const bullet = line.match(/^(\s*)[*+-]\s+(?:\*\*(.+?)\*\*|(.+?))(\s+[-–—:]\s+.*)?$/);
+    if (!bullet) return line;
+    return `${bullet[1]}* **\`${(bullet[2] || bullet[3]).trim()}\`**${bullet[4] || ''}`;
+  });
+  if (fence) {
+    lines.push('```');
+  }
+
+  const repaired = lines.join('\n').replace(/\n{3,}/g, '\n\n').trim() + '\n';
+  return options.apis ? addMissingApis(repaired, options.apis).markdown : repaired;
+};
+
+/**
+ * Append extracted APIs the API list does not mention, after its last
+ * bullet; without an API section, one is written before the patterns.
+ */
+export const addMissingApis = (markdown: string, apis: ApiEntry[]): { markdown: string; added: ApiEntry[] } => {
+  const lines = markdown.trimEnd().split('\n');
+  const apiAt = lines.findIndex(line => /^###\s/.test(line) && isApiSection({ title: line.substring(4) }));
+  const end = apiAt === -1 ? -1 : lines.findIndex((line, position) => position > apiAt && /^###\s/.test(line));
+  const listed = apiAt === -1 ? [] : lines.slice(apiAt + 1, end === -1 ? undefined : end);
+  const paths = listedPaths(listed.filter(isBullet));
+  const missing = [...new Map(apis.map(entry => [entry.qualifiedName, entry])).values()]
+    .filter(entry => !isListed(entry, paths));
+
+  if (missing.length > 0 && apiAt === -1) {
+    // Before the patterns section, where the format puts it
+    const patternsAt = lines.findIndex(line => /^###\s/.test(line) && isPatternSection({ title: line.substring(4) }));
+    const section = ['### Key APIs', '', ...missing.map(apiLine), ''];
+    lines.splice(patternsAt === -1 ? lines.length : patternsAt, 0, ...section);
+  } else if (missing.length > 0) {
+    // After the last bullet of the list, or right below the heading
+    const lastBullet = listed.map(isBullet).lastIndexOf(true);
+    lines.splice(apiAt + 1 + (lastBullet === -1 ? 0 : lastBullet + 1), 0, ...(lastBullet === -1 ? ['', ...missing.map(apiLine)] : missing.map(apiLine)));
+  }
+
+  return { markdown: lines.join('\n').replace(/\n{3,}/g, '\n\n').trim() + '\n', added: missing };
+};
+
+// Findings as the bullet list given back to the model on a retry
+export const describeFindings = (findings: FormatFinding[]): string => {
+  return findings
+    .map(finding => `- [${finding.severity}] ${finding.message}${finding.line ? ` (line ${finding.line})` : ''}`)
+    .join('\n');
+};
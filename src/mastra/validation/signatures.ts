@@ -0,0 +1,215 @@
+import { z } from 'zod';
+import { splitTopLevel, type ApiEntry } from '../apis';
+import { isApiSection } from '../renderers/sections';
+import { addMissingApis, isBullet, isListed, symbolPath } from './format';
+
+// What happens to listed APIs that match nothing extracted
+export const unverifiedModeSchema = z.enum(['remove', 'flag']);
+
+export const signatureStatusSchema = z.enum([
+  // Name (and owner, when it is a known class or namespace) matches an extracted API
+  'verified',
+  // The symbol exists but is listed with more parameters than any extracted signature takes;
+  // the extracted signature replaces it
+  'mismatch',
+  // Nothing extracted has this name, or the named owner has no such member
+  'unverified',
+]);
+
+export const signatureCheckSchema = z.object({
+  signature: z.string(),
+  status: signatureStatusSchema,
+  // 1-based line in the checked markdown
+  line: z.number(),
+  reason: z.string().optional(),
+});
+
+export const signatureReportSchema = z.object({
+  listed: z.number(),
+  verified: z.number(),
+  mismatched: z.number(),
+  unverified: z.array(signatureCheckSchema),
+  // Share of listed entries that exist as listed (verified), 0-1
+  precision: z.number(),
+  // Share of extracted APIs the model listed itself, before any were added back, 0-1
+  recall: z.number(),
+  mode: unverifiedModeSchema,
+  removed: z.number(),
+  flagged: z.number(),
+  // Extracted APIs the model left out, added back to the list
+  restored: z.number(),
+});
+
+export type UnverifiedMode = z.infer<typeof unverifiedModeSchema>;
+export type SignatureStatus = z.infer<typeof signatureStatusSchema>;
+export type SignatureCheck = z.infer<typeof signatureCheckSchema>;
+export type SignatureReport = z.infer<typeof signatureReportSchema>;
+
+// Marker appended to unverified entries in flag mode
+export const UNVERIFIED_MARKER = '_(unverified: not found in the extracted APIs)_';
+
+// Parameters written in the first parentheses, or undefined when there are none
+const listedArity = (signature: string): number | undefined => {
+  const open = signature.indexOf('(');
+  if (open === -1) return undefined;
+  let depth = 0;
+  for (let position = open; position < signature.length; position++) {
+    if (signature[position] === '(') depth++;
+    if (signature[position] === ')' && --depth === 0) {
+      return splitTopLevel(signature.substring(open + 1, position)).filter(part => part.trim()).length;
+    }
+  }
+  return undefined;
+};
+
+const lastSegment = (path?: string) => path?.split('.').pop();
+
+/**
+ * Check one listed signature against the extracted APIs. Names are
+ * matched rather than full signatures, since the generator rewrites types
+ * freely; an owner prefix only counts against an entry when that owner
+ * is a class, interface or namespace the extractors know about.
+ */
+const checkSignature = (
+  signature: string,
+  byName: Map<string, ApiEntry[]>,
+  qualifiedNames: Set<string>,
+  containers: Set<string>
+): { status: SignatureStatus; reason?: string; extracted?: ApiEntry } => {
+  const path = symbolPath(signature);
+  const name = path[path.length - 1];
+  const owner = path.length > 1 ? path[path.length - 2] : undefined;
+  const candidates = byName.get(name) || [];
+
+  if (!qualifiedNames.has(path.join('.'))) {
+    if (candidates.length === 0) {
+      return { status: 'unverified', reason: `No extracted API is named ${name}` };
+    }
+    if (owner && containers.has(owner) && !candidates.some(entry => lastSegment(entry.owner) === owner)) {
+      return { status: 'unverified', reason: `${owner} has no member ${name}` };
+    }
+  }
+
+  const arity = listedArity(signature);
+  const callables = candidates.filter(entry => entry.kind === 'function' || entry.kind === 'method' || entry.kind === 'constructor');
+  if (arity !== undefined && callables.length > 0 && !callables.some(entry => entry.parameters.some(parameter => parameter.rest))) {
+    const most = Math.max(...callables.map(entry => entry.parameters.length));
+    if (arity > most) {
+      // The longest overload of the listed symbol itself, else of any symbol with the name
+      const own = callables.filter(entry => entry.qualifiedName === path.join('.'));
+      const extracted = (own.length > 0 ? own : callables).reduce((longest, entry) => entry.parameters.length > longest.parameters.length ? entry : longest);
+      return { status: 'mismatch', reason: `Listed with ${arity} parameters; ${name} takes at most ${most}`, extracted };
+    }
+  }
+
+  return { status: 'verified' };
+};
+
+/**
+ * Cross-check every backticked signature in the API sections against the
+ * extracted APIs. Unverified entries are removed (or flagged, in flag
+ * mode), signatures with made-up parameters are replaced by the extracted
+ * one, extracted APIs the model left out are added back, and the report
+ * gives precision and recall of the model's own list.
+ */
+export const guardApiList = (
+  markdown: string,
+  apis: ApiEntry[],
+  mode: UnverifiedMode = 'remove'
+): { markdown: string; report: SignatureReport } => {
+  const byName = new Map<string, ApiEntry[]>();
+  for (const entry of apis) {
+    byName.set(entry.name, [...(byName.get(entry.name) || []), entry]);
+  }
+  const qualifiedNames = new Set(apis.map(entry => entry.qualifiedName));
+  const containers = new Set([
+    ...apis.filter(entry => ['class', 'interface', 'namespace', 'module', 'struct', 'trait', 'enum'].includes(entry.kind)).map(entry => entry.name),
+    ...apis.map(entry => lastSegment(entry.owner)).filter((owner): owner is string => Boolean(owner)),
+  ]);
+
+  const checks: SignatureCheck[] = [];
+  let inApiSection = false;
+  let fence = false;
+  const kept: string[] = [];
+
+  markdown.split('\n').forEach((line, position) => {
+    if (/^\s*```/.test(line)) fence = !fence;
+    const heading = !fence && line.match(/^#{1,6}\s+(.+?)\s*$/);
+    if (heading) {
+      inApiSection = isApiSection({ title: heading[1] });
+    }
+    const signature = !fence && inApiSection && isBullet(line) ? line.match(/`([^`\n]+)`/)?.[1] : undefined;
+    // Literals such as `{ strict: true }` name no symbol, so there is nothing to check
+    if (!signature || symbolPath(signature).length === 0) {
+      kept.push(line);
+      return;
+    }
+
+    const { extracted, ...result } = checkSignature(signature, byName, qualifiedNames, containers);
+    const check = { signature, line: position + 1, ...result };
+    checks.push(check);
+    if (check.status === 'mismatch' && extracted) {
+      kept.push(line.replace(`\`${signature}\``, () => `\`${extracted.signature}\``));
+    } else if (check.status !== 'unverified') {
+      kept.push(line);
+    } else if (mode === 'flag') {
+      kept.push(line.includes(UNVERIFIED_MARKER) ? line : `${line} ${UNVERIFIED_MARKER}`);
+    }
+  });
+
+  // Recall of the model's own list: extracted APIs it listed by their qualified name, before anything is added back
+  const expected = [...new Map(apis.map(entry => [entry.qualifiedName, entry])).values()];
+  const listedPaths = checks.filter(check => check.status !== 'unverified').map(check => symbolPath(check.signature).join('.'));
+  const recalled = expected.filter(entry => isListed(entry, listedPaths)).length;
+
+  const restored = addMissingApis(kept.join('\n'), apis);
+  const unverified = checks.filter(check => check.status === 'unverified');
+  const verified = checks.filter(check => check.status === 'verified').length;
+
+  return {
+    markdown: restored.markdown,
+    report: {
+      listed: checks.length,
+      verified,
+      mismatched: checks.filter(check => check.status === 'mismatch').length,
+      unverified,
+      precision: checks.length > 0 ? verified / checks.length : 1,
+      recall: expected.length > 0 ? recalled / expected.length : 1,
+      mode,
+      removed: mode === 'remove' ? unverified.length : 0,
+      flagged: mode === 'flag' ? unverified.length : 0,
+      restored: restored.added.length,
+    },
+  };
+};
+
+// Symbols the API sections list, as dotted paths: `Router.use(path, fn)` -> "Router.use"
+export const listedApiNames = (markdown: string): string[] => {
+  const names: string[] = [];
+  let inApiSection = false;
+  let fence = false;
+  for (const line of markdown.split('\n')) {
+    if (/^\s*```/.test(line)) fence = !fence;
+    const heading = !fence && line.match(/^#{1,6}\s+(.+?)\s*$/);
+    if (heading) {
+      inApiSection = isApiSection({ title: heading[1] });
+    }
+    const signature = !fence && inApiSection && isBullet(line) ? line.match(/`([^`\n]+)`/)?.[1] : undefined;
+    const path = signature ? symbolPath(signature) : [];
+    if (path.length > 0) names.push(path.join('.'));
+  }
+  return names;
+};
+
+// "precision 96% (48/50), recall 81% ...": one line for logs and the CLI
+export const describeSignatureReport = (report: SignatureReport): string => {
+  const percent = (value: number) => `${Math.round(value * 100)}%`;
+  const changes = [
+    report.removed > 0 && `removed ${report.removed} unverified`,
+    report.flagged > 0 && `flagged ${report.flagged} unverified`,
+    report.mismatched > 0 && `replaced ${report.mismatched} with extra parameters`,
+    report.restored > 0 && `restored ${report.restored} missing`,
+  ].filter(Boolean);
+  return `precision ${percent(report.precision)} (${report.verified}/${report.listed}), recall ${percent(report.recall)}`
+    + (changes.length > 0 ? `: ${changes.join(', ')}` : '');
+};
@@ -0,0 +1,160 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { createWorkflow, createStep } from '@mastra/core';
+import { z } from 'zod';
+import { fetchSourceStep, extractApisStep } from './generate-context-index';
+import { repoNameFromUrl } from '../sources';
+import { apiDiffSchema, apiEntrySchema, diffApis, parseApiIndex, renderMigrationNotes } from '../apis';
+import { logStepStart, logStepEnd, logError } from '../config/logger';
+
+// The extraction half of generate-context-index, run once per side
+const extractApiSurface = createWorkflow({
+  id: 'extract-api-surface',
+  description: 'Fetch a repository at one ref and extract its API entries',
+  inputSchema: z.object({
+    repoUrl: z.string(),
+    ref: z.string().optional()
+  }),
+  outputSchema: z.object({
+    repoUrl: z.string(),
+    ref: z.string().optional(),
+    commitSha: z.string().optional(),
+    apis: z.array(apiEntrySchema),
+    apiCount: z.number()
+  })
+})
+  .then(fetchSourceStep)
+  .then(extractApisStep)
+  .commit();
+
+// One side of the comparison once its entries are loaded
+const apiVersionSchema = z.object({
+  label: z.string(),
+  // Library name from the index title, when read from an index
+  name: z.string().optional(),
+  apis: z.array(apiEntrySchema)
+});
+
+// Shorten full commit SHAs in labels
+const versionLabel = (ref: string | undefined, commitSha: string | undefined): string => {
+  if (ref && commitSha && ref !== commitSha) return `${ref} (${commitSha.substring(0, 7)})`;
+  return ref || commitSha?.substring(0, 7) || 'default branch';
+};
+
+// Step 1: Extract both versions from the repository or read both indexes
+const loadApiVersionsStep = createStep({
+  id: 'load-api-versions',
+  description: 'Extract the API entries of two refs, or read them from two generated indexes',
+  inputSchema: z.object({
+    repoUrl: z.string().optional(),
+    fromRef: z.string().optional(),
+    toRef: z.string().optional(),
+    fromIndex: z.string().optional(),
+    toIndex: z.string().optional()
+  }),
+  outputSchema: z.object({
+    name: z.string(),
+    from: apiVersionSchema,
+    to: apiVersionSchema
+  }),
+  execute: async ({ inputData }) => {
+    const startTime = Date.now();
+    const { repoUrl, fromRef, toRef, fromIndex, toIndex } = inputData;
+
+    logStepStart('load-api-versions', { repoUrl, fromRef, toRef, fromIndex, toIndex });
+
+    const load = async (ref?: string, index?: string): Promise<z.infer<typeof apiVersionSchema>> => {
+      if (index) {
+        const content = await fs.promises.readFile(index, 'utf8');
+        return {
+          label: path.basename(index).replace(/\.(md|json)$/, '').replace(/-context-index$/, ''),
+          name: content.match(/^##\s+(.+?)\s+-\s+Condensed Context Index/m)?.[1],
+          apis: parseApiIndex(content)
+        };
+      }
+      if (!repoUrl) {
+        throw new Error('Either a repository URL or an index file is required for each version');
+      }
+
+      const run = await extractApiSurface.createRunAsync();
+      const result = await run.start({ inputData: { repoUrl, ref } });
+      if (result.status !== 'success') {
+        const reason = result.status === 'failed' ? result.error : undefined;
+        if (reason instanceof Error) throw reason;
+        throw new Error(reason ? String(reason).replace(/^Error: /, '') : `Workflow ${result.status}`);
+      }
+      return { label: versionLabel(result.result.ref, result.result.commitSha), apis: result.result.apis };
+    };
+
+    try {
+      // One side after the other; each extraction may fetch a whole repository
+      const from = await load(fromRef, fromIndex);
+      const to = await load(toRef, toIndex);
+      const name = repoUrl ? repoNameFromUrl(repoUrl) : to.name || from.name || to.label;
+
+      logStepEnd('load-api-versions', {
+        name,
+        from: { label: from.label, apiCount: from.apis.length },
+        to: { label: to.label, apiCount: to.apis.length }
+      }, Date.now() - startTime);
+
+      return { name, from, to };
+    } catch (error) {
+      logError('load-api-versions', error, { repoUrl, fromRef, toRef, fromIndex, toIndex });
+      throw error;
+    }
+  }
+});
+
+// Step 2: Diff the two surfaces and render migration notes
+const diffApiVersionsStep = createStep({
+  id: 'diff-api-versions',
+  description: 'Diff the two API surfaces and render them as migration notes',
+  inputSchema: z.object({
+    name: z.string(),
+    from: apiVersionSchema,
+    to: apiVersionSchema
+  }),
+  outputSchema: z.object({
+    name: z.string(),
+    from: z.string(),
+    to: z.string(),
+    diff: apiDiffSchema,
+    markdown: z.string()
+  }),
+  execute: async ({ inputData }) => {
+    const startTime = Date.now();
+    const { name, from, to } = inputData;
+
+    logStepStart('diff-api-versions', { name, from: from.label, to: to.label });
+
+    const diff = diffApis(from.apis, to.apis);
+    const markdown = renderMigrationNotes(diff, { name, from: from.label, to: to.label });
+
+    logStepEnd('diff-api-versions', diff.summary, Date.now() - startTime);
+
+    return { name, from: from.label, to: to.label, diff, markdown };
+  }
+});
+
+export const compareApiVersions = createWorkflow({
+  id: 'compare-api-versions',
+  description: 'Diff the public API of two versions of a repository and write migration notes',
+  inputSchema: z.object({
+    repoUrl: z.string().optional(),
+    fromRef: z.string().optional(),
+    toRef: z.string().optional(),
+    fromIndex: z.string().optional(),
+    toIndex: z.string().optional()
+  }),
+  outputSchema: z.object({
+    name: z.string(),
+    from: z.string(),
+    to: z.string(),
+    diff: apiDiffSchema,
+    markdown: z.string()
+  })
+})
+  .then(loadApiVersionsStep)
+  .then(diffApiVersionsStep)
+  .commit();
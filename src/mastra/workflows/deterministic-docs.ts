@@ -0,0 +1,149 @@
+import { RuntimeContext } from '@mastra/core/runtime-context';
+import { parseMarkdown } from '../tools/parse-markdown';
+import { extractCodePatterns } from '../tools/extract-code-patterns';
+import { generateOutput } from '../tools/generate-output';
+import { describeApi, type ApiEntry } from '../apis';
+
+// Concepts and patterns kept, matching the sizes the generator is asked for
+const MAX_CONCEPTS = 12;
+const MAX_PATTERNS = 6;
+// Sentences of README intro used as the overall purpose
+const PURPOSE_SENTENCES = 3;
+
+// Headings that describe the project around the library rather than the library
+const BOILERPLATE_HEADING = /^(table of contents|contents|toc|install|setup|getting started|quick ?start|licen[cs]e|contribut|change ?log|release|support|sponsor|backers|donat|authors?|credits|acknowledg|thanks|maintainers?|team|development|building|running|tests?|testing|benchmarks?|faq|badges|community|code of conduct|security|related|see also|similar|alternatives|roadmap|todo|status|browser support|requirements)/i;
+
+// Markdown to plain text: no images, badges, HTML, link targets or emphasis
+const plainText = (markdown: string): string => {
+  return markdown
+    .replace(/\[!\[[^\]]*\]\([^)]*\)\]\([^)]*\)/g, '')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;|&#160;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&[a-z]+;|&#\d+;/g, '')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\[[^\]]*\]/g, '$1')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+// Prose paragraphs only: no lists, tables, quotes, headings, HTML blocks or leftover link definitions
+const paragraphs = (markdown: string): string[] => {
+  return markdown
+    .split(/\n\s*\n/)
+    .filter(paragraph => !/^\s*([*+|>#<-]|\d+\.\s|\[[^\]]+\]:)/.test(paragraph))
+    .map(plainText)
+    .filter(text => /[a-z]{3,}/i.test(text) && text.length >= 20);
+};
+
+// A period only ends a sentence before whitespace, so `.parse()` and v1.2 stay whole
+const sentences = (text: string, count: number): string => {
+  const found = text.match(/.+?[.!?](?=\s|$)/g) || [text];
+  return found.slice(0, count).map(sentence => sentence.trim()).join(' ');
+};
+
+// "🚀 Features" -> "Features"
+const headingName = (heading: string): string => plainText(heading).replace(/^[^\w`]+|[:\s]+$/g, '');
+
+interface DocFile {
+  path: string;
+  content: string;
+}
+
+/**
+ * Build the whole index without a model: the purpose from the README
+ * intro, concepts from README and doc headings (or the top-level types
+ * when there are none), the APIs as extracted, and patterns from calls in
+ * the README's code blocks. The same files always give the same index.
+ */
+export const generateDeterministicDocs = async (options: {
+  repoName: string;
+  repoUrl: string;
+  files: DocFile[];
+  apis: ApiEntry[];
+  runtimeContext?: RuntimeContext;
+}): Promise<string> => {
+  const { repoName, repoUrl, files, apis } = options;
+  const runtimeContext = options.runtimeContext || new RuntimeContext();
+  const readme = files.find(file => /^readme\.(md|markdown|mdx|rst|txt)$/i.test(file.path));
+  const docs = files
+    .filter(file => file !== readme && /\.(md|markdown|mdx)$/i.test(file.path))
+    .sort((a, b) => a.path.localeCompare(b.path));
+
+  const parse = async (file: DocFile) => parseMarkdown.execute!({ context: { content: file.content }, runtimeContext });
+  const parsedReadme = readme ? await parse(readme) : undefined;
+
+  // Intro: text above the first heading, else the title section, else an overview section
+  const intro = [
+    readme?.content.split(/^#{1,6}\s/m)[0] || '',
+    parsedReadme?.sections.find(section => section.level === 1)?.content || '',
+    parsedReadme?.sections.find(section => /overview|introduction|about|what is/i.test(section.heading))?.content || '',
+  ].map(text => paragraphs(text).slice(0, 2).join(' ')).find(Boolean);
+  const topLevel = apis.filter(entry => !entry.owner && entry.deprecated === undefined);
+  const purpose = intro
+    ? sentences(intro, PURPOSE_SENTENCES)
+    : `${repoName} exposes ${apis.length} public APIs${topLevel.length > 0 ? `, including ${topLevel.slice(0, 3).map(entry => `\`${entry.name}\``).join(', ')}` : ''}.`;
+
+  // Concepts: README headings first, then the docs, in file order
+  const concepts: Array<{ name: string; description: string }> = [];
+  for (const [file, parsed] of [[readme, parsedReadme] as const, ...await Promise.all(docs.map(async file => [file, await parse(file)] as const))]) {
+    if (!file || !parsed) continue;
+    for (const section of parsed.sections) {
+      const name = headingName(section.heading);
+      if (section.level < 2 || section.level > 3 || !name || BOILERPLATE_HEADING.test(name)) continue;
+      if (concepts.some(concept => concept.name.toLowerCase() === name.toLowerCase())) continue;
+      // First paragraph, else the first list item; link-only sections are skipped
+      const summary = paragraphs(section.content)[0]
+        || plainText(section.content.match(/^\s*(?:[*+-]|\d+\.)\s+(.+)$/m)?.[1] || '');
+      if (!/[a-z]{3,}/i.test(summary)) continue;
+      concepts.push({ name, description: sentences(summary.trim(), 1) });
+    }
+  }
+  // No usable headings: the documented top-level types and namespaces stand in
+  if (concepts.length === 0) {
+    for (const entry of topLevel.filter(entry => ['class', 'interface', 'namespace', 'module', 'struct', 'trait', 'enum'].includes(entry.kind))) {
+      concepts.push({ name: entry.name, description: describeApi(entry) });
+    }
+  }
+
+  // Patterns: configuration calls, instantiations and method calls in README examples
+  const patterns: Array<{ name: string; pattern: string; description: string }> = [];
+  if (parsedReadme && parsedReadme.codeBlocks.length > 0) {
+    const found = await extractCodePatterns.execute!({ context: { codeBlocks: parsedReadme.codeBlocks }, runtimeContext });
+    const byName = new Map(apis.map(entry => [entry.name, entry]));
+    // Known APIs are explained with their own summary; calls to anything else are skipped when APIs were extracted
+    const known = (name: string) => apis.length === 0 || byName.has(name);
+    // One pattern per API, whatever the example named its variables
+    const add = (name: string, pattern: string, description: string) => {
+      if (!known(name) || patterns.some(existing => existing.name === name)) return;
+      const entry = byName.get(name);
+      patterns.push({ name, pattern, description: entry?.doc ? `${description} - ${describeApi(entry)}` : description });
+    };
+
+    for (const { functionName, description } of found.configurations) {
+      add(functionName.split('.').pop() || functionName, `\`${functionName}({ ... })\``, description);
+    }
+    for (const { className, description } of found.instantiations) {
+      add(className.split('.').pop() || className, `\`new ${className}(...)\``, description);
+    }
+    for (const { objectName, methodName, description } of found.methodCalls) {
+      add(methodName, `\`${objectName}.${methodName}(...)\``, description);
+    }
+  }
+
+  const result = await generateOutput.execute!({
+    context: {
+      repoName,
+      repoUrl,
+      purpose,
+      concepts: concepts.slice(0, MAX_CONCEPTS),
+      apis,
+      patterns: patterns.slice(0, MAX_PATTERNS).map(({ pattern, description }) => ({ pattern, description })),
+    },
+    runtimeContext,
+  });
+
+  return result.markdown;
+};
@@ -1,66 +1,131 @@
 import { createWorkflow, createStep } from '@mastra/core';
+import type { RuntimeContext } from '@mastra/core/runtime-context';
 import { z } from 'zod';
 import { comprehensiveDocGenerator } from '../agents/comprehensive-doc-generator';
+import { fetchAllDocs } from '../tools/fetch-all-docs';
+import { extractAllApis } from '../tools/extract-all-apis';
+import { generateDeterministicDocs } from './deterministic-docs';
+import { indexBaseName, repoNameFromUrl, splitRepoRef } from '../sources';
+import { apiEntrySchema, dedupeApiEntries, describeApi, type ApiEntry } from '../apis';
+import { budgetReportSchema, contextIndexSchema, contextIndexFromMarkdown, describeBudgetReport, renderShards, renderWithinBudget } from '../renderers';
+import { describeFindings, describeSignatureReport, formatReportSchema, guardApiList, repairIndexMarkdown, signatureReportSchema, unverifiedModeSchema, validateIndexMarkdown, type FormatReport } from '../validation';
+import { generateWithModel, modelOverridesSchema, modelSpecFor, modelTierSchema } from '../config/models';
+import { isFixtureMiss } from '../config/fixtures';
+import { mergeProjectConfigs, projectConfigSchema, projectTokenBudget, type ProjectConfig } from '../config/project';
 import { logStepStart, logStepEnd, logAgentActivity, logError } from '../config/logger';
 
+// File payload passed between steps
+const sourceFileSchema = z.object({
+  path: z.string(),
+  content: z.string(),
+  type: z.string(),
+  estimatedTokens: z.number().optional()
+});
+
+// Version the files were read at, carried through to the generated index
+const versionSchema = {
+  ref: z.string().optional(),
+  commitSha: z.string().optional()
+};
+
+// Project configuration in effect, carried from the fetch step to the writer
+const projectSchema = {
+  config: projectConfigSchema.optional()
+};
+
+const workflowInputSchema = z.object({
+  repoUrl: z.string(),
+  ref: z.string().optional(),
+  // Project configuration ahead of the repository's docsgen.config; the options below win over both
+  config: projectConfigSchema.optional(),
+  // Target size of the final index; it is compressed to fit when set
+  tokenBudget: z.number().optional(),
+  // Split the index into one file per module plus a root table of contents
+  shard: z.boolean().optional(),
+  // Listed APIs missing from the extracted set are removed (default) or flagged
+  unverifiedApis: unverifiedModeSchema.optional(),
+  // Build the index from the docs and extracted APIs alone, without any model call
+  deterministic: z.boolean().optional(),
+  // Models for this run by tier, ahead of the DOCSGEN_MODEL_* settings
+  models: modelOverridesSchema.optional(),
+  // Tier of the model writing the index; retries always use the cheap one
+  modelTier: modelTierSchema.optional(),
+  // Document one workspace package of a monorepo instead of the whole repository
+  package: z.object({ name: z.string(), path: z.string() }).optional(),
+  // Base of the output file names, in place of the one derived from the repository and ref
+  outputName: z.string().optional()
+});
+
+// How the generated text held up against the documented format
+const validationSchema = z.object({
+  // Report on the model's first answer, before any repair
+  initial: formatReportSchema,
+  // Report after repair and any retry; failing it means the fallback index was returned
+  final: formatReportSchema,
+  repaired: z.boolean(),
+  retried: z.boolean(),
+  fallback: z.boolean()
+});
+
+// One file of the generated set, relative to the output directory
+const outputFileSchema = z.object({
+  fileName: z.string(),
+  content: z.string()
+});
+
+// This run's explicit options as a project config, to layer over the repository's
+const inputConfig = (input: z.infer<typeof workflowInputSchema>): ProjectConfig => ({
+  output: { tokenBudget: input.tokenBudget, shard: input.shard, unverifiedApis: input.unverifiedApis },
+  models: input.models,
+  deterministic: input.deterministic
+});
+
 // Step 1: Fetch source files and TypeScript definitions
-const fetchSourceStep = createStep({
+export const fetchSourceStep = createStep({
   id: 'fetch-source',
   description: 'Fetch source files and TypeScript definitions',
-  inputSchema: z.object({
-    repoUrl: z.string()
-  }),
+  inputSchema: workflowInputSchema,
   outputSchema: z.object({
     repoUrl: z.string(),
-    files: z.array(z.object({
-      path: z.string(),
-      content: z.string(),
-      type: z.string()
-    })),
+    ...versionSchema,
+    ...projectSchema,
+    files: z.array(sourceFileSchema),
     hasTypeDefinitions: z.boolean()
   }),
-  execute: async ({ inputData }) => {
+  execute: async ({ inputData, runtimeContext }) => {
     const startTime = Date.now();
-    const { repoUrl } = inputData;
+    const { repoUrl, ref } = splitRepoRef(inputData.repoUrl, inputData.ref);
     
-    logStepStart('fetch-source', { repoUrl });
+    logStepStart('fetch-source', { repoUrl, ref });
     
     try {
-      logAgentActivity('comprehensive-doc-generator', 'fetching-source', { repoUrl });
+      const result = await fetchAllDocs.execute!({
+        context: { repoUrl, ref, searchType: 'all', config: inputData.config, packagePath: inputData.package?.path },
+        runtimeContext
+      });
       
-      // Simple, direct instructions - no loops
-      const result = await comprehensiveDocGenerator.generate(
-        `Fetch source files for ${repoUrl}.
-        
-        EXECUTE THESE STEPS EXACTLY:
-        1. Call fetchAllDocs ONCE with searchType='source' and maxFiles=40
-        2. Return the files you found
-        
-        DO NOT:
-        - Call fetchAllDocs multiple times
-        - Try different maxFiles values
-        - Keep searching if you already found files
-        
-        Format response as:
-        FILES_FOUND: [number]
-        HAS_TYPESCRIPT: [yes/no if you found .d.ts files]
-        FILE_LIST: [list of file paths found]`
-      );
+      if (!result.success) {
+        throw new Error(result.error || `No files could be fetched from ${repoUrl}`);
+      }
       
-      // Parse response
-      const hasTypescript = result.text?.includes('HAS_TYPESCRIPT: yes') || false;
-      const filesMatch = result.text?.match(/FILES_FOUND:\s*(\d+)/);
-      const filesCount = filesMatch ? parseInt(filesMatch[1]) : 0;
+      const files = result.files;
+      const hasTypeDefinitions = files.some(file => file.type === 'd.ts');
       
       logStepEnd('fetch-source', {
-        filesFound: filesCount,
-        hasTypescript
+        filesFound: files.length,
+        files: files.map(file => file.path),
+        hasTypeDefinitions,
+        commitSha: result.commitSha
       }, Date.now() - startTime);
       
       return {
         repoUrl,
-        files: [], // The agent has the files in context
-        hasTypeDefinitions: hasTypescript
+        // Packages have no ref; their published version identifies them
+        ref: ref || result.version,
+        commitSha: result.commitSha,
+        config: mergeProjectConfigs(result.config, inputConfig(inputData)),
+        files,
+        hasTypeDefinitions
       };
     } catch (error) {
       logError('fetch-source', error, { repoUrl });
@@ -70,97 +135,48 @@ const fetchSourceStep = createStep({
 });
 
 // Step 2: Extract APIs from TypeScript definitions
-const extractApisStep = createStep({
+export const extractApisStep = createStep({
   id: 'extract-apis',
   description: 'Extract APIs from TypeScript definitions',
   inputSchema: z.object({
     repoUrl: z.string(),
-    files: z.array(z.object({
-      path: z.string(),
-      content: z.string(),
-      type: z.string()
-    })),
+    ...versionSchema,
+    ...projectSchema,
+    files: z.array(sourceFileSchema),
     hasTypeDefinitions: z.boolean()
   }),
   outputSchema: z.object({
     repoUrl: z.string(),
-    apis: z.array(z.object({
-      signature: z.string(),
-      description: z.string(),
-      category: z.string().optional()
-    })),
+    ...versionSchema,
+    ...projectSchema,
+    files: z.array(sourceFileSchema),
+    apis: z.array(apiEntrySchema),
     apiCount: z.number()
   }),
-  execute: async ({ inputData }) => {
+  execute: async ({ inputData, runtimeContext }) => {
     const startTime = Date.now();
-    const { repoUrl, hasTypeDefinitions } = inputData;
+    const { repoUrl, ref, commitSha, config, files, hasTypeDefinitions } = inputData;
     
-    logStepStart('extract-apis', { repoUrl, hasTypeDefinitions });
+    logStepStart('extract-apis', { repoUrl, hasTypeDefinitions, fileCount: files.length });
     
     try {
-      logAgentActivity('comprehensive-doc-generator', 'extracting-apis', { repoUrl });
-      
-      // Clear instructions to extract APIs
-      const result = await comprehensiveDocGenerator.generate(
-        `Extract APIs from the files you fetched for ${repoUrl}.
-        
-        EXECUTE THESE STEPS EXACTLY:
-        ${hasTypeDefinitions ? `
-        1. Find the .d.ts file(s) you fetched (like index.d.ts)
-        2. Call extractAllApis ONCE on the .d.ts file
-        3. Return ALL the APIs you found
-        ` : `
-        1. Find the main JavaScript/TypeScript files
-        2. Call extractAllApis ONCE on the main file
-        3. Return the APIs you found
-        `}
-        
-        DO NOT:
-        - Call extractAllApis multiple times on the same file
-        - Call fetchAllDocs again
-        - Keep searching after extracting APIs
-        
-        STOP IMMEDIATELY after extracting APIs.
-        
-        Format response as:
-        API_COUNT: [number of APIs found]
-        APIS_EXTRACTED: [yes/no]
-        
-        If you found more than 50 APIs, that's great! List them all.`
-      );
-      
-      // Parse response
-      const apiCountMatch = result.text?.match(/API_COUNT:\s*(\d+)/);
-      const apiCount = apiCountMatch ? parseInt(apiCountMatch[1]) : 0;
+      const { apis, targets } = await extractRepositoryApis(files, runtimeContext);
       
-      // Extract actual API signatures from the response
-      const apis: any[] = [];
-      const lines = result.text?.split('\n') || [];
-      
-      for (const line of lines) {
-        // Look for lines that look like API signatures
-        if (line.includes('(') && !line.startsWith('//') && !line.startsWith('#')) {
-          const cleaned = line.replace(/^[\s\-\*]+/, '').trim();
-          if (cleaned && !cleaned.includes('API_COUNT') && !cleaned.includes('APIS_EXTRACTED')) {
-            apis.push({
-              signature: cleaned,
-              description: 'API method',
-              category: 'extracted'
-            });
-          }
-        }
-      }
-      
-      console.log(`Extracted ${apiCount} APIs from TypeScript definitions`);
+      console.log(`Extracted ${apis.length} APIs from ${targets.length} files`);
       
       logStepEnd('extract-apis', {
-        apiCount
+        apiCount: apis.length,
+        filesProcessed: targets.map(file => file.path)
       }, Date.now() - startTime);
       
       return {
         repoUrl,
+        ref,
+        commitSha,
+        config,
+        files,
         apis,
-        apiCount
+        apiCount: apis.length
       };
     } catch (error) {
       logError('extract-apis', error, { repoUrl });
@@ -175,31 +191,118 @@ const generateFinalDocsStep = createStep({
   description: 'Generate the final comprehensive documentation',
   inputSchema: z.object({
     repoUrl: z.string(),
-    apis: z.array(z.object({
-      signature: z.string(),
-      description: z.string(),
-      category: z.string().optional()
-    })),
+    ...versionSchema,
+    ...projectSchema,
+    files: z.array(sourceFileSchema),
+    apis: z.array(apiEntrySchema),
     apiCount: z.number()
   }),
   outputSchema: z.object({
-    markdown: z.string()
+    markdown: z.string(),
+    // Structured form of the same index, rendered into the other output formats
+    index: contextIndexSchema,
+    budget: budgetReportSchema.optional(),
+    appendices: z.array(outputFileSchema).optional(),
+    // Every file to write: the index and its appendices, or the shards
+    files: z.array(outputFileSchema),
+    validation: validationSchema.optional(),
+    // Listed APIs checked against the extracted ones; absent for the fallback index
+    signatures: signatureReportSchema.optional(),
+    ...versionSchema,
+    ...projectSchema
   }),
-  execute: async ({ inputData }) => {
+  execute: async ({ inputData, getInitData, runtimeContext }) => {
     const startTime = Date.now();
-    const { repoUrl, apis, apiCount } = inputData;
-    const repoName = repoUrl.split('/').pop() || 'Unknown Repository';
+    const { repoUrl, ref, commitSha, config = {}, files, apis, apiCount } = inputData;
+    const { modelTier, package: workspacePackage, outputName } = getInitData<typeof workflowInputSchema>();
+    // The fetch step already layered this run's options over the project config
+    const tokenBudget = projectTokenBudget(config);
+    const { shard, unverifiedApis } = config.output || {};
+    const { deterministic, models } = config;
+    const repoName = workspacePackage?.name || repoNameFromUrl(repoUrl);
+    const version = describeVersion(repoUrl, ref, commitSha, workspacePackage?.path);
+    const readme = files.find(file => /^readme\./i.test(file.path));
+    const toIndex = (markdown: string) => contextIndexFromMarkdown(markdown, {
+      name: repoName,
+      repoUrl,
+      ref,
+      commitSha,
+      source: version.replace(/^>\s*/, ''),
+      apis
+    });
     
-    logStepStart('generate-final-docs', { repoUrl, apiCount });
+    // The index as returned; over budget it is compressed and the rest moved to appendices
+    const finish = (markdown: string) => {
+      const index = toIndex(markdown);
+      const baseName = outputName || indexBaseName(repoUrl, ref, workspacePackage?.name);
+      const shards = shard ? renderShards(index, baseName, tokenBudget) : undefined;
+      if (shards) {
+        console.log(`Sharded into ${shards.files.length} files under ${baseName}/`);
+      }
+      const files = (outputs: Array<{ fileName: string; content: string }>) =>
+        shards ? shards.files.map(({ fileName, content }) => ({ fileName, content })) : outputs;
+      
+      if (!tokenBudget) {
+        return { markdown, index, files: files([{ fileName: `${baseName}-context-index.md`, content: markdown }]), ref, commitSha, config };
+      }
+      
+      const budgeted = renderWithinBudget(index, 'markdown', tokenBudget, baseName);
+      console.log(`Token budget: ${describeBudgetReport(budgeted.report)}`);
+      const fitted = budgeted.report.tiers.length > 0 ? budgeted.output.content : markdown;
+      const appendices = budgeted.appendices.map(({ fileName, content }) => ({ fileName, content }));
+      
+      return {
+        markdown: fitted,
+        index,
+        budget: budgeted.report,
+        appendices,
+        files: files([{ fileName: budgeted.output.fileName, content: fitted }, ...appendices]),
+        ref,
+        commitSha,
+        config
+      };
+    };
+    const apiList = apis
+      .map(api => `* \`${api.signature}\` - ${describeApi(api)}`)
+      .join('\n');
+    
+    logStepStart('generate-final-docs', { repoUrl, apiCount, deterministic });
+    
+    // No model: every section comes from the fetched files and extracted APIs
+    if (deterministic) {
+      const markdown = await generateDeterministicDocs({ repoName, repoUrl, files, apis, runtimeContext });
+      const report = validateIndexMarkdown(markdown, { apis });
+      const output = {
+        ...finish(withVersionLine(markdown, version)),
+        validation: { initial: report, final: report, repaired: false, retried: false, fallback: false }
+      };
+      
+      logStepEnd('generate-final-docs', {
+        markdownLength: output.markdown.length,
+        files: output.files.length,
+        budget: output.budget,
+        deterministic,
+        findings: report.findings.length
+      }, Date.now() - startTime);
+      
+      return output;
+    }
     
     try {
-      logAgentActivity('comprehensive-doc-generator', 'generating-docs', { repoUrl, apiCount });
+      const model = modelSpecFor({ agent: 'comprehensive-doc-generator', step: 'generate-final-docs', tier: modelTier || 'strong' }, models);
+      logAgentActivity('comprehensive-doc-generator', 'generating-docs', { repoUrl, apiCount, model });
       
       // Generate documentation WITHOUT calling more tools
-      const result = await comprehensiveDocGenerator.generate(
-        `Generate final documentation for ${repoUrl}.
+      const text = await generateWithModel(
+        comprehensiveDocGenerator,
+        `Generate final documentation for ${repoUrl} at ${ref || 'its default branch'}.
         
-        You found ${apiCount} APIs. Now create the documentation.
+        Only document what exists in this version of the repository.
+        
+        ${apiCount} APIs were extracted from the repository source:
+        ${apiList || '(none)'}
+        
+        ${readme ? `README (${readme.path}):\n${readme.content.substring(0, 8000)}` : 'No README was found.'}
         
         DO NOT CALL ANY TOOLS. Just generate the markdown.
         
@@ -208,7 +311,7 @@ const generateFinalDocsStep = createStep({
         ## ${repoName} - Condensed Context Index
         
         ### Overall Purpose
-        [2-3 sentences about what this library does, based on what you learned]
+        [2-3 sentences about what this library does, based on the README and APIs]
         
         ### Core Concepts & Capabilities
         * **[Concept]** - [Description] - [Additional details or examples]
@@ -224,7 +327,7 @@ const generateFinalDocsStep = createStep({
         [10-12 bullet points total]
 
         ### Key APIs
-        [List the ${apiCount} APIs you found]
+        [List the ${apiCount} extracted APIs above]
         [Format each as: * **\`signature\`** - brief description]
         [If there are many APIs, group them logically]
         
@@ -233,33 +336,179 @@ const generateFinalDocsStep = createStep({
         [4-6 bullet points total]
         
         IMPORTANT:
-        - Include ALL ${apiCount} APIs you found
+        - Include ALL ${apiCount} extracted APIs
+        - Keep the descriptions given above; they come from the library's own doc comments${tokenBudget ? `
+        - Keep the whole index under about ${tokenBudget} tokens (${tokenBudget * 4} characters); prefer short descriptions over dropping APIs` : ''}
         - DO NOT call fetchAllDocs or any other tools
-        - Just write the markdown and return it`
+        - Just write the markdown and return it`,
+        model
       );
       
-      const markdown = result.text || generateFallbackMarkdown(repoName, apiCount, apis);
+      // Fix the format, then check every listed API against the extracted ones and add back what is missing
+      const clean = (text: string) => {
+        const formatted = repairIndexMarkdown(text, { name: repoName });
+        return apis.length > 0 ? guardApiList(formatted, apis, unverifiedApis) : { markdown: formatted, report: undefined };
+      };
+      
+      // Lint the answer, fix what can be fixed locally, then give the model one retry with the findings
+      const initial = validateIndexMarkdown(text, { apis });
+      let guarded = clean(text);
+      let candidate = guarded.markdown;
+      let report: FormatReport = validateIndexMarkdown(candidate, { apis });
+      let retried = false;
+      
+      if (!report.valid && text) {
+        const repairModel = modelSpecFor({ agent: 'comprehensive-doc-generator', step: 'repair-docs', tier: 'cheap' }, models);
+        logAgentActivity('comprehensive-doc-generator', 'repairing-docs', {
+          repoUrl,
+          model: repairModel,
+          errors: report.findings.filter(finding => finding.severity === 'error').length
+        });
+        retried = true;
+        
+        const retry = await generateWithModel(
+          comprehensiveDocGenerator,
+          `This context index for ${repoUrl} does not follow the required format:
+          
+          ${describeFindings(report.findings.filter(finding => finding.severity === 'error'))}
+          
+          Return the complete corrected index in the same format: a "## ${repoName} - Condensed Context Index" title, then ### sections for Overall Purpose, Core Concepts & Capabilities, Key APIs and Common Patterns & Best Practices.
+          Keep every API entry that is already listed. DO NOT CALL ANY TOOLS.
+          
+          ${candidate}`,
+          repairModel
+        );
+        if (retry) {
+          guarded = clean(retry);
+          candidate = guarded.markdown;
+          report = validateIndexMarkdown(candidate, { apis });
+        }
+      }
+      
+      const validation = {
+        initial,
+        final: report,
+        repaired: candidate.trim() !== text.trim(),
+        retried,
+        fallback: !report.valid
+      };
+      if (!report.valid) {
+        console.log(`Generated index failed validation, using the fallback:\n${describeFindings(report.findings)}`);
+      }
+      const signatures = report.valid ? guarded.report : undefined;
+      if (signatures) {
+        console.log(`API check: ${describeSignatureReport(signatures)}`);
+      }
+      
+      const markdown = withVersionLine(report.valid ? candidate : generateFallbackMarkdown(repoName, apiCount, apis), version);
+      
+      const output = { ...finish(markdown), validation, signatures };
       
       logStepEnd('generate-final-docs', { 
-        markdownLength: markdown.length 
+        markdownLength: output.markdown.length,
+        files: output.files.length,
+        budget: output.budget,
+        valid: report.valid,
+        findings: report.findings.length,
+        retried,
+        fallback: validation.fallback,
+        precision: signatures?.precision,
+        recall: signatures?.recall,
+        unverified: signatures?.unverified.map(check => check.signature)
       }, Date.now() - startTime);
       
-      return { markdown };
+      return output;
     } catch (error) {
       logError('generate-final-docs', error, { repoUrl });
+      // A replay with no recorded answer must fail the run rather than pass with the fallback
+      if (isFixtureMiss(error)) throw error;
       
-      return {
-        markdown: generateFallbackMarkdown(repoName, apiCount, apis)
-      };
+      return finish(withVersionLine(generateFallbackMarkdown(repoName, apiCount, apis), version));
     }
   }
 });
 
+/**
+ * Run the extractors over fetched files the way the extract-apis step
+ * does, so the eval harness measures exactly what the workflow produces.
+ */
+export async function extractRepositoryApis(
+  files: Array<{ path: string; content: string; type: string }>,
+  runtimeContext: RuntimeContext
+): Promise<{ apis: ApiEntry[]; targets: Array<{ path: string }> }> {
+  // Declaration files carry the complete public surface, so only fall
+  // back to docs and sources when the repository ships none
+  const hasTypeDefinitions = files.some(file => file.type === 'd.ts');
+  const targets = hasTypeDefinitions
+    ? files.filter(file => file.type === 'd.ts')
+    : files.filter(file => file.type !== 'json');
+  
+  // Re-exports between TypeScript files resolve against the fetched set
+  const typeScriptFiles = files
+    .filter(file => ['d.ts', 'ts', 'tsx', 'mts', 'cts'].includes(file.type))
+    .map(file => ({ path: file.path, content: file.content }));
+  
+  // Symbols reachable from a package's "types" entry are imported by its name
+  const manifest = parseManifest(files.find(file => file.path === 'package.json')?.content);
+  const typesEntry = (manifest?.types || manifest?.typings)?.replace(/^\.\//, '');
+  
+  const extracted: ApiEntry[] = [];
+  
+  for (const file of targets) {
+    const result = await extractAllApis.execute!({
+      context: {
+        content: file.content,
+        contentType: file.type,
+        path: file.path,
+        files: typeScriptFiles,
+        importPath: manifest?.name && file.path === typesEntry ? manifest.name : undefined
+      },
+      runtimeContext
+    });
+    
+    extracted.push(...result.apis);
+  }
+  
+  return { apis: dedupeApiEntries(extracted), targets };
+}
+
+// package.json of the repository or package, if it was fetched and parses
+function parseManifest(content?: string): { name?: string; types?: string; typings?: string } | undefined {
+  if (!content) return undefined;
+  try {
+    return JSON.parse(content);
+  } catch {
+    return undefined;
+  }
+}
+
+// Describe the exact version the index was generated from, and the package directory in a monorepo
+function describeVersion(repoUrl: string, ref?: string, commitSha?: string, packagePath?: string): string {
+  const location = packagePath ? `, package \`${packagePath}\`` : '';
+  if (!commitSha) {
+    return ref ? `> Source: ${repoUrl} @ \`${ref}\`${location}` : `> Source: ${repoUrl} (working tree)${location}`;
+  }
+  return `> Source: ${repoUrl} @ \`${ref || 'default branch'}\` (commit \`${commitSha}\`)${location}`;
+}
+
+// Insert the version line below the title so agents see it first
+function withVersionLine(markdown: string, version: string): string {
+  const lines = markdown.split('\n');
+  const titleIndex = lines.findIndex(line => line.startsWith('## '));
+  
+  if (titleIndex === -1) {
+    return `${version}\n\n${markdown}`;
+  }
+  
+  lines.splice(titleIndex + 1, 0, '', version);
+  return lines.join('\n');
+}
+
 // Helper function to generate fallback markdown
 function generateFallbackMarkdown(
   repoName: string,
   apiCount: number,
-  apis: Array<{ signature: string; description: string; category?: string }>
+  apis: ApiEntry[]
 ): string {
   let markdown = `## ${repoName} - Condensed Context Index\n\n`;
   
@@ -270,7 +519,7 @@ function generateFallbackMarkdown(
   
   if (apis.length > 0) {
     for (const api of apis.slice(0, 200)) {
-      markdown += `* **\`${api.signature}\`** - ${api.description}\n`;
+      markdown += `* **\`${api.signature}\`** - ${describeApi(api)}\n`;
     }
     
     if (apis.length > 200) {
@@ -288,11 +537,18 @@ function generateFallbackMarkdown(
 export const generateContextIndex = createWorkflow({
   id: 'generate-context-index',
   description: 'Generate documentation with optimized workflow',
-  inputSchema: z.object({
-    repoUrl: z.string()
-  }),
+  inputSchema: workflowInputSchema,
   outputSchema: z.object({
-    markdown: z.string()
+    markdown: z.string(),
+    index: contextIndexSchema,
+    budget: budgetReportSchema.optional(),
+    appendices: z.array(outputFileSchema).optional(),
+    // Every file to write: the index and its appendices, or the shards
+    files: z.array(outputFileSchema),
+    validation: validationSchema.optional(),
+    signatures: signatureReportSchema.optional(),
+    ...versionSchema,
+    ...projectSchema
   })
 })
   .then(fetchSourceStep)
@@ -0,0 +1,226 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { createWorkflow, createStep } from '@mastra/core';
+import { z } from 'zod';
+import { resolveDependencies } from '../tools/resolve-dependencies';
+import { generateContextIndex } from './generate-context-index';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { modelOverridesSchema } from '../config/models';
+import { logStepStart, logStepEnd, logError } from '../config/logger';
+
+// Each dependency runs the full single-repository workflow, so keep this low
+const DEFAULT_CONCURRENCY = 2;
+const DEFAULT_OUTPUT_DIR = 'context-indexes';
+
+const dependencySchema = z.object({
+  name: z.string(),
+  packageName: z.string(),
+  range: z.string(),
+  dev: z.boolean(),
+  version: z.string().optional(),
+  source: z.string().optional(),
+  unresolvedReason: z.string().optional()
+});
+
+// One entry of manifest.json per direct dependency
+const manifestEntrySchema = z.object({
+  name: z.string(),
+  packageName: z.string(),
+  range: z.string(),
+  version: z.string().optional(),
+  source: z.string().optional(),
+  status: z.enum(['generated', 'failed', 'skipped']),
+  // The index; under a token budget also its appendices, or the shards
+  file: z.string().optional(),
+  files: z.array(z.string()).optional(),
+  error: z.string().optional(),
+  durationMs: z.number().optional()
+});
+
+const batchOptionsSchema = {
+  projectPath: z.string(),
+  outputDir: z.string(),
+  concurrency: z.number()
+};
+
+const workflowInputSchema = z.object({
+  projectPath: z.string(),
+  includeDev: z.boolean().optional(),
+  outputDir: z.string().optional(),
+  concurrency: z.number().optional(),
+  // Generate every index without model calls
+  deterministic: z.boolean().optional(),
+  // Models by tier for every run; dependency indexes are bulk work, so they use the cheap tier
+  models: modelOverridesSchema.optional()
+});
+
+// Base name of one index: @scope/pkg@1.2.3 -> scope__pkg@1.2.3 (the index itself is scope__pkg@1.2.3.md)
+const indexStem = (packageName: string, version: string): string => {
+  return `${packageName.replace(/^@/, '').replace(/\//g, '__')}@${version}`;
+};
+
+// Step 1: Resolve direct dependencies to exact versions
+const resolveDependenciesStep = createStep({
+  id: 'resolve-dependencies',
+  description: 'Resolve direct dependencies to exact versions from package.json and the lockfile',
+  inputSchema: workflowInputSchema,
+  outputSchema: z.object({
+    ...batchOptionsSchema,
+    projectName: z.string(),
+    lockfile: z.string().optional(),
+    dependencies: z.array(dependencySchema)
+  }),
+  execute: async ({ inputData, runtimeContext }) => {
+    const startTime = Date.now();
+    const { projectPath, includeDev = false } = inputData;
+    const outputDir = inputData.outputDir || DEFAULT_OUTPUT_DIR;
+    const concurrency = Math.max(1, inputData.concurrency || DEFAULT_CONCURRENCY);
+
+    logStepStart('resolve-dependencies', { projectPath, includeDev });
+
+    const result = await resolveDependencies.execute!({
+      context: { projectPath, includeDev },
+      runtimeContext
+    });
+
+    if (!result.success) {
+      throw new Error(result.error || `Could not read dependencies of ${projectPath}`);
+    }
+
+    logStepEnd('resolve-dependencies', {
+      lockfile: result.lockfile,
+      dependencies: result.dependencies.map(dependency => `${dependency.packageName}@${dependency.version || dependency.range}`)
+    }, Date.now() - startTime);
+
+    return {
+      projectPath,
+      outputDir,
+      concurrency,
+      projectName: result.projectName,
+      lockfile: result.lockfile,
+      dependencies: result.dependencies
+    };
+  }
+});
+
+// Step 2: Generate one index per package@version and write the manifest
+const generateIndexesStep = createStep({
+  id: 'generate-dependency-indexes',
+  description: 'Run generate-context-index for every resolved dependency with bounded concurrency',
+  inputSchema: z.object({
+    ...batchOptionsSchema,
+    projectName: z.string(),
+    lockfile: z.string().optional(),
+    dependencies: z.array(dependencySchema)
+  }),
+  outputSchema: z.object({
+    outputDir: z.string(),
+    manifestPath: z.string(),
+    generated: z.number(),
+    failed: z.number(),
+    skipped: z.number(),
+    packages: z.array(manifestEntrySchema)
+  }),
+  execute: async ({ inputData, getInitData }) => {
+    const startTime = Date.now();
+    const { projectName, lockfile, outputDir, concurrency, dependencies } = inputData;
+    const { deterministic, models } = getInitData<typeof workflowInputSchema>();
+
+    logStepStart('generate-dependency-indexes', { projectName, count: dependencies.length, concurrency });
+
+    await fs.promises.mkdir(outputDir, { recursive: true });
+
+    const packages = await mapWithConcurrency(dependencies, concurrency, async (dependency): Promise<z.infer<typeof manifestEntrySchema>> => {
+      const { name, packageName, range, version, source } = dependency;
+
+      if (!version || !source) {
+        return { name, packageName, range, version, source, status: 'skipped', error: dependency.unresolvedReason };
+      }
+
+      const started = Date.now();
+      try {
+        const run = await generateContextIndex.createRunAsync();
+        const stem = indexStem(packageName, version);
+        const result = await run.start({ inputData: { repoUrl: source, deterministic: deterministic || undefined, models, modelTier: 'cheap', outputName: stem } });
+
+        if (result.status !== 'success') {
+          const reason = result.status === 'failed' ? result.error : undefined;
+          if (reason instanceof Error) throw reason;
+          throw new Error(reason ? String(reason).replace(/^Error: /, '') : `Workflow ${result.status}`);
+        }
+
+        // Everything a single-repository run writes: the index with its appendices, or the shards.
+        // An unsharded index keeps the <package>@<version>.md name
+        const sharded = result.result.files[0]?.fileName !== `${stem}-context-index.md`;
+        const outputs = result.result.files.map((output, position) => position === 0 && !sharded ? { ...output, fileName: `${stem}.md` } : output);
+        for (const output of outputs) {
+          await fs.promises.mkdir(path.dirname(path.join(outputDir, output.fileName)), { recursive: true });
+          await fs.promises.writeFile(path.join(outputDir, output.fileName), output.content);
+        }
+        const file = outputs[0].fileName;
+        console.log(`✅ ${packageName}@${version} -> ${path.join(outputDir, file)}${outputs.length > 1 ? ` (+${outputs.length - 1} files)` : ''}`);
+
+        return { name, packageName, range, version, source, status: 'generated', file, files: outputs.map(output => output.fileName), durationMs: Date.now() - started };
+      } catch (error) {
+        // One broken package must not stop the batch
+        logError('generate-dependency-indexes', error, { packageName, version, source });
+        console.error(`❌ ${packageName}@${version}: ${error instanceof Error ? error.message : error}`);
+
+        return {
+          name,
+          packageName,
+          range,
+          version,
+          source,
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Unknown error',
+          durationMs: Date.now() - started
+        };
+      }
+    });
+
+    const manifestPath = path.join(outputDir, 'manifest.json');
+    const manifest = {
+      project: projectName,
+      lockfile,
+      generatedAt: new Date().toISOString(),
+      packages
+    };
+    await fs.promises.writeFile(manifestPath, `${JSON.stringify(manifest, null, 2)}\n`);
+
+    const count = (status: string) => packages.filter(entry => entry.status === status).length;
+    const summary = {
+      outputDir,
+      manifestPath,
+      generated: count('generated'),
+      failed: count('failed'),
+      skipped: count('skipped'),
+      packages
+    };
+
+    logStepEnd('generate-dependency-indexes', {
+      generated: summary.generated,
+      failed: summary.failed,
+      skipped: summary.skipped
+    }, Date.now() - startTime);
+
+    return summary;
+  }
+});
+
+export const generateDependencyIndexes = createWorkflow({
+  id: 'generate-dependency-indexes',
+  description: 'Generate one context index per direct dependency of a project, pinned to the versions in its lockfile',
+  inputSchema: workflowInputSchema,
+  outputSchema: z.object({
+    outputDir: z.string(),
+    manifestPath: z.string(),
+    generated: z.number(),
+    failed: z.number(),
+    skipped: z.number(),
+    packages: z.array(manifestEntrySchema)
+  })
+})
+  .then(resolveDependenciesStep)
+  .then(generateIndexesStep)
+  .commit();
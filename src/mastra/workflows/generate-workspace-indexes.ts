@@ -0,0 +1,276 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { createWorkflow, createStep } from '@mastra/core';
+import { z } from 'zod';
+import { listWorkspaces } from '../tools/list-workspaces';
+import { generateContextIndex } from './generate-context-index';
+import { indexBaseName, repoNameFromUrl, splitRepoRef, workspacePackageSchema } from '../sources';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { modelOverridesSchema } from '../config/models';
+import { projectConfigSchema } from '../config/project';
+import { logStepStart, logStepEnd, logError } from '../config/logger';
+
+// Each package runs the full single-repository workflow, so keep this low
+const DEFAULT_CONCURRENCY = 2;
+const DEFAULT_OUTPUT_DIR = 'context-indexes';
+
+// One index file per package, or one file with a section per package
+const workspaceModeSchema = z.enum(['each', 'combined']);
+
+// One entry of manifest.json per publishable package
+const manifestEntrySchema = z.object({
+  name: z.string(),
+  path: z.string(),
+  language: z.string(),
+  version: z.string().optional(),
+  status: z.enum(['generated', 'failed']),
+  // Files written for the package, relative to the output directory; absent in combined mode
+  files: z.array(z.string()).optional(),
+  error: z.string().optional(),
+  durationMs: z.number().optional()
+});
+
+const batchOptionsSchema = {
+  repoUrl: z.string(),
+  ref: z.string().optional(),
+  // Commit the packages were listed at; every package is read at it
+  commitSha: z.string().optional(),
+  mode: workspaceModeSchema,
+  outputDir: z.string(),
+  concurrency: z.number()
+};
+
+const workflowInputSchema = z.object({
+  repoUrl: z.string(),
+  ref: z.string().optional(),
+  // One index per package (default) or a combined index
+  mode: workspaceModeSchema.optional(),
+  // Only these packages, by name or directory
+  packages: z.array(z.string()).optional(),
+  outputDir: z.string().optional(),
+  concurrency: z.number().optional(),
+  // Passed to every package run, as for generate-context-index
+  config: projectConfigSchema.optional(),
+  tokenBudget: z.number().optional(),
+  deterministic: z.boolean().optional(),
+  models: modelOverridesSchema.optional()
+});
+
+const workflowOutputSchema = z.object({
+  mode: workspaceModeSchema,
+  outputDir: z.string(),
+  manifestPath: z.string(),
+  // The combined index, in combined mode
+  combinedPath: z.string().optional(),
+  generated: z.number(),
+  failed: z.number(),
+  packages: z.array(manifestEntrySchema)
+});
+
+// Step 1: Find the publishable packages of the workspace
+const listPackagesStep = createStep({
+  id: 'list-workspace-packages',
+  description: 'Detect the workspace definitions of a monorepo and list its publishable packages',
+  inputSchema: workflowInputSchema,
+  outputSchema: z.object({
+    ...batchOptionsSchema,
+    tools: z.array(z.string()),
+    packages: z.array(workspacePackageSchema)
+  }),
+  execute: async ({ inputData, runtimeContext }) => {
+    const startTime = Date.now();
+    const { repoUrl, ref } = splitRepoRef(inputData.repoUrl, inputData.ref);
+    const mode = inputData.mode || 'each';
+    const outputDir = inputData.outputDir || DEFAULT_OUTPUT_DIR;
+    const concurrency = Math.max(1, inputData.concurrency || DEFAULT_CONCURRENCY);
+
+    logStepStart('list-workspace-packages', { repoUrl, ref, mode, packages: inputData.packages });
+
+    const result = await listWorkspaces.execute!({
+      context: { repoUrl, ref },
+      runtimeContext
+    });
+
+    if (!result.success) {
+      throw new Error(result.error || `Could not list the workspaces of ${repoUrl}`);
+    }
+
+    const wanted = inputData.packages;
+    const packages = wanted?.length
+      ? result.packages.filter(entry => wanted.includes(entry.name) || wanted.includes(entry.path))
+      : result.packages;
+    const unknown = (wanted || []).filter(name => !result.packages.some(entry => entry.name === name || entry.path === name));
+    if (unknown.length > 0) {
+      throw new Error(`No publishable package ${unknown.map(name => `"${name}"`).join(', ')} in ${repoUrl}; found ${result.packages.map(entry => entry.name).join(', ') || 'none'}`);
+    }
+    if (packages.length === 0) {
+      throw new Error(`${repoUrl} has no publishable packages (${result.skipped.length} private)`);
+    }
+
+    logStepEnd('list-workspace-packages', {
+      commitSha: result.commitSha,
+      tools: result.tools,
+      packages: packages.map(entry => `${entry.name} (${entry.path || '.'})`),
+      skipped: result.skipped.map(entry => `${entry.name}: ${entry.reason}`)
+    }, Date.now() - startTime);
+
+    return { repoUrl, ref, commitSha: result.commitSha, mode, outputDir, concurrency, tools: result.tools, packages };
+  }
+});
+
+// Step 2: Generate an index per package, then write them one per file or combined
+const generateIndexesStep = createStep({
+  id: 'generate-workspace-indexes',
+  description: 'Run generate-context-index for every workspace package with bounded concurrency',
+  inputSchema: z.object({
+    ...batchOptionsSchema,
+    tools: z.array(z.string()),
+    packages: z.array(workspacePackageSchema)
+  }),
+  outputSchema: workflowOutputSchema,
+  execute: async ({ inputData, getInitData }) => {
+    const startTime = Date.now();
+    const { repoUrl, ref, commitSha, mode, outputDir, concurrency, tools, packages } = inputData;
+    const { config, tokenBudget, deterministic, models } = getInitData<typeof workflowInputSchema>();
+
+    logStepStart('generate-workspace-indexes', { repoUrl, mode, count: packages.length, concurrency });
+
+    await fs.promises.mkdir(outputDir, { recursive: true });
+
+    const results = await mapWithConcurrency(packages, concurrency, async (workspacePackage) => {
+      const { name, path: packagePath, language, version } = workspacePackage;
+      const started = Date.now();
+      try {
+        const run = await generateContextIndex.createRunAsync();
+        const result = await run.start({
+          inputData: {
+            repoUrl,
+            // The listed commit, so a branch that moves mid-batch cannot mix versions
+            ref: commitSha || ref,
+            config,
+            tokenBudget,
+            deterministic: deterministic || undefined,
+            models,
+            package: { name, path: packagePath }
+          }
+        });
+
+        if (result.status !== 'success') {
+          const reason = result.status === 'failed' ? result.error : undefined;
+          if (reason instanceof Error) throw reason;
+          throw new Error(reason ? String(reason).replace(/^Error: /, '') : `Workflow ${result.status}`);
+        }
+
+        // Combined mode only keeps the markdown; each package otherwise gets its index and appendices or shards
+        const files = mode === 'each' ? result.result.files : [];
+        for (const file of files) {
+          await fs.promises.mkdir(path.dirname(path.join(outputDir, file.fileName)), { recursive: true });
+          await fs.promises.writeFile(path.join(outputDir, file.fileName), file.content);
+        }
+        console.log(`✅ ${name} (${packagePath || '.'})${files.length > 0 ? ` -> ${path.join(outputDir, files[0].fileName)}` : ''}`);
+
+        const entry: z.infer<typeof manifestEntrySchema> = {
+          name,
+          path: packagePath,
+          language,
+          version,
+          status: 'generated',
+          files: mode === 'each' ? files.map(file => file.fileName) : undefined,
+          durationMs: Date.now() - started
+        };
+        return { entry, markdown: result.result.markdown };
+      } catch (error) {
+        // One broken package must not stop the batch
+        logError('generate-workspace-indexes', error, { name, path: packagePath });
+        console.error(`❌ ${name} (${packagePath || '.'}): ${error instanceof Error ? error.message : error}`);
+
+        const entry: z.infer<typeof manifestEntrySchema> = {
+          name,
+          path: packagePath,
+          language,
+          version,
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Unknown error',
+          durationMs: Date.now() - started
+        };
+        return { entry, markdown: undefined };
+      }
+    });
+
+    const entries = results.map(result => result.entry);
+    let combinedPath: string | undefined;
+    if (mode === 'combined') {
+      combinedPath = path.join(outputDir, `${indexBaseName(repoUrl, ref)}-workspace-context-index.md`);
+      await fs.promises.writeFile(combinedPath, combineIndexes(repoNameFromUrl(repoUrl), results));
+      console.log(`✅ Combined index -> ${combinedPath}`);
+    }
+
+    const manifestPath = path.join(outputDir, `${indexBaseName(repoUrl, ref)}-workspace-manifest.json`);
+    const manifest = {
+      repository: repoUrl,
+      ref,
+      commitSha,
+      tools,
+      mode,
+      combined: combinedPath ? path.basename(combinedPath) : undefined,
+      generatedAt: new Date().toISOString(),
+      packages: entries
+    };
+    await fs.promises.writeFile(manifestPath, `${JSON.stringify(manifest, null, 2)}\n`);
+
+    const summary = {
+      mode,
+      outputDir,
+      manifestPath,
+      combinedPath,
+      generated: entries.filter(entry => entry.status === 'generated').length,
+      failed: entries.filter(entry => entry.status === 'failed').length,
+      packages: entries
+    };
+
+    logStepEnd('generate-workspace-indexes', {
+      generated: summary.generated,
+      failed: summary.failed,
+      combinedPath
+    }, Date.now() - startTime);
+
+    return summary;
+  }
+});
+
+/**
+ * One index for the whole workspace: a package list, then each package's
+ * own index as a "## <package> - Condensed Context Index" section.
+ */
+function combineIndexes(
+  repoName: string,
+  results: Array<{ entry: z.infer<typeof manifestEntrySchema>; markdown?: string }>
+): string {
+  let markdown = `# ${repoName} - Workspace Context Index\n\n`;
+
+  markdown += `### Packages\n\n`;
+  for (const { entry } of results) {
+    const details = [entry.path || '.', entry.language, entry.version].filter(Boolean).join(', ');
+    markdown += entry.status === 'generated'
+      ? `* **\`${entry.name}\`** - ${details}\n`
+      : `* **\`${entry.name}\`** - ${details} - no index: ${entry.error || 'generation failed'}\n`;
+  }
+
+  for (const { markdown: section } of results) {
+    if (section) {
+      markdown += `\n${section.trim()}\n`;
+    }
+  }
+
+  return markdown;
+}
+
+export const generateWorkspaceIndexes = createWorkflow({
+  id: 'generate-workspace-indexes',
+  description: 'Generate a context index for every publishable package of a monorepo, one file per package or combined',
+  inputSchema: workflowInputSchema,
+  outputSchema: workflowOutputSchema
+})
+  .then(listPackagesStep)
+  .then(generateIndexesStep)
+  .commit();
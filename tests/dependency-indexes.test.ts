@@ -0,0 +1,101 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { generateDependencyIndexes } from '../src/mastra/workflows/generate-dependency-indexes';
+import { packTarball, startServer, type LocalServer } from './helpers/local-server';
+
+// A small typed package, as found in node_modules or a registry tarball
+const packageFiles = (name: string, version: string, fn: string): Record<string, string> => ({
+  'package.json': JSON.stringify({ name, version, main: 'index.js', types: 'index.d.ts' }),
+  'index.js': `exports.${fn} = (name) => \`${fn} \${name}\`;\n`,
+  'index.d.ts': `/** Say ${fn} to someone. */\nexport declare function ${fn}(name: string): string;\n`,
+  'README.md': `# ${name}\n\n\`\`\`js\nconst { ${fn} } = require('${name}');\n${fn}('world');\n\`\`\`\n`,
+});
+
+const writeFiles = (dir: string, files: Record<string, string>) => {
+  for (const [name, content] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(dir, name)), { recursive: true });
+    fs.writeFileSync(path.join(dir, name), content);
+  }
+};
+
+describe('generate-dependency-indexes', () => {
+  let root: string;
+  let registry: LocalServer;
+
+  beforeAll(async () => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'docsgen-dependencies-'));
+    process.env.DOCSGEN_HTTP_CACHE = 'off';
+    process.env.DOCSGEN_HTTP_RETRIES = '0';
+
+    // remote-lib is not installed, so it is read from the registry tarball
+    const tarball = packTarball(packageFiles('remote-lib', '2.0.0', 'wave'));
+    registry = await startServer(url => url.pathname === '/remote-lib/-/remote-lib-2.0.0.tgz'
+      ? { body: tarball, headers: { 'Content-Type': 'application/octet-stream' } }
+      : undefined);
+    process.env.NPM_REGISTRY_URL = registry.origin;
+
+    const project = path.join(root, 'project');
+    writeFiles(project, {
+      'package.json': JSON.stringify({
+        name: 'project',
+        dependencies: { 'local-lib': '^1.0.0', 'remote-lib': '^2.0.0', 'stale-lib': '^3.0.0' },
+      }),
+      'package-lock.json': JSON.stringify({
+        lockfileVersion: 3,
+        packages: {
+          '': { name: 'project' },
+          'node_modules/local-lib': { version: '1.0.0' },
+          'node_modules/remote-lib': { version: '2.0.0' },
+        },
+      }),
+    });
+    writeFiles(path.join(project, 'node_modules', 'local-lib'), packageFiles('local-lib', '1.0.0', 'greet'));
+  });
+
+  afterAll(async () => {
+    await registry?.close();
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('writes one index per locked dependency and a manifest', async () => {
+    const outputDir = path.join(root, 'indexes');
+    const run = await generateDependencyIndexes.createRunAsync();
+    const result = await run.start({
+      inputData: { projectPath: path.join(root, 'project'), outputDir, deterministic: true, concurrency: 1 },
+    });
+
+    expect(result.status).toBe('success');
+    if (result.status !== 'success') return;
+    expect(result.result).toMatchObject({ generated: 2, failed: 0, skipped: 1 });
+
+    const manifest = JSON.parse(fs.readFileSync(path.join(outputDir, 'manifest.json'), 'utf8'));
+    const byName = Object.fromEntries(manifest.packages.map((entry: { name: string }) => [entry.name, entry]));
+
+    expect(byName['local-lib']).toMatchObject({
+      status: 'generated',
+      version: '1.0.0',
+      source: path.join(root, 'project', 'node_modules', 'local-lib'),
+      file: 'local-lib@1.0.0.md',
+    });
+    expect(byName['remote-lib']).toMatchObject({
+      status: 'generated',
+      version: '2.0.0',
+      source: `${registry.origin}/remote-lib/-/remote-lib-2.0.0.tgz`,
+      file: 'remote-lib@2.0.0.md',
+    });
+    expect(byName['stale-lib']).toMatchObject({ status: 'skipped', error: 'Not found in package-lock.json' });
+
+    // Every file a single-repository run writes is on disk
+    for (const entry of [byName['local-lib'], byName['remote-lib']]) {
+      expect(entry.files[0]).toBe(entry.file);
+      for (const file of entry.files) {
+        expect(fs.existsSync(path.join(outputDir, file))).toBe(true);
+      }
+    }
+    expect(fs.readFileSync(path.join(outputDir, 'local-lib@1.0.0.md'), 'utf8')).toContain('greet');
+    expect(fs.readFileSync(path.join(outputDir, 'remote-lib@2.0.0.md'), 'utf8')).toContain('wave');
+    expect(registry.requests).toContain('/remote-lib/-/remote-lib-2.0.0.tgz');
+  });
+});
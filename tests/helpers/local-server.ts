@@ -0,0 +1,86 @@
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { gzipSync } from 'node:zlib';
+
+// What a route answers; a plain object or array is sent as JSON
+export interface Reply {
+  status?: number;
+  headers?: Record<string, string>;
+  body?: string | Buffer | object;
+}
+
+// Answer a request, or undefined for a 404
+export type Handler = (url: URL, request: http.IncomingMessage) => Reply | undefined;
+
+export interface LocalServer {
+  origin: string;
+  // host:port, as DOCSGEN_GIT_HOSTS expects it
+  host: string;
+  // Path and query of every request, in order
+  requests: string[];
+  close(): Promise<void>;
+}
+
+/**
+ * Serve `handler` on 127.0.0.1 at a free port. Every test talks to one of
+ * these instead of a real git host or registry.
+ */
+export const startServer = async (handler: Handler): Promise<LocalServer> => {
+  const requests: string[] = [];
+
+  const server = http.createServer((request, response) => {
+    requests.push(request.url || '/');
+    const url = new URL(request.url || '/', 'http://127.0.0.1');
+    const reply: Reply = handler(url, request) || { status: 404, body: { message: 'Not Found' } };
+
+    const json = reply.body !== undefined && typeof reply.body !== 'string' && !Buffer.isBuffer(reply.body);
+    const body = json ? JSON.stringify(reply.body) : reply.body as string | Buffer | undefined;
+    response.writeHead(reply.status || 200, {
+      ...(json ? { 'Content-Type': 'application/json' } : {}),
+      ...reply.headers,
+    });
+    response.end(body);
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    origin: `http://127.0.0.1:${port}`,
+    host: `127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise<void>((resolve, reject) => {
+      server.closeAllConnections();
+      server.close(error => error ? reject(error) : resolve());
+    }),
+  };
+};
+
+// One ustar header block for a regular file
+const tarHeader = (name: string, size: number): Buffer => {
+  const header = Buffer.alloc(512);
+  header.write(name, 0, 100);
+  header.write('0000644\0', 100);
+  header.write('0000000\0', 108);
+  header.write('0000000\0', 116);
+  header.write(`${size.toString(8).padStart(11, '0')}\0`, 124);
+  header.write('00000000000\0', 136);
+  header.write('        ', 148);
+  header.write('0', 156);
+  header.write('ustar\0', 257);
+  header.write('00', 263);
+  const checksum = header.reduce((sum, byte) => sum + byte, 0);
+  header.write(`${checksum.toString(8).padStart(6, '0')}\0 `, 148);
+  return header;
+};
+
+// Gzipped tarball with the files under package/, the way `npm pack` lays them out
+export const packTarball = (files: Record<string, string>): Buffer => {
+  const blocks: Buffer[] = [];
+  for (const [name, content] of Object.entries(files)) {
+    const data = Buffer.from(content);
+    blocks.push(tarHeader(`package/${name}`, data.length), data, Buffer.alloc((512 - data.length % 512) % 512));
+  }
+  blocks.push(Buffer.alloc(1024));
+  return gzipSync(Buffer.concat(blocks));
+};
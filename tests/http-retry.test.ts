@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { fetchWithRetry, RateLimitError } from '../src/mastra/utils/http-retry';
+import { startServer, type LocalServer, type Reply } from './helpers/local-server';
+
+// Answer each request with the next reply; the last one repeats
+const serveInTurn = (...replies: Reply[]) => {
+  let next = 0;
+  return () => replies[Math.min(next++, replies.length - 1)];
+};
+
+describe('fetchWithRetry', () => {
+  let server: LocalServer | undefined;
+
+  beforeEach(() => {
+    process.env.DOCSGEN_HTTP_RETRIES = '2';
+    process.env.DOCSGEN_HTTP_MAX_WAIT = '5';
+  });
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+  });
+
+  it('retries server errors until one succeeds', async () => {
+    server = await startServer(serveInTurn({ status: 503 }, { status: 502 }, { body: 'ok' }));
+
+    const response = await fetchWithRetry(`${server.origin}/file`);
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe('ok');
+    expect(server.requests).toHaveLength(3);
+  });
+
+  it('returns the last error response once the retries are used up', async () => {
+    process.env.DOCSGEN_HTTP_RETRIES = '1';
+    server = await startServer(serveInTurn({ status: 500, body: 'broken' }));
+
+    const response = await fetchWithRetry(`${server.origin}/file`);
+    expect(response.status).toBe(500);
+    expect(server.requests).toHaveLength(2);
+  });
+
+  it('does not retry client errors', async () => {
+    server = await startServer(serveInTurn({ status: 404 }));
+
+    const response = await fetchWithRetry(`${server.origin}/missing`);
+    expect(response.status).toBe(404);
+    expect(server.requests).toHaveLength(1);
+  });
+
+  it('waits as long as Retry-After asks', async () => {
+    server = await startServer(serveInTurn({ status: 429, headers: { 'Retry-After': '1' } }, { body: 'ok' }));
+
+    const started = Date.now();
+    const response = await fetchWithRetry(`${server.origin}/file`);
+    expect(response.status).toBe(200);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(900);
+  });
+
+  it('throws a RateLimitError rather than wait past DOCSGEN_HTTP_MAX_WAIT', async () => {
+    server = await startServer(serveInTurn({ status: 429, headers: { 'Retry-After': '600' } }));
+
+    await expect(fetchWithRetry(`${server.origin}/file`)).rejects.toBeInstanceOf(RateLimitError);
+    expect(server.requests).toHaveLength(1);
+  });
+
+  it('reports when an exhausted limit resets', async () => {
+    const reset = Math.floor(Date.now() / 1000) + 3600;
+    server = await startServer(serveInTurn({
+      status: 403,
+      headers: { 'X-RateLimit-Limit': '60', 'X-RateLimit-Remaining': '0', 'X-RateLimit-Reset': String(reset) },
+    }));
+
+    const error = await fetchWithRetry(`${server.origin}/file`).catch(caught => caught);
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.host).toBe(server.host);
+    expect(error.resetAt).toEqual(new Date(reset * 1000));
+  });
+
+  it('keeps a 403 without rate-limit headers as a plain response', async () => {
+    server = await startServer(serveInTurn({ status: 403 }));
+
+    const response = await fetchWithRetry(`${server.origin}/private`);
+    expect(response.status).toBe(403);
+    expect(server.requests).toHaveLength(1);
+  });
+});
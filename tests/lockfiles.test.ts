@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest';
+import { parsePackageLock, parsePnpmLock, parseYarnLock } from '../src/mastra/dependencies';
+
+describe('parsePackageLock', () => {
+  it('reads lockfileVersion 3 packages', () => {
+    const lookup = parsePackageLock(JSON.stringify({
+      lockfileVersion: 3,
+      packages: {
+        '': { name: 'app' },
+        'node_modules/lodash': { version: '4.17.21', resolved: 'https://registry.npmjs.org/lodash/-/lodash-4.17.21.tgz' },
+        'node_modules/@scope/pkg': { version: '1.2.3' },
+        'node_modules/strip': { name: 'string-width', version: '4.2.3' },
+        'node_modules/local': { version: 'file:../local' },
+      },
+    }));
+
+    expect(lookup('lodash', '^4.17.0')).toEqual({
+      name: 'lodash',
+      version: '4.17.21',
+      resolved: 'https://registry.npmjs.org/lodash/-/lodash-4.17.21.tgz',
+    });
+    expect(lookup('@scope/pkg', '^1.0.0')?.version).toBe('1.2.3');
+    expect(lookup('strip', 'npm:string-width@^4.2.0')).toMatchObject({ name: 'string-width', version: '4.2.3' });
+    expect(lookup('local', 'file:../local')).toBeUndefined();
+    expect(lookup('missing', '^1.0.0')).toBeUndefined();
+  });
+
+  it('reads lockfileVersion 1 dependencies and their aliases', () => {
+    const lookup = parsePackageLock(JSON.stringify({
+      lockfileVersion: 1,
+      dependencies: {
+        chalk: { version: '4.1.2' },
+        strip: { version: 'npm:string-width@4.2.3' },
+      },
+    }));
+
+    expect(lookup('chalk', '^4.0.0')).toMatchObject({ name: 'chalk', version: '4.1.2' });
+    expect(lookup('strip', 'npm:string-width@^4.2.0')).toMatchObject({ name: 'string-width', version: '4.2.3' });
+  });
+});
+
+describe('parsePnpmLock', () => {
+  it('reads v9 importers and drops peer suffixes', () => {
+    const lookup = parsePnpmLock([
+      "lockfileVersion: '9.0'",
+      '',
+      'importers:',
+      '',
+      '  .:',
+      '    dependencies:',
+      '      react-dom:',
+      '        specifier: ^18.2.0',
+      '        version: 18.2.0(react@18.2.0)',
+      '      strip:',
+      '        specifier: npm:string-width@^4.2.0',
+      '        version: string-width@4.2.3',
+      '      local:',
+      '        specifier: link:../local',
+      '        version: link:../local',
+      '    devDependencies:',
+      '      vitest:',
+      '        specifier: ^3.0.0',
+      '        version: 3.2.4',
+      '',
+      'packages:',
+      '',
+      '  react-dom@18.2.0:',
+      '    resolution: {integrity: sha512-abc}',
+    ].join('\n'));
+
+    expect(lookup('react-dom', '^18.2.0')).toMatchObject({ name: 'react-dom', version: '18.2.0' });
+    expect(lookup('strip', 'npm:string-width@^4.2.0')).toMatchObject({ name: 'string-width', version: '4.2.3' });
+    expect(lookup('vitest', '^3.0.0')?.version).toBe('3.2.4');
+    expect(lookup('local', 'link:../local')).toBeUndefined();
+    expect(lookup('missing', '^1.0.0')).toBeUndefined();
+  });
+
+  it('reads v5 top-level versions, aliases and tarball resolutions', () => {
+    const lookup = parsePnpmLock([
+      'lockfileVersion: 5.4',
+      '',
+      'specifiers:',
+      '  react-dom: ^18.2.0',
+      '  strip: npm:string-width@^4.2.0',
+      '',
+      'dependencies:',
+      '  react-dom: 18.2.0_react@18.2.0',
+      '  strip: /string-width/4.2.3',
+      '',
+      'packages:',
+      '',
+      '  /string-width/4.2.3:',
+      '    resolution: {tarball: https://mirror.example.com/string-width-4.2.3.tgz}',
+    ].join('\n'));
+
+    expect(lookup('react-dom', '^18.2.0')).toMatchObject({ name: 'react-dom', version: '18.2.0' });
+    expect(lookup('strip', 'npm:string-width@^4.2.0')).toEqual({
+      name: 'string-width',
+      version: '4.2.3',
+      resolved: 'https://mirror.example.com/string-width-4.2.3.tgz',
+    });
+  });
+});
+
+describe('parseYarnLock', () => {
+  const classic = [
+    '# THIS IS AN AUTOGENERATED FILE. DO NOT EDIT THIS FILE DIRECTLY.',
+    '# yarn lockfile v1',
+    '',
+    '',
+    '"@babel/core@^7.0.0", "@babel/core@^7.20.0":',
+    '  version "7.24.0"',
+    '  resolved "https://registry.yarnpkg.com/@babel/core/-/core-7.24.0.tgz#abc123"',
+    '',
+    'lodash@^4.17.21:',
+    '  version "4.17.21"',
+    '  resolved "https://registry.yarnpkg.com/lodash/-/lodash-4.17.21.tgz#def456"',
+    '',
+    '"strip@npm:string-width@^4.2.0":',
+    '  version "4.2.3"',
+  ].join('\n');
+
+  it('matches classic v1 entries by each descriptor', () => {
+    const lookup = parseYarnLock(classic);
+
+    expect(lookup('@babel/core', '^7.20.0')).toEqual({
+      name: '@babel/core',
+      version: '7.24.0',
+      resolved: 'https://registry.yarnpkg.com/@babel/core/-/core-7.24.0.tgz',
+    });
+    expect(lookup('lodash', '^4.17.21')?.version).toBe('4.17.21');
+    expect(lookup('strip', 'npm:string-width@^4.2.0')).toMatchObject({ name: 'string-width', version: '4.2.3' });
+  });
+
+  it('leaves a range missing from the lockfile unresolved', () => {
+    const lookup = parseYarnLock(classic);
+    expect(lookup('lodash', '~4.17.20')).toBeUndefined();
+    expect(lookup('missing', '^1.0.0')).toBeUndefined();
+  });
+
+  it('reads Yarn Berry entries and alias resolutions', () => {
+    const lookup = parseYarnLock([
+      '__metadata:',
+      '  version: 8',
+      '',
+      '"lodash@npm:^4.17.21":',
+      '  version: 4.17.21',
+      '  resolution: "lodash@npm:4.17.21"',
+      '',
+      '"strip@npm:string-width@^4.2.0":',
+      '  version: 4.2.3',
+      '  resolution: "string-width@npm:4.2.3"',
+    ].join('\n'));
+
+    expect(lookup('lodash', '^4.17.21')).toMatchObject({ name: 'lodash', version: '4.17.21' });
+    expect(lookup('strip', 'npm:string-width@^4.2.0')).toMatchObject({ name: 'string-width', version: '4.2.3' });
+    expect(lookup('lodash', '^4.0.0')).toBeUndefined();
+  });
+});
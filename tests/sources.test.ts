@@ -0,0 +1,200 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { resolveSource, type SourceKind } from '../src/mastra/sources';
+import { RateLimitError } from '../src/mastra/utils/http-retry';
+import { startServer, type Handler, type LocalServer, type Reply } from './helpers/local-server';
+
+const SHA = 'a1b2c3d4e5f60718293a4b5c6d7e8f9012345678';
+
+const FILES: Record<string, string> = {
+  'README.md': '# Demo\n',
+  'src/index.ts': 'export const answer = 42;\n',
+};
+
+// A file at the resolved commit; reads must never go to the branch name
+const fileAt = (filePath: string, ref: string | null): Reply | undefined => {
+  const content = FILES[decodeURIComponent(filePath)];
+  return content !== undefined && ref === SHA ? { body: content, headers: { 'Content-Type': 'text/plain' } } : undefined;
+};
+
+// Route requests below `prefix` by the rest of the path
+const under = (prefix: string, route: (rest: string, url: URL) => Reply | undefined): Handler => {
+  return url => url.pathname.startsWith(prefix) ? route(url.pathname.substring(prefix.length), url) : undefined;
+};
+
+interface Adapter {
+  kind: SourceKind;
+  env?: (server: LocalServer) => Record<string, string>;
+  handler: (server: LocalServer) => Handler;
+}
+
+const ADAPTERS: Adapter[] = [
+  {
+    // A self-hosted GitHub Enterprise API lives under /api/v3
+    kind: 'github',
+    handler: () => under('/api/v3/repos/acme/demo', (rest, url) => {
+      if (rest === '') return { body: { name: 'demo', full_name: 'acme/demo', default_branch: 'main' } };
+      if (rest === '/languages') return { body: { TypeScript: 1000 } };
+      if (rest === '/commits/main') return { body: { sha: SHA } };
+      if (rest === '/tags') return { body: [{ name: 'v1.0.0' }] };
+      if (rest === `/git/trees/${SHA}`) {
+        return {
+          body: {
+            tree: [
+              { path: 'README.md', type: 'blob', size: 7 },
+              { path: 'src', type: 'tree' },
+              { path: 'src/index.ts', type: 'blob', size: 26 },
+            ],
+            truncated: false,
+          },
+        };
+      }
+      if (rest.startsWith('/contents/')) return fileAt(rest.substring('/contents/'.length), url.searchParams.get('ref'));
+      return undefined;
+    }),
+  },
+  {
+    kind: 'gitlab',
+    handler: () => under('/api/v4/projects/acme%2Fdemo', (rest, url) => {
+      if (rest === '') return { body: { name: 'demo', path_with_namespace: 'acme/demo', default_branch: 'main' } };
+      if (rest === '/languages') return { body: { TypeScript: 100 } };
+      if (rest === '/repository/commits/main') return { body: { id: SHA } };
+      if (rest === '/repository/tags') return { body: [{ name: 'v1.0.0' }] };
+      if (rest === '/repository/tree' && url.searchParams.get('ref') === SHA) {
+        return {
+          body: [
+            { name: 'README.md', path: 'README.md', type: 'blob' },
+            { name: 'src', path: 'src', type: 'tree' },
+            { name: 'index.ts', path: 'src/index.ts', type: 'blob' },
+          ],
+        };
+      }
+      const file = rest.match(/^\/repository\/files\/(.+)\/raw$/);
+      if (file) return fileAt(file[1], url.searchParams.get('ref'));
+      return undefined;
+    }),
+  },
+  {
+    // The listing comes back in two pages linked by "next"
+    kind: 'bitbucket',
+    env: server => ({ BITBUCKET_API_URL: `${server.origin}/2.0` }),
+    handler: server => under('/2.0/repositories/acme/demo', (rest, url) => {
+      if (rest === '') return { body: { name: 'demo', full_name: 'acme/demo', mainbranch: { name: 'main' }, language: 'typescript' } };
+      if (rest === '/commit/main') return { body: { hash: SHA } };
+      if (rest === '/refs/tags') return { body: { values: [{ name: 'v1.0.0' }] } };
+      if (rest === `/src/${SHA}/`) {
+        return url.searchParams.get('page') === '2'
+          ? { body: { values: [{ path: 'src/index.ts', type: 'commit_file', size: 26 }] } }
+          : {
+            body: {
+              values: [
+                { path: 'README.md', type: 'commit_file', size: 7 },
+                { path: 'src', type: 'commit_directory' },
+              ],
+              next: `${server.origin}/2.0/repositories/acme/demo/src/${SHA}/?max_depth=20&pagelen=100&page=2`,
+            },
+          };
+      }
+      if (rest.startsWith(`/src/${SHA}/`)) return fileAt(rest.substring(`/src/${SHA}/`.length), SHA);
+      return undefined;
+    }),
+  },
+  {
+    // The recursive tree is paged while Gitea reports it truncated
+    kind: 'gitea',
+    handler: () => under('/api/v1/repos/acme/demo', (rest, url) => {
+      if (rest === '') return { body: { name: 'demo', full_name: 'acme/demo', default_branch: 'main' } };
+      if (rest === '/languages') return { body: { TypeScript: 100 } };
+      if (rest === '/commits') return { body: url.searchParams.get('sha') === 'main' ? [{ sha: SHA }] : [] };
+      if (rest === '/tags') return { body: [{ name: 'v1.0.0' }] };
+      if (rest === `/git/trees/${SHA}`) {
+        return url.searchParams.get('page') === '2'
+          ? { body: { tree: [{ path: 'src/index.ts', type: 'blob', size: 26 }], truncated: false } }
+          : { body: { tree: [{ path: 'README.md', type: 'blob', size: 7 }, { path: 'src', type: 'tree' }], truncated: true } };
+      }
+      if (rest.startsWith('/raw/')) return fileAt(rest.substring('/raw/'.length), url.searchParams.get('ref'));
+      return undefined;
+    }),
+  },
+];
+
+const setEnv = (values: Record<string, string | undefined>) => {
+  for (const [name, value] of Object.entries(values)) {
+    if (value === undefined) delete process.env[name];
+    else process.env[name] = value;
+  }
+};
+
+beforeAll(() => {
+  setEnv({
+    DOCSGEN_HTTP_CACHE: 'off',
+    DOCSGEN_HTTP_RETRIES: '0',
+    GITHUB_API_URL: undefined,
+    GITLAB_API_URL: undefined,
+    GITEA_API_URL: undefined,
+  });
+});
+
+describe.each(ADAPTERS)('$kind source', ({ kind, env, handler }) => {
+  let server: LocalServer;
+  let repoUrl: string;
+
+  beforeAll(async () => {
+    // Bound once the port is known, since Bitbucket links carry the origin
+    let route: Handler = () => undefined;
+    server = await startServer((url, request) => route(url, request));
+    route = handler(server);
+    repoUrl = `${server.origin}/acme/demo`;
+    setEnv({ DOCSGEN_GIT_HOSTS: `${server.host}=${kind}`, ...env?.(server) });
+  });
+
+  afterAll(() => server.close());
+
+  it('is picked for a configured host', async () => {
+    const source = await resolveSource(repoUrl);
+    expect(source.kind).toBe(kind);
+    expect(source.name).toBe('demo');
+  });
+
+  it('reads metadata and pins the default branch to a commit', async () => {
+    const source = await resolveSource(repoUrl);
+    expect(await source.getDefaultBranch()).toBe('main');
+    expect(await source.resolveCommit()).toBe(SHA);
+    expect(await source.listTags()).toEqual(['v1.0.0']);
+  });
+
+  it('lists every file and reads them at the resolved commit', async () => {
+    const source = await resolveSource(repoUrl);
+    await source.resolveCommit();
+
+    const tree = await source.listTree();
+    expect(tree?.map(entry => entry.path).sort()).toEqual(['README.md', 'src/index.ts']);
+    expect(await source.readFile('src/index.ts')).toBe(FILES['src/index.ts']);
+    expect(await source.readFile('missing.md')).toBeNull();
+  });
+
+  it('fails for a ref the host does not know', async () => {
+    const source = await resolveSource(`${repoUrl}@no-such-tag`);
+    await expect(source.resolveCommit()).rejects.toThrow('Ref "no-such-tag" not found');
+  });
+});
+
+describe('rate limiting', () => {
+  let server: LocalServer;
+
+  beforeAll(async () => {
+    const resetAt = Math.floor(Date.now() / 1000) + 3600;
+    server = await startServer(() => ({
+      status: 403,
+      headers: { 'x-ratelimit-limit': '60', 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': String(resetAt) },
+      body: { message: 'API rate limit exceeded' },
+    }));
+    setEnv({ DOCSGEN_GIT_HOSTS: `${server.host}=github` });
+  });
+
+  afterAll(() => server.close());
+
+  it('surfaces an exhausted limit instead of reading files as missing', async () => {
+    const source = await resolveSource(`${server.origin}/acme/demo`);
+    await expect(source.readFile('README.md')).rejects.toBeInstanceOf(RateLimitError);
+  });
+});